@@ -0,0 +1,397 @@
+import { BatTool } from "@bat-ai/tools";
+import {
+  BufferMemory,
+  BufferWindowMemory,
+  CombinedMemory,
+} from "langchain/memory";
+import { MemoryVectorStore } from "langchain/vectorstores/memory";
+import { Agent } from "./Agent";
+import { DatabaseVectorStoreMemory } from "./memory/DatabaseVectorStoreMemory";
+import { HashEmbeddings } from "./memory/HashEmbeddings";
+import { MemoryFactory } from "./memory/MemoryFactory";
+import { InMemoryCacheStore } from "../cache/InMemoryCacheStore";
+import { ResponseCache } from "../cache/ResponseCache";
+import { RateLimiter } from "../scheduling/RateLimiter";
+import { FakeChatModel } from "../testing/FakeChatModel";
+import {
+  delegationResponse,
+  finalAnswerResponse,
+  toolCallResponse,
+  toolSelectionResponse,
+} from "../testing/fakeResponses";
+import { delay } from "../utils/abort";
+import { Logger } from "../utils/Logger";
+
+const logger = new Logger({ transports: [] });
+
+const calculator: BatTool = {
+  schema: {
+    name: "calculator",
+    description: "Multiplies two numbers",
+    parameters: {
+      a: { type: "number" },
+      b: { type: "number" },
+    },
+  },
+  execute: async (input: { a: number; b: number }) => ({
+    success: true,
+    result: input.a * input.b,
+  }),
+};
+
+function createAgent(model: FakeChatModel, tools: BatTool[] = []): Agent {
+  return new Agent({
+    role: "Mathematician",
+    goal: "Solve arithmetic problems",
+    backstory: "Good with numbers",
+    model,
+    tools,
+    logger,
+  });
+}
+
+describe("Agent.execute", () => {
+  it("answers directly when it has no tools", async () => {
+    const model = new FakeChatModel({ defaultResponse: "Hello" });
+    const agent = createAgent(model);
+
+    await expect(agent.execute("Say hello")).resolves.toBe("Hello");
+  });
+
+  it("returns a direct final answer with a single model call", async () => {
+    const model = new FakeChatModel({
+      responses: [finalAnswerResponse("Hello")],
+    });
+    const agent = createAgent(model, [calculator]);
+
+    const result = await agent.executeWithDetails("Say hello");
+
+    expect(result.output).toBe("Hello");
+    expect(result.toolCalls).toEqual([]);
+    expect(model.getCalls()).toHaveLength(1);
+  });
+
+  it("calls the selected tool and returns the final answer", async () => {
+    const model = new FakeChatModel({
+      responses: [
+        { prompt: "Previous steps", response: finalAnswerResponse("42") },
+        toolSelectionResponse("calculator", { a: 6, b: 7 }),
+      ],
+    });
+    const agent = createAgent(model, [calculator]);
+
+    const result = await agent.executeWithDetails("What is 6 times 7?");
+
+    expect(result.output).toBe("42");
+    expect(result.toolCalls).toEqual([
+      { tool: "calculator", input: { a: 6, b: 7 }, observation: "42" },
+    ]);
+    expect(result.tokenUsage.totalTokens).toBeGreaterThan(0);
+  });
+
+  it("shows the model why a tool input is invalid", async () => {
+    const execute = jest.fn(calculator.execute);
+    const model = new FakeChatModel({
+      responses: [
+        { prompt: "Fix the input", response: finalAnswerResponse("42") },
+        toolSelectionResponse("calculator", { a: "six", b: 7 }),
+      ],
+    });
+    const agent = createAgent(model, [{ ...calculator, execute }]);
+
+    const result = await agent.executeWithDetails("What is 6 times 7?");
+
+    expect(result.output).toBe("42");
+    expect(execute).not.toHaveBeenCalled();
+    expect(result.toolCalls[0].observation).toBe(
+      "Error: Invalid input for tool calculator: input.a must be of type " +
+        "number, got string. Fix the input and call the tool again."
+    );
+  });
+
+  it("asks again when the response is not a JSON object", async () => {
+    const model = new FakeChatModel({
+      responses: [
+        { prompt: "Previous steps", response: finalAnswerResponse("42") },
+        "[6, 7]",
+        toolSelectionResponse("calculator", { a: 6, b: 7 }),
+      ],
+    });
+    const agent = createAgent(model, [calculator]);
+
+    await expect(agent.execute("What is 6 times 7?")).resolves.toBe("42");
+    expect(model.getCalls()[1].prompt).toContain(
+      "Response must be a JSON object"
+    );
+  });
+
+  it("uses native tool calls when the model supports them", async () => {
+    const model = new FakeChatModel({
+      toolCalling: true,
+      responses: [toolCallResponse("calculator", { a: 6, b: 7 }), "42"],
+    });
+    const agent = createAgent(model, [calculator]);
+
+    const result = await agent.executeWithDetails("What is 6 times 7?");
+
+    expect(result.output).toBe("42");
+    expect(result.toolCalls.map((step) => step.tool)).toEqual(["calculator"]);
+    expect(model.getCalls()[0].tools).toEqual(["calculator"]);
+  });
+
+  it("lets the model recover from a call of an unknown tool", async () => {
+    const model = new FakeChatModel({
+      toolCalling: true,
+      responses: [toolCallResponse("multiply", { a: 6, b: 7 }), "42"],
+    });
+    const agent = createAgent(model, [calculator]);
+
+    const result = await agent.executeWithDetails("What is 6 times 7?");
+
+    expect(result.output).toBe("42");
+    expect(result.toolCalls).toEqual([]);
+    expect(model.getCalls()[1].prompt).toContain(
+      'Unknown tool "multiply". Available tools: calculator'
+    );
+  });
+});
+
+describe("Agent delegation", () => {
+  /**
+   * Creates an agent that delegates every task it gets to another agent
+   * @param role Role of the agent
+   * @param delegateRole Role of the agent to delegate to
+   */
+  function createDelegator(role: string, delegateRole: string): Agent {
+    return new Agent({
+      role,
+      goal: "Get work done",
+      backstory: "Busy",
+      model: new FakeChatModel({
+        defaultResponse: `Answer of ${role}`,
+        responses: [
+          { prompt: "Can you handle", response: "no", times: Infinity },
+          {
+            prompt: "Should this task be delegated",
+            response: delegationResponse(delegateRole, "Better suited"),
+            times: Infinity,
+          },
+          {
+            prompt: "You delegated this task",
+            response: `Review by ${role}`,
+            times: Infinity,
+          },
+        ],
+      }),
+      maxDelegationDepth: 1,
+      logger,
+    });
+  }
+
+  it("stops delegating at the maximum delegation depth", async () => {
+    const lead = createDelegator("Lead", "Writer");
+    const writer = createDelegator("Writer", "Editor");
+    const editor = createDelegator("Editor", "Lead");
+
+    const result = await lead.executeWithDetails("Write an article", [
+      lead,
+      writer,
+      editor,
+    ]);
+
+    expect(result.output).toBe("Review by Lead");
+    expect(result.delegation?.chain).toEqual(["Lead", "Writer"]);
+    expect(result.delegation?.result.output).toBe("Answer of Writer");
+  });
+
+  it("never delegates back to an agent in the chain", async () => {
+    const lead = createDelegator("Lead", "Writer");
+    const writer = createDelegator("Writer", "Lead");
+
+    const result = await lead.executeWithDetails(
+      "Write an article",
+      [lead, writer],
+      { maxDelegationDepth: 3 }
+    );
+
+    expect(result.delegation?.chain).toEqual(["Lead", "Writer"]);
+    expect(result.delegation?.result.output).toBe("Answer of Writer");
+  });
+});
+
+describe("Agent rate limits", () => {
+  it("gives back rate limits taken for a request that is not sent", async () => {
+    const first = new RateLimiter({ requestsPerMinute: 1 });
+    const second = new RateLimiter({ requestsPerMinute: 1 });
+    await second.acquire(0);
+    const controller = new AbortController();
+    const agent = createAgent(new FakeChatModel({ defaultResponse: "Hi" }));
+
+    const execution = agent.executeWithDetails("Say hi", [], {
+      rateLimiters: [first, second],
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(new Error("Stopped")), 10);
+    await expect(execution).rejects.toThrow("Stopped");
+
+    const acquired = await Promise.race([
+      first.acquire(0).then(() => true),
+      delay(100).then(() => false),
+    ]);
+    expect(acquired).toBe(true);
+  });
+});
+
+describe("Agent cache", () => {
+  it("answers a repeated prompt from the cache", async () => {
+    const cache = new ResponseCache({ store: new InMemoryCacheStore() });
+    const model = new FakeChatModel({
+      responses: [{ prompt: "Can you handle", response: "yes" }, "Hello"],
+    });
+    const agent = createAgent(model);
+
+    await expect(
+      agent.executeWithDetails("Say hello", [], { cache })
+    ).resolves.toEqual(expect.objectContaining({ output: "Hello" }));
+    await expect(
+      agent.executeWithDetails("Say hello", [], { cache })
+    ).resolves.toEqual(expect.objectContaining({ output: "Hello" }));
+    // Only the first execution reached the model, a new prompt misses
+    expect(model.getCalls()).toHaveLength(2);
+    await expect(
+      agent.executeWithDetails("Say goodbye", [], { cache })
+    ).rejects.toThrow();
+  });
+});
+
+describe("Agent memory compaction", () => {
+  /**
+   * Creates an agent whose memory does not fit in its prompt
+   * @param model Model of the agent
+   * @param memory Memory of the agent, filled with long messages
+   */
+  async function createForgetfulAgent(
+    model: FakeChatModel,
+    memory: BufferMemory | BufferWindowMemory
+  ): Promise<Agent> {
+    for (let turn = 1; turn <= 4; turn++) {
+      await memory.saveContext(
+        { input: `Question ${turn}: ${"about bats ".repeat(20)}` },
+        { output: `Answer ${turn}: ${"bats fly ".repeat(20)}` }
+      );
+    }
+    return new Agent({
+      role: "Assistant",
+      goal: "Answer questions",
+      backstory: "Helpful",
+      model,
+      memory,
+      contextBudget: { contextWindow: 300, reservedOutputTokens: 50 },
+      logger,
+    });
+  }
+
+  it("summarizes older messages of a memory keeping every message", async () => {
+    const model = new FakeChatModel({
+      defaultResponse: "Hi",
+      responses: [
+        {
+          prompt: "Summarize the conversation",
+          response: "They talked about bats",
+        },
+      ],
+    });
+    const memory = new BufferMemory({ returnMessages: true });
+    const agent = await createForgetfulAgent(model, memory);
+
+    await agent.execute("Say hi");
+
+    const messages = await agent.getMemoryMessages();
+    expect(messages[0].content).toBe(
+      "Summary of the earlier conversation: They talked about bats"
+    );
+    expect(messages.length).toBeLessThan(8);
+  });
+
+  it("leaves a buffer-window memory as it is", async () => {
+    const model = new FakeChatModel({ defaultResponse: "Hi" });
+    const memory = new BufferWindowMemory({ k: 10, returnMessages: true });
+    const agent = await createForgetfulAgent(model, memory);
+    const before = await agent.getMemoryMessages();
+
+    await agent.execute("Say hi");
+
+    const after = await agent.getMemoryMessages();
+    expect(after.slice(0, before.length)).toEqual(before);
+    expect(
+      model
+        .getCalls()
+        .some((call) => call.prompt.includes("Summarize the conversation"))
+    ).toBe(false);
+    // Older messages are still left out of the prompt
+    expect(model.getCalls()[0].prompt).not.toContain("Question 1");
+  });
+});
+
+describe("Agent sessions", () => {
+  it("releases the least recently used sessions beyond maxSessions", async () => {
+    const agent = new Agent({
+      role: "Assistant",
+      goal: "Answer questions",
+      backstory: "Helpful",
+      model: new FakeChatModel({ defaultResponse: "Hi" }),
+      sessionMemory: () => new BufferMemory({ returnMessages: true }),
+      maxSessions: 2,
+      logger,
+    });
+
+    for (const sessionId of ["alice", "bob", "alice", "carol"]) {
+      await agent.executeWithDetails("Hello", [], { sessionId });
+    }
+    expect(agent.getSessionIds()).toEqual(["alice", "carol"]);
+
+    await agent.releaseSession("alice");
+    expect(agent.getSessionIds()).toEqual(["carol"]);
+  });
+
+  it("closes the database client of a session it clears", async () => {
+    const connection = {
+      connect: jest.fn(async () => undefined),
+      close: jest.fn(async () => undefined),
+    };
+    const memories: CombinedMemory[] = [];
+    const agent = new Agent({
+      role: "Assistant",
+      goal: "Answer questions",
+      backstory: "Helpful",
+      model: new FakeChatModel({ defaultResponse: "Hi" }),
+      sessionMemory: () => {
+        const memory = new CombinedMemory({
+          memories: [
+            new BufferMemory({ memoryKey: "chat_history", inputKey: "input" }),
+            new DatabaseVectorStoreMemory(
+              {
+                vectorStoreRetriever: new MemoryVectorStore(
+                  new HashEmbeddings()
+                ).asRetriever(),
+                memoryKey: "relevant",
+                inputKey: "input",
+              },
+              connection
+            ),
+          ],
+        });
+        memories.push(memory);
+        return memory;
+      },
+      logger,
+    });
+
+    await agent.getMemoryMessages("alice");
+    await MemoryFactory.connect(memories[0]);
+    await agent.clearMemory("alice");
+
+    expect(connection.close).toHaveBeenCalledTimes(1);
+    expect(agent.getSessionIds()).toEqual([]);
+  });
+});
@@ -1,8 +1,73 @@
+import { randomUUID } from "crypto";
 import { BatTool } from "@bat-ai/tools";
-import { BaseMessage } from "@langchain/core/messages";
+import {
+  BaseMessage,
+  BaseMessageChunk,
+  isAIMessage,
+  SystemMessage,
+  mapChatMessagesToStoredMessages,
+  mapStoredMessagesToChatMessages,
+} from "@langchain/core/messages";
+import { ToolCall } from "@langchain/core/messages/tool";
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { BaseMemory } from "langchain/memory";
+import { Span, Tracer } from "@opentelemetry/api";
 import { Logger } from "../utils/Logger";
+import {
+  ToolDefinition,
+  getToolParametersSchema,
+  toToolDefinition,
+} from "../tools/toolDefinition";
+import { ToolInputValidator } from "../tools/ToolInputValidator";
+import { NonRetryableError } from "../tasks/NonRetryableError";
+import { AgentExecutionError } from "./AgentExecutionError";
+import { findAgentByRole } from "./findAgentByRole";
+import { ToolInputValidationError } from "../tools/ToolInputValidationError";
+import {
+  TokenUsage,
+  addTokenUsage,
+  emptyTokenUsage,
+  estimateTokens,
+  getTokenUsage,
+} from "../usage/TokenUsage";
+import {
+  ExecutionEvent,
+  ExecutionEventData,
+  ExecutionEventListener,
+  createEvent,
+} from "../events/ExecutionEvent";
+import { streamEvents } from "../events/EventChannel";
+import { abortable, throwIfAborted } from "../utils/abort";
+import { getModelName } from "../utils/getModelName";
+import { RateLimiter } from "../scheduling/RateLimiter";
+import { UsageTracker } from "../usage/UsageTracker";
+import { ApprovalHandler, ApprovalPolicy } from "../approval/ApprovalHandler";
+import { ResponseCache } from "../cache/ResponseCache";
+import {
+  Blackboard,
+  BlackboardEntry,
+  formatBlackboardValue,
+} from "../blackboard/Blackboard";
+import { createBlackboardTools } from "../blackboard/blackboardTools";
+import { ContextBudget, ContextBudgetOptions } from "../prompts/ContextBudget";
+import {
+  MemoryExport,
+  clearMemory,
+  getMemoryMessages,
+  loadsEveryMessage,
+  loadMemoryContext,
+  replaceMemoryMessages,
+  validateMemoryExport,
+} from "./memory/memoryContents";
+import { MemoryFactory } from "./memory/MemoryFactory";
+import { requestApproval, requiresApproval } from "../approval/requestApproval";
+import {
+  TraceContext,
+  getTracer,
+  recordSpanError,
+  startSpan,
+  withSpan,
+} from "../utils/tracing";
 
 /**
  * Interface for LLM models that can be used by agents
@@ -24,6 +89,11 @@ export interface AgentMemory extends BaseMemory {
   ): Promise<void>;
 }
 
+/**
+ * Creates the memory of a conversation session
+ */
+export type SessionMemoryFactory = (sessionId: string) => AgentMemory;
+
 /**
  * Interface for task delegation
  */
@@ -31,8 +101,125 @@ export interface TaskDelegation {
   task: string;
   reason: string;
   targetAgentRole: string;
+  context?: string;
+  expectations?: string;
+}
+
+/**
+ * Result of a delegated task, returned to the delegating agent for review
+ */
+export interface DelegationResult {
+  delegatorRole: string;
+  delegateRole: string;
+  task: string;
+  reason: string;
+  context?: string;
+  expectations?: string;
+  /** Roles the task went through, from the first delegator to the delegate */
+  chain: string[];
+  result: AgentExecutionResult;
+}
+
+/**
+ * A tool call made by the agent and the result it observed
+ */
+export interface AgentStep {
+  tool: string;
+  input: unknown;
+  observation: string;
+}
+
+/**
+ * State collected while the agent executes a task
+ */
+export interface ExecutionContext {
+  toolCalls: AgentStep[];
+  tokenUsage: TokenUsage;
+  emit: ExecutionEventListener;
+  signal?: AbortSignal;
+  rateLimiters: RateLimiter[];
+  /** Roles the task was delegated through before reaching this agent */
+  delegationChain?: string[];
+  maxDelegationDepth?: number;
+  delegation?: DelegationResult;
+  logger: Logger;
+  trace: TraceContext;
+  usageTracker?: UsageTracker;
+  /** Id of the task being executed, if any */
+  taskId?: string;
+  approvalHandler?: ApprovalHandler;
+  /** Approval policies per tool name that override the agent's own */
+  toolApproval?: Record<string, ApprovalPolicy>;
+  cache?: ResponseCache;
+  /** Blackboard shared by the agents of the Bat running the task */
+  blackboard?: Blackboard;
+  /** Ids of the tasks whose outputs the task input already contains */
+  inputTaskIds?: string[];
+  /** Id of the conversation session whose memory the agent uses */
+  sessionId?: string;
+}
+
+/**
+ * Options for a single agent execution
+ */
+export interface AgentExecuteOptions {
+  onEvent?: ExecutionEventListener;
+  signal?: AbortSignal;
+  rateLimiters?: RateLimiter[];
+  delegationChain?: string[];
+  maxDelegationDepth?: number;
+  logger?: Logger;
+  /** Parent span and tracer of the operation running the agent */
+  trace?: TraceContext;
+  /** Records the usage and cost of each model call */
+  usageTracker?: UsageTracker;
+  /** Id of the task being executed, included in approval requests */
+  taskId?: string;
+  /** Decides on tool calls that need approval (default: the agent's handler) */
+  approvalHandler?: ApprovalHandler;
+  /** Approval policies per tool name that override the agent's own */
+  toolApproval?: Record<string, ApprovalPolicy>;
+  /** Cache of model responses and tool results (default: the agent's cache) */
+  cache?: ResponseCache;
+  /** Blackboard shared with other agents, whose relevant entries are included in prompts */
+  blackboard?: Blackboard;
+  /** Ids of the tasks whose outputs the task input already contains */
+  inputTaskIds?: string[];
+  /**
+   * Id of the conversation session, e.g. of an end user, whose memory the
+   * agent uses (default: the memory given as the memory option)
+   */
+  sessionId?: string;
 }
 
+/**
+ * Tool execute method that optionally accepts an abort signal.
+ * Tools that ignore the signal are still stopped from being awaited.
+ */
+type AbortableToolExecute = (
+  input: unknown,
+  signal?: AbortSignal
+) => ReturnType<BatTool["execute"]>;
+
+/**
+ * Detailed result of an agent execution
+ */
+export interface AgentExecutionResult {
+  output: string;
+  toolCalls: AgentStep[];
+  tokenUsage: TokenUsage;
+  delegation?: DelegationResult;
+}
+
+/**
+ * Next action chosen by the agent while reasoning about a task
+ */
+type AgentAction =
+  | { type: "tool"; tool: BatTool; input: unknown }
+  | { type: "finish"; answer: string }
+  /** Call of an unknown tool, observed as an error the model can recover from */
+  | { type: "invalid"; step: AgentStep };
+
 /**
  * Interface for agent configuration
  */
@@ -41,18 +228,125 @@ export interface AgentConfig {
   goal: string;
   backstory: string;
   model: BaseChatModel;
+  /** Memory of executions without a session id */
   memory?: AgentMemory;
+  /**
+   * Creates the memory of each session id the agent is executed with,
+   * keeping the conversations of different sessions apart
+   */
+  sessionMemory?: SessionMemoryFactory;
+  /**
+   * Maximum number of sessions whose memory the agent holds; beyond it the
+   * least recently used session is released (default: no limit)
+   */
+  maxSessions?: number;
   tools?: BatTool[];
   capabilities?: string[];
+  maxSteps?: number;
+  /** Maximum number of hops a task may be delegated from this agent */
+  maxDelegationDepth?: number;
+  /** Logger used outside a Bat (default: the process-wide logger) */
+  logger?: Logger;
+  /** OpenTelemetry tracer used outside a Bat (default: the global provider) */
+  tracer?: Tracer;
+  /**
+   * Approval policies per tool name (default: "destructive", i.e. only
+   * tools flagged as destructive need approval)
+   */
+  toolApproval?: Record<string, ApprovalPolicy>;
+  /** Names of tools flagged as destructive, e.g. tools writing to external systems */
+  destructiveTools?: string[];
+  /** Decides on tool calls that need approval, when not given by the Bat */
+  approvalHandler?: ApprovalHandler;
+  /** Cache of model responses and tool results, when not given by the Bat */
+  cache?: ResponseCache;
+  /**
+   * Gives the agent tools to read and write the blackboard of the Bat
+   * running it (default: false)
+   */
+  blackboardTools?: boolean;
+  /** How prompts are fitted in the context window of the model */
+  contextBudget?: ContextBudgetOptions;
 }
 
+/**
+ * Default maximum number of tool calls per task
+ */
+const DEFAULT_MAX_STEPS = 5;
+
+/**
+ * Number of times the model is asked to fix an invalid JSON response
+ */
+const MAX_REPAIR_ATTEMPTS = 1;
+
+/**
+ * Default maximum number of delegation hops
+ */
+const DEFAULT_MAX_DELEGATION_DEPTH = 3;
+
+/**
+ * Maximum length of a blackboard entry value included in a prompt
+ */
+const MAX_BLACKBOARD_VALUE_LENGTH = 1000;
+
+/**
+ * Session id of the memory given as the memory option
+ */
+const DEFAULT_SESSION_ID = "default-session";
+
+/**
+ * Tool offered to models with native tool calling to delegate a task
+ */
+const DELEGATION_TOOL: ToolDefinition = {
+  type: "function",
+  function: {
+    name: "delegate_task",
+    description: "Delegate the task to a more suitable agent",
+    parameters: {
+      type: "object",
+      properties: {
+        reason: {
+          type: "string",
+          description: "Explanation of why delegation is needed",
+        },
+        targetAgentRole: {
+          type: "string",
+          description: "Role of the agent to delegate to",
+        },
+        context: {
+          type: "string",
+          description: "Information the agent needs to do the task",
+        },
+        expectations: {
+          type: "string",
+          description: "What the agent is expected to deliver",
+        },
+      },
+      required: ["reason", "targetAgentRole"],
+    },
+  },
+};
+
 /**
  * Represents an intelligent agent with specific role, goal, and capabilities
  */
 export class Agent {
   private readonly tools: BatTool[];
-  private readonly memory?: AgentMemory;
+  private readonly sessionMemory?: SessionMemoryFactory;
+  /** Memories by session id, least recently used first */
+  private readonly memories = new Map<string, AgentMemory>();
+  private readonly maxSessions?: number;
   private readonly model: BaseChatModel;
+  private readonly maxSteps: number;
+  private readonly maxDelegationDepth: number;
+  private readonly logger: Logger;
+  private readonly tracer: Tracer;
+  private readonly toolApproval: Record<string, ApprovalPolicy>;
+  private readonly destructiveTools: string[];
+  private readonly approvalHandler?: ApprovalHandler;
+  private readonly cache?: ResponseCache;
+  private readonly blackboardTools: boolean;
+  private readonly contextBudget: ContextBudget;
   public readonly role: string;
   public readonly goal: string;
   public readonly backstory: string;
@@ -63,9 +357,328 @@ export class Agent {
     this.goal = config.goal;
     this.backstory = config.backstory;
     this.model = config.model;
-    this.memory = config.memory;
+    if (config.memory) {
+      this.memories.set(DEFAULT_SESSION_ID, config.memory);
+    }
+    this.sessionMemory = config.sessionMemory;
+    if (config.maxSessions !== undefined && config.maxSessions < 1) {
+      throw new Error("maxSessions must be at least 1");
+    }
+    this.maxSessions = config.maxSessions;
     this.tools = config.tools || [];
     this.capabilities = config.capabilities || [];
+    this.maxSteps = config.maxSteps ?? DEFAULT_MAX_STEPS;
+    this.maxDelegationDepth =
+      config.maxDelegationDepth ?? DEFAULT_MAX_DELEGATION_DEPTH;
+    this.logger = config.logger ?? Logger.getInstance();
+    this.tracer = getTracer(config.tracer);
+    this.toolApproval = config.toolApproval ?? {};
+    this.destructiveTools = config.destructiveTools ?? [];
+    this.approvalHandler = config.approvalHandler;
+    this.cache = config.cache;
+    this.blackboardTools = config.blackboardTools ?? false;
+    this.contextBudget = new ContextBudget(
+      getModelName(config.model),
+      config.contextBudget,
+      (config.model as BaseChatModel & { maxTokens?: number }).maxTokens,
+      this.logger
+    );
+  }
+
+  /**
+   * Gets the name of the model used by this agent
+   */
+  public getModelName(): string {
+    return getModelName(this.model);
+  }
+
+  /**
+   * Gets the approval handler configured for this agent
+   */
+  public getApprovalHandler(): ApprovalHandler | undefined {
+    return this.approvalHandler;
+  }
+
+  /**
+   * Gets the memory of a session, creating it with the sessionMemory
+   * option the first time
+   * @param sessionId Id of the session (default: the memory option's)
+   * @returns The memory, or undefined if the agent has no memory
+   * @throws NonRetryableError if a session id is given to an agent with
+   * the memory option but no sessionMemory option, whose sessions cannot
+   * be kept apart
+   */
+  private getMemory(
+    sessionId: string = DEFAULT_SESSION_ID
+  ): AgentMemory | undefined {
+    let memory = this.memories.get(sessionId);
+    if (memory && sessionId !== DEFAULT_SESSION_ID) {
+      this.memories.delete(sessionId);
+      this.memories.set(sessionId, memory);
+    } else if (!memory && this.sessionMemory) {
+      memory = this.sessionMemory(sessionId);
+      this.memories.set(sessionId, memory);
+      this.releaseLeastRecentSessions();
+    } else if (!memory && this.memories.has(DEFAULT_SESSION_ID)) {
+      throw new NonRetryableError(
+        `Agent "${this.role}" needs the sessionMemory option to keep the memory of session "${sessionId}"`
+      );
+    }
+    return memory;
+  }
+
+  /**
+   * Releases the least recently used sessions beyond the maxSessions option
+   */
+  private releaseLeastRecentSessions(): void {
+    if (this.maxSessions === undefined) {
+      return;
+    }
+    const sessionIds = this.getSessionIds().filter(
+      (sessionId) => sessionId !== DEFAULT_SESSION_ID
+    );
+    for (const sessionId of sessionIds.slice(
+      0,
+      sessionIds.length - this.maxSessions
+    )) {
+      this.releaseSession(sessionId).catch((error) =>
+        this.logger.warn(
+          `Failed to release the memory of session "${sessionId}": ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          { agentRole: this.role, payload: error }
+        )
+      );
+    }
+  }
+
+  /**
+   * Releases the memory of a session: the agent stops holding it and closes
+   * its database client. Stored messages are kept, and the session continues
+   * from them when it is used again; sessions kept only in process memory
+   * start over. The memory option's session is never released.
+   * @param sessionId Id of the session
+   */
+  public async releaseSession(sessionId: string): Promise<void> {
+    const memory = this.memories.get(sessionId);
+    if (!memory || sessionId === DEFAULT_SESSION_ID) {
+      return;
+    }
+    this.memories.delete(sessionId);
+    await MemoryFactory.close(memory);
+  }
+
+  /**
+   * Gets the memory of a session for inspecting or changing its contents
+   * @param sessionId Id of the session
+   * @returns The memory
+   * @throws Error if the agent has no memory
+   */
+  private requireMemory(sessionId?: string): AgentMemory {
+    const memory = this.getMemory(sessionId);
+    if (!memory) {
+      throw new Error(`Agent "${this.role}" has no memory`);
+    }
+    return memory;
+  }
+
+  /**
+   * Lists the sessions whose memory this agent holds: the default session
+   * when the memory option is given, and every session used or imported
+   * since the agent was created that has not been released
+   * @returns The session ids
+   */
+  public getSessionIds(): string[] {
+    return [...this.memories.keys()];
+  }
+
+  /**
+   * Gets the messages the agent remembers from a session
+   * @param sessionId Id of the session (default: the memory option's)
+   * @returns Promise with the messages, oldest first
+   * @throws Error if the agent has no memory or it keeps no chat history
+   */
+  public async getMemoryMessages(sessionId?: string): Promise<BaseMessage[]> {
+    return getMemoryMessages(this.requireMemory(sessionId));
+  }
+
+  /**
+   * Makes the agent forget a session. Sessions created with the
+   * sessionMemory option are also released, closing their database client.
+   * @param sessionId Id of the session (default: the memory option's)
+   * @throws Error if the agent has no memory or it keeps no chat history
+   */
+  public async clearMemory(sessionId?: string): Promise<void> {
+    await clearMemory(this.requireMemory(sessionId));
+    if (sessionId !== undefined) {
+      await this.releaseSession(sessionId);
+    }
+  }
+
+  /**
+   * Exports what the agent remembers in a portable JSON format
+   * @param sessionIds Sessions to export (default: every session the
+   * agent holds)
+   * @returns Promise with the export
+   * @throws Error if a memory keeps no chat history
+   */
+  public async exportMemory(sessionIds?: string[]): Promise<MemoryExport> {
+    const sessions = [];
+    for (const sessionId of sessionIds ?? this.getSessionIds()) {
+      const messages = await this.getMemoryMessages(sessionId);
+      sessions.push({
+        sessionId,
+        messages: mapChatMessagesToStoredMessages(messages),
+      });
+    }
+    return {
+      version: 1,
+      agentRole: this.role,
+      exportedAt: new Date().toISOString(),
+      sessions,
+    };
+  }
+
+  /**
+   * Imports memories exported with exportMemory, e.g. from another agent
+   * or process. Each imported session replaces what the agent remembered
+   * from it.
+   * @param data The export, possibly just parsed from JSON
+   * @throws Error if the export is invalid or a memory keeps no chat history
+   */
+  public async importMemory(data: MemoryExport): Promise<void> {
+    for (const session of validateMemoryExport(data).sessions) {
+      await replaceMemoryMessages(
+        this.requireMemory(session.sessionId),
+        mapStoredMessagesToChatMessages(session.messages)
+      );
+    }
+  }
+
+  /**
+   * Closes the database clients of the memories of every session, so they
+   * do not keep the process running. Memories connect again if the agent
+   * is used afterwards.
+   */
+  public async disconnectMemory(): Promise<void> {
+    for (const memory of this.memories.values()) {
+      await MemoryFactory.close(memory);
+    }
+  }
+
+  /**
+   * Checks whether a tool is flagged as destructive, either in the agent
+   * configuration or with a destructive flag in its schema
+   * @param tool The tool
+   */
+  public isDestructiveTool(tool: BatTool): boolean {
+    return (
+      this.destructiveTools.includes(tool.schema.name) ||
+      (tool.schema as { destructive?: boolean }).destructive === true
+    );
+  }
+
+  /**
+   * Asks for approval of a tool call when its policy requires it
+   * @param tool Tool the model selected
+   * @param input Proposed tool input
+   * @param context Context of the current execution
+   * @returns Promise with the input to call the tool with
+   * @throws ApprovalRejectedError if the call is rejected
+   */
+  private async approveToolCall(
+    tool: BatTool,
+    input: unknown,
+    context: ExecutionContext
+  ): Promise<unknown> {
+    const name = tool.schema.name;
+    const policy =
+      context.toolApproval?.[name] ?? this.toolApproval[name] ?? "destructive";
+    const destructive = this.isDestructiveTool(tool);
+    if (!requiresApproval(policy, destructive)) {
+      return input;
+    }
+
+    context.logger.logAgentAction(this.role, `Waiting for approval of ${name}`);
+    return requestApproval(
+      context.approvalHandler,
+      {
+        kind: "tool",
+        id: randomUUID(),
+        agentRole: this.role,
+        taskId: context.taskId,
+        destructive,
+        tool: name,
+        input,
+      },
+      input,
+      context.emit,
+      context.signal
+    );
+  }
+
+  /**
+   * Calls a tool, reusing its cached result for the same input when the
+   * tool is cacheable. Destructive tools are never cached.
+   * @param tool Tool to call
+   * @param input Tool input
+   * @param context Context of the current execution
+   * @param span Span of the tool call
+   * @returns Promise with the tool's output
+   */
+  private async callTool(
+    tool: BatTool,
+    input: unknown,
+    context: ExecutionContext,
+    span: Span
+  ): Promise<unknown> {
+    const cache = this.isDestructiveTool(tool) ? undefined : context.cache;
+    const cached = await this.tryCache(
+      context,
+      "read cached tool result",
+      () => cache?.getToolResult(tool, input)
+    );
+    if (cache?.isToolCacheable(tool)) {
+      span.setAttribute("bat.cache.hit", cached !== undefined);
+    }
+    if (cached) {
+      context.logger.debug(`Using cached result of ${tool.schema.name}`, {
+        agentRole: this.role,
+      });
+      return cached.result;
+    }
+
+    const result = await this.runTool(tool, input, context.signal);
+    await this.tryCache(context, "cache tool result", () =>
+      cache?.setToolResult(tool, input, result)
+    );
+    return result;
+  }
+
+  /**
+   * Runs a cache read or write, logging a failure instead of throwing it so
+   * an unavailable cache only costs a cache miss
+   * @param context Context of the current execution
+   * @param action What the operation does, for the warning
+   * @param operation The cache operation
+   * @returns Promise with the result of the operation, or undefined if it failed
+   */
+  private async tryCache<T>(
+    context: ExecutionContext,
+    action: string,
+    operation: () => Promise<T> | undefined
+  ): Promise<T | undefined> {
+    try {
+      return await operation();
+    } catch (error) {
+      context.logger.warn(
+        `Failed to ${action}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        { agentRole: this.role, payload: error }
+      );
+      return undefined;
+    }
   }
 
   /**
@@ -75,19 +688,58 @@ export class Agent {
     return this.tools;
   }
 
+  /**
+   * Gets the tools the agent can use in an execution, which include the
+   * blackboard tools when enabled and a blackboard is available
+   * @param context Context of the current execution
+   */
+  private getTools(context: ExecutionContext): BatTool[] {
+    if (!this.blackboardTools || !context.blackboard) {
+      return this.tools;
+    }
+    return [
+      ...this.tools,
+      ...createBlackboardTools(context.blackboard, this.role, context.taskId),
+    ];
+  }
+
   /**
    * Uses a tool to perform a specific action
    * @param toolName Name of the tool to use
    * @param input Input parameters for the tool
+   * @param signal Optional signal to cancel the tool execution
    * @returns Promise with the tool's output
+   * @throws ToolInputValidationError if the input does not match the tool schema
    */
-  public async useTool(toolName: string, input: any): Promise<any> {
+  public async useTool(
+    toolName: string,
+    input: any,
+    signal?: AbortSignal
+  ): Promise<any> {
     const tool = this.tools.find((t) => t.schema.name === toolName);
     if (!tool) {
-      throw new Error(`Tool ${toolName} not found`);
+      throw new NonRetryableError(`Tool ${toolName} not found`);
     }
+    return this.runTool(tool, input, signal);
+  }
 
-    const result = await tool.execute(input);
+  /**
+   * Validates the input of a tool and executes it
+   * @param tool Tool to execute
+   * @param input Input parameters for the tool
+   * @param signal Optional signal to cancel the tool execution
+   * @returns Promise with the tool's output
+   * @throws ToolInputValidationError if the input does not match the tool schema
+   */
+  private async runTool(
+    tool: BatTool,
+    input: unknown,
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    const validInput = ToolInputValidator.validate(tool, input);
+    throwIfAborted(signal);
+    const execute = tool.execute.bind(tool) as AbortableToolExecute;
+    const result = await abortable(execute(validInput, signal), signal);
     if (!result.success) {
       throw new Error(`Tool execution failed: ${result.error}`);
     }
@@ -96,74 +748,690 @@ export class Agent {
   }
 
   /**
-   * Determines which tool to use for a given task
+   * Creates an empty execution context
+   * @param options Execution options
+   */
+  private createExecutionContext(
+    options: AgentExecuteOptions = {}
+  ): ExecutionContext {
+    return {
+      toolCalls: [],
+      tokenUsage: emptyTokenUsage(),
+      emit: options.onEvent ?? (() => undefined),
+      signal: options.signal,
+      rateLimiters: options.rateLimiters ?? [],
+      delegationChain: options.delegationChain,
+      maxDelegationDepth: options.maxDelegationDepth,
+      logger: options.logger ?? this.logger,
+      trace: options.trace ?? { tracer: this.tracer },
+      usageTracker: options.usageTracker,
+      taskId: options.taskId,
+      approvalHandler: options.approvalHandler ?? this.approvalHandler,
+      toolApproval: options.toolApproval,
+      cache: options.cache ?? this.cache,
+      blackboard: options.blackboard,
+      inputTaskIds: options.inputTaskIds,
+      sessionId: options.sessionId,
+    };
+  }
+
+  /**
+   * Emits an execution event
+   * @param context Context of the current execution
+   * @param data Event contents
+   */
+  private emitEvent(context: ExecutionContext, data: ExecutionEventData): void {
+    context.emit(createEvent(data));
+  }
+
+  /**
+   * Invokes the model and records the tokens it used
+   * @param prompt Prompt to send
+   * @param context Context of the current execution
+   * @param tools Tools to bind for native tool calling
+   * @param stream Whether to stream the response, emitting token events
+   * @returns Promise with the model response
+   */
+  private async invokeModel(
+    prompt: string,
+    context: ExecutionContext,
+    tools?: ToolDefinition[],
+    stream: boolean = false
+  ): Promise<BaseMessage> {
+    const attributes = {
+      "bat.agent.role": this.role,
+      "gen_ai.request.model": this.getModelName(),
+      "bat.llm.streaming": stream,
+      "bat.llm.tools": (tools ?? []).map((tool) => tool.function.name),
+    };
+
+    return withSpan(context.trace, "bat.llm.call", attributes, async (span) => {
+      const cached = await this.tryCache(
+        context,
+        "read cached model response",
+        () => context.cache?.getModelResponse(this.model, prompt, tools)
+      );
+      if (context.cache) {
+        span.setAttribute("bat.cache.hit", cached !== undefined);
+      }
+      if (cached) {
+        // Cached responses cost nothing and do not count toward rate limits
+        if (stream && cached.content.toString()) {
+          this.emitEvent(context, {
+            type: "llm_token",
+            agentRole: this.role,
+            token: cached.content.toString(),
+          });
+        }
+        return cached;
+      }
+
+      const estimatedTokens = estimateTokens(prompt);
+      await this.acquireRateLimits(estimatedTokens, context);
+      const callOptions = { signal: context.signal };
+
+      let response: BaseMessage;
+      if (tools) {
+        response = await this.model
+          .bindTools!(tools)
+          .invoke(prompt, callOptions);
+      } else if (stream) {
+        response = await this.streamModel(prompt, context);
+      } else {
+        response = await this.model.invoke(prompt, callOptions);
+      }
+      const usage = getTokenUsage(response);
+      addTokenUsage(context.tokenUsage, usage);
+      const record = context.usageTracker?.record(
+        this.getModelName(),
+        this.role,
+        usage
+      );
+      span.setAttributes({
+        "gen_ai.usage.input_tokens": usage.promptTokens,
+        "gen_ai.usage.output_tokens": usage.completionTokens,
+        "bat.llm.cost": record?.cost ?? 0,
+      });
+      if (usage.totalTokens > 0) {
+        for (const limiter of context.rateLimiters) {
+          limiter.record(estimatedTokens, usage.totalTokens);
+        }
+      }
+      await this.tryCache(context, "cache model response", () =>
+        context.cache?.setModelResponse(this.model, prompt, tools, response)
+      );
+      return response;
+    });
+  }
+
+  /**
+   * Waits until every rate limiter of the execution allows a request. If
+   * waiting for one fails or the execution is aborted, what the others
+   * took is given back, since the request is not sent.
+   * @param estimatedTokens Estimated tokens the request will use
+   * @param context Context of the current execution
+   */
+  private async acquireRateLimits(
+    estimatedTokens: number,
+    context: ExecutionContext
+  ): Promise<void> {
+    const acquired: RateLimiter[] = [];
+    try {
+      for (const limiter of context.rateLimiters) {
+        await limiter.acquire(estimatedTokens, context.signal);
+        acquired.push(limiter);
+      }
+      throwIfAborted(context.signal);
+    } catch (error) {
+      acquired.forEach((limiter) => limiter.release(estimatedTokens));
+      throw error;
+    }
+  }
+
+  /**
+   * Streams a model response, emitting an event for every token chunk
+   * @param prompt Prompt to send
+   * @param context Context of the current execution
+   * @returns Promise with the complete response
+   */
+  private async streamModel(
+    prompt: string,
+    context: ExecutionContext
+  ): Promise<BaseMessage> {
+    let response: BaseMessageChunk | undefined;
+    const chunks = await this.model.stream(prompt, { signal: context.signal });
+    for await (const chunk of chunks) {
+      response = response ? response.concat(chunk) : chunk;
+      const token = chunk.content.toString();
+      if (token) {
+        this.emitEvent(context, {
+          type: "llm_token",
+          agentRole: this.role,
+          token,
+        });
+      }
+    }
+    if (!response) {
+      throw new Error("Model returned an empty stream");
+    }
+    return response;
+  }
+
+  /**
+   * Checks whether the model supports native tool calling
+   */
+  private supportsToolCalling(): boolean {
+    return typeof this.model.bindTools === "function";
+  }
+
+  /**
+   * Gets the native tool calls contained in a model response
+   * @param message Model response
+   * @returns The tool calls, if any
+   */
+  private getToolCalls(message: BaseMessage): ToolCall[] {
+    return isAIMessage(message) ? message.tool_calls ?? [] : [];
+  }
+
+  /**
+   * Parses a JSON object from a model response
+   * @param responseText Raw model response
+   * @returns The parsed object
+   * @throws Error if the response is not a JSON object
+   */
+  private parseJsonResponse(responseText: string): Record<string, unknown> {
+    // Remove any markdown code block indicators if present
+    const cleanResponse = responseText
+      .replace(/```json\n?|\n?```/g, "")
+      .trim();
+    const value: unknown = JSON.parse(cleanResponse);
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new Error("Response must be a JSON object");
+    }
+    return value as Record<string, unknown>;
+  }
+
+  /**
+   * Invokes the model expecting a JSON response, asking it to repair
+   * responses that cannot be parsed or fail validation
+   * @param prompt Prompt describing the expected JSON format
+   * @param validate Converts the parsed JSON, throwing if it is invalid
+   * @param context Context of the current execution
+   * @returns Promise with the validated value, or null if no valid response was given
+   */
+  public async invokeForJson<T>(
+    prompt: string,
+    validate: (value: Record<string, unknown>) => T,
+    context: ExecutionContext = this.createExecutionContext()
+  ): Promise<T | null> {
+    let currentPrompt = prompt;
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const response = await this.invokeModel(currentPrompt, context);
+      const responseText = response.content.toString().trim();
+
+      try {
+        return validate(this.parseJsonResponse(responseText));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        context.logger.warn(
+          `Invalid JSON response from model: ${errorMessage}`,
+          { agentRole: this.role, payload: { response: responseText } }
+        );
+        currentPrompt = `
+      ${prompt}
+
+      Your previous response was invalid: ${errorMessage}
+      Previous response: ${responseText}
+      Respond again with only a valid JSON object in the requested format.
+    `;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Formats the tool calls made so far for inclusion in a prompt
+   * @param steps Previous tool calls and their observations
+   * @param maxObservationTokens Tokens each observation may take
+   * @returns Formatted scratchpad
+   */
+  private formatSteps(
+    steps: AgentStep[],
+    maxObservationTokens: number = Infinity
+  ): string {
+    return steps
+      .map(
+        (step, index) =>
+          `Step ${index + 1}: called ${step.tool} with ${JSON.stringify(
+            step.input
+          )}
+      Observation: ${this.contextBudget.truncate(
+        step.observation,
+        maxObservationTokens
+      )}`
+      )
+      .join("\n");
+  }
+
+  /**
+   * Formats the tools of the agent for inclusion in a prompt. When their
+   * descriptions take more than the tool budget, each tool is shortened to
+   * its name, description and parameter names.
+   * @param tools The tools
+   * @returns Formatted tool list
+   */
+  private formatTools(tools: BatTool[]): string {
+    const budget = this.contextBudget;
+    const formatted = tools
+      .map(
+        (tool) =>
+          `- ${tool.schema.name}: ${tool.schema.description}
+         Parameters: ${JSON.stringify(tool.schema.parameters)}`
+      )
+      .join("\n");
+    if (budget.count(formatted) <= budget.toolTokens) {
+      return formatted;
+    }
+
+    const toolTokens = Math.floor(budget.toolTokens / tools.length);
+    return tools
+      .map((tool) =>
+        budget.truncate(
+          `- ${tool.schema.name}: ${tool.schema.description}
+         Parameters: ${Object.keys(
+           getToolParametersSchema(tool).properties
+         ).join(", ")}`,
+          toolTokens
+        )
+      )
+      .join("\n");
+  }
+
+  /**
+   * Builds a prompt that fits in the context budget, shortening the
+   * observations of tool calls and then the task description when needed
    * @param taskDescription Description of the task
-   * @returns Promise with the selected tool and input parameters
+   * @param steps Tool calls whose observations the prompt includes
+   * @param build Builds the prompt from the task and the formatted steps
+   * @returns The prompt
    */
-  private async selectTool(
-    taskDescription: string
-  ): Promise<{ tool: BatTool; input: any } | null> {
-    const prompt = `
+  private fitPrompt(
+    taskDescription: string,
+    steps: AgentStep[],
+    build: (task: string, formattedSteps: string) => string
+  ): string {
+    const budget = this.contextBudget;
+    let formattedSteps = this.formatSteps(steps);
+    let prompt = build(taskDescription, formattedSteps);
+    let excess = budget.count(prompt) - budget.promptTokens;
+
+    let observationTokens = steps.reduce(
+      (sum, step) => sum + budget.count(step.observation),
+      0
+    );
+    // Shortened observations carry a marker, so shortening may take
+    // another round to get under the budget
+    for (
+      let round = 0;
+      round < 3 && excess > 0 && observationTokens > 0;
+      round++
+    ) {
+      observationTokens = Math.max(observationTokens - excess, 0);
+      formattedSteps = this.formatSteps(
+        steps,
+        Math.floor(observationTokens / steps.length)
+      );
+      prompt = build(taskDescription, formattedSteps);
+      excess = budget.count(prompt) - budget.promptTokens;
+    }
+    if (excess > 0) {
+      prompt = build(
+        budget.truncate(
+          taskDescription,
+          budget.count(taskDescription) - excess
+        ),
+        formattedSteps
+      );
+    }
+    return prompt;
+  }
+
+  /**
+   * Builds the prompt used to choose the next action for a task
+   * @param taskDescription Description of the task
+   * @param steps Tool calls made so far and their observations
+   * @param instructions How the model should express its decision
+   * @param context Context of the current execution
+   * @returns Formatted prompt string
+   */
+  private buildActionPrompt(
+    taskDescription: string,
+    steps: AgentStep[],
+    instructions: string,
+    context: ExecutionContext
+  ): string {
+    const tools = this.formatTools(this.getTools(context));
+    const blackboard = this.formatBlackboard(taskDescription, context);
+    return this.fitPrompt(
+      taskDescription,
+      steps,
+      (task, formattedSteps) => `
       You are a ${this.role}.
       Your goal is: ${this.goal}
       Your backstory: ${this.backstory}
       
       Available tools:
-      ${this.tools
-        .map(
-          (tool) =>
-            `- ${tool.schema.name}: ${tool.schema.description}
-         Parameters: ${JSON.stringify(tool.schema.parameters)}`
-        )
-        .join("\n")}
+      ${tools}
+      ${blackboard}
+      Task: ${task}
+      ${
+        steps.length > 0
+          ? `
+      Previous steps:
+      ${formattedSteps}
+      `
+          : ""
+      }
+      Either call a tool to make progress on the task or, if no tool is needed
+      or you have gathered enough information, give your final answer.
+      ${instructions}
+    `
+    );
+  }
+
+  /**
+   * Validates an action chosen through the JSON response format
+   * @param value Parsed model response
+   * @param tools Tools the agent can use
+   * @returns The corresponding action
+   */
+  private toAgentAction(
+    value: Record<string, unknown>,
+    tools: BatTool[]
+  ): AgentAction {
+    if (typeof value.finalAnswer === "string") {
+      return { type: "finish", answer: value.finalAnswer };
+    }
+    if (typeof value.tool !== "string") {
+      throw new Error('Response must contain either "tool" or "finalAnswer"');
+    }
+
+    const tool = tools.find((t) => t.schema.name === value.tool);
+    if (!tool) {
+      throw new Error(
+        `Unknown tool "${value.tool}". Available tools: ${tools
+          .map((t) => t.schema.name)
+          .join(", ")}`
+      );
+    }
+
+    const input = value.input ?? {};
+    if (typeof input !== "object" || Array.isArray(input)) {
+      throw new Error('"input" must be a JSON object');
+    }
+
+    return { type: "tool", tool, input };
+  }
+
+  /**
+   * Determines the next action to take for a given task
+   * @param taskDescription Description of the task
+   * @param steps Tool calls made so far and their observations
+   * @param context Context of the current execution
+   * @returns Promise with the next action, or null if the response is unusable
+   */
+  private async decideNextAction(
+    taskDescription: string,
+    steps: AgentStep[],
+    context: ExecutionContext
+  ): Promise<AgentAction | null> {
+    if (this.supportsToolCalling()) {
+      return this.decideNextActionWithToolCalling(
+        taskDescription,
+        steps,
+        context
+      );
+    }
+
+    const prompt = this.buildActionPrompt(
+      taskDescription,
+      steps,
+      `Respond with a valid JSON object in one of these exact formats (no markdown, no code blocks):
+      {
+        "tool": "tool_name",
+        "input": {
+          "param1": "value1",
+          "param2": "value2"
+        }
+      }
+      or
+      {
+        "finalAnswer": "your complete answer to the task"
+      }`,
+      context
+    );
+
+    const tools = this.getTools(context);
+    return this.invokeForJson(
+      prompt,
+      (value) => this.toAgentAction(value, tools),
+      context
+    );
+  }
+
+  /**
+   * Determines the next action using the model's native tool calling
+   * @param taskDescription Description of the task
+   * @param steps Tool calls made so far and their observations
+   * @param context Context of the current execution
+   * @returns Promise with the next action, or null if the response is unusable
+   */
+  private async decideNextActionWithToolCalling(
+    taskDescription: string,
+    steps: AgentStep[],
+    context: ExecutionContext
+  ): Promise<AgentAction | null> {
+    const prompt = this.buildActionPrompt(
+      taskDescription,
+      steps,
+      "Call one of the tools, or reply with your final answer as plain text.",
+      context
+    );
+
+    const tools = this.getTools(context);
+    const response = await this.invokeModel(
+      prompt,
+      context,
+      tools.map(toToolDefinition)
+    );
+    const [toolCall] = this.getToolCalls(response);
+
+    if (!toolCall) {
+      return { type: "finish", answer: response.content.toString() };
+    }
+
+    const tool = tools.find((t) => t.schema.name === toolCall.name);
+    if (!tool) {
+      context.logger.warn(`Model called an unknown tool: ${toolCall.name}`, {
+        agentRole: this.role,
+      });
+      return {
+        type: "invalid",
+        step: {
+          tool: toolCall.name,
+          input: toolCall.args,
+          observation: `Error: Unknown tool "${
+            toolCall.name
+          }". Available tools: ${tools
+            .map((t) => t.schema.name)
+            .join(", ")}. Call one of these tools or give your final answer.`,
+        },
+      };
+    }
+
+    return { type: "tool", tool, input: toolCall.args };
+  }
+
+  /**
+   * Asks the model for a final answer based on the observations gathered
+   * @param taskDescription Description of the task
+   * @param steps Tool calls made and their observations
+   * @param context Context of the current execution
+   * @returns Promise with the final answer
+   */
+  private async summarizeSteps(
+    taskDescription: string,
+    steps: AgentStep[],
+    context: ExecutionContext
+  ): Promise<string> {
+    const prompt = this.fitPrompt(
+      taskDescription,
+      steps,
+      (task, formattedSteps) => `
+      ${this.formatPrompt(task, context)}
       
-      Task: ${taskDescription}
+      You already used your tools with these results:
+      ${formattedSteps}
       
-      Select the most appropriate tool and provide input parameters.
-      Respond with a valid JSON object in this exact format (no markdown, no code blocks):
-      {
-        "tool": "tool_name",
-        "input": {
-          "param1": "value1",
-          "param2": "value2"
-        }
-      }
-    `;
+      Do not call any more tools. Use these results to write your final answer.
+    `
+    );
 
-    const response = await this.model.invoke(prompt);
-    const responseText = response.content.toString().trim();
+    const response = await this.invokeModel(prompt, context, undefined, true);
+    return response.content.toString();
+  }
 
-    try {
-      // Remove any markdown code block indicators if present
-      const cleanResponse = responseText
-        .replace(/```json\n?|\n?```/g, "")
-        .trim();
-      const result = JSON.parse(cleanResponse);
-
-      const selectedTool = this.tools.find(
-        (t) => t.schema.name === result.tool
-      );
-      if (!selectedTool) {
-        return null;
-      }
+  /**
+   * Reasons about the task in a loop, calling tools and observing their
+   * results until the model gives a final answer or the step limit is reached
+   * @param taskDescription Description of the task
+   * @param context Context of the current execution
+   * @returns Promise with the final answer, or null if the model gave no
+   * usable response before calling a tool
+   */
+  private async runToolLoop(
+    taskDescription: string,
+    context: ExecutionContext
+  ): Promise<string | null> {
+    const logger = context.logger;
+    const steps: AgentStep[] = [];
+    let validationError: ToolInputValidationError | null = null;
+    let invalidInputs = 0;
 
-      return {
-        tool: selectedTool,
-        input: result.input,
+    while (steps.length < this.maxSteps) {
+      const stepSpan = startSpan(context.trace, "bat.agent.step", {
+        "bat.agent.role": this.role,
+        "bat.agent.step": steps.length + 1,
+      });
+      const stepContext: ExecutionContext = {
+        ...context,
+        trace: { tracer: context.trace.tracer, span: stepSpan },
       };
-    } catch (error) {
-      console.error("Error parsing tool selection response:", error);
-      console.error("Raw response:", responseText);
+
+      try {
+        const action = await this.decideNextAction(
+          taskDescription,
+          steps,
+          stepContext
+        );
+
+        if (!action) {
+          break;
+        }
+        if (action.type === "finish") {
+          return action.answer;
+        }
+        if (action.type === "invalid") {
+          // Show the model its mistake on the next step
+          steps.push(action.step);
+          continue;
+        }
+
+        const toolName = action.tool.schema.name;
+        logger.logAgentAction(this.role, `Using tool: ${toolName}`);
+        this.emitEvent(context, {
+          type: "tool_selected",
+          agentRole: this.role,
+          tool: toolName,
+          input: action.input,
+        });
+        let input = action.input;
+        let observation: string;
+        let success = false;
+        try {
+          input = await this.approveToolCall(action.tool, input, stepContext);
+          const result = await withSpan(
+            stepContext.trace,
+            "bat.tool.call",
+            { "bat.agent.role": this.role, "bat.tool.name": toolName },
+            (span) => this.callTool(action.tool, input, context, span)
+          );
+          observation = JSON.stringify(result);
+          success = true;
+          logger.logAgentAction(
+            this.role,
+            `Tool execution completed successfully`
+          );
+        } catch (error: unknown) {
+          if (error instanceof ToolInputValidationError) {
+            // Let the model correct its input on the next step
+            validationError = error;
+            invalidInputs++;
+            observation = `Error: ${error.message}. Fix the input and call the tool again.`;
+          } else {
+            observation = `Error: ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`;
+          }
+          logger.logAgentAction(this.role, `Tool ${toolName} failed`);
+        }
+        this.emitEvent(context, {
+          type: "tool_result",
+          agentRole: this.role,
+          tool: toolName,
+          success,
+          observation,
+        });
+        const step = { tool: toolName, input, observation };
+        steps.push(step);
+        context.toolCalls.push(step);
+      } catch (error) {
+        recordSpanError(stepSpan, error);
+        throw error;
+      } finally {
+        stepSpan.end();
+      }
+    }
+
+    if (steps.length === 0) {
       return null;
     }
+
+    // The model never produced a valid input for any tool call
+    if (validationError && invalidInputs === steps.length) {
+      throw validationError;
+    }
+
+    logger.logAgentAction(
+      this.role,
+      `Writing final answer after ${steps.length} tool calls`
+    );
+    return this.summarizeSteps(taskDescription, steps, context);
   }
 
   /**
    * Checks if the agent can handle a given task
    * @param taskDescription Description of the task
+   * @param context Context of the current execution
    * @returns Promise with boolean indicating if the agent can handle the task
    */
-  public async canHandleTask(taskDescription: string): Promise<boolean> {
+  public async canHandleTask(
+    taskDescription: string,
+    context: ExecutionContext = this.createExecutionContext()
+  ): Promise<boolean> {
     const prompt = `
       You are a ${this.role}.
       Your goal is: ${this.goal}
@@ -175,7 +1443,7 @@ export class Agent {
       Can you handle this task effectively? Answer with only "yes" or "no".
     `;
 
-    const response = await this.model.invoke(prompt);
+    const response = await this.invokeModel(prompt, context);
     return response.content.toString().toLowerCase().trim() === "yes";
   }
 
@@ -183,13 +1451,15 @@ export class Agent {
    * Determines if a task should be delegated and to which agent
    * @param taskDescription Description of the task
    * @param availableAgents List of available agents
+   * @param context Context of the current execution
    * @returns Promise with TaskDelegation or null if no delegation is needed
    */
   public async shouldDelegateTask(
     taskDescription: string,
-    availableAgents: Agent[]
+    availableAgents: Agent[],
+    context: ExecutionContext = this.createExecutionContext()
   ): Promise<TaskDelegation | null> {
-    const prompt = `
+    const agentContext = `
       You are a ${this.role}.
       Your goal is: ${this.goal}
       Your backstory: ${this.backstory}
@@ -201,158 +1471,491 @@ export class Agent {
         .join("\n")}
       
       Task: ${taskDescription}
+    `;
+
+    if (this.supportsToolCalling()) {
+      const response = await this.invokeModel(
+        `
+      ${agentContext}
+      
+      Should this task be delegated to another agent? If yes, call the
+      delegate_task tool with the reason, the role of the most suitable
+      agent, the context it needs and what you expect it to deliver.
+      Otherwise, reply with "no".
+    `,
+        context,
+        [DELEGATION_TOOL]
+      );
+      const toolCall = this.getToolCalls(response).find(
+        (call) => call.name === DELEGATION_TOOL.function.name
+      );
+
+      if (!toolCall) {
+        return null;
+      }
+
+      return {
+        task: taskDescription,
+        reason: String(toolCall.args.reason ?? ""),
+        targetAgentRole: String(toolCall.args.targetAgentRole ?? ""),
+        context: toolCall.args.context && String(toolCall.args.context),
+        expectations:
+          toolCall.args.expectations && String(toolCall.args.expectations),
+      };
+    }
+
+    const prompt = `
+      ${agentContext}
       
       Should this task be delegated to another agent? If yes, provide:
       1. The reason for delegation
       2. The role of the most suitable agent
+      3. The context the agent needs to do the task
+      4. What you expect the agent to deliver
       
       Respond with a valid JSON object in this exact format (no markdown, no code blocks):
       {
         "shouldDelegate": true or false,
         "reason": "explanation of why delegation is needed",
-        "targetAgentRole": "role of the agent to delegate to"
+        "targetAgentRole": "role of the agent to delegate to",
+        "context": "information the agent needs",
+        "expectations": "what the agent is expected to deliver"
       }
     `;
 
-    const response = await this.model.invoke(prompt);
-    const responseText = response.content.toString().trim();
-
-    try {
-      // Remove any markdown code block indicators if present
-      const cleanResponse = responseText
-        .replace(/```json\n?|\n?```/g, "")
-        .trim();
-      const result = JSON.parse(cleanResponse);
-
-      if (result.shouldDelegate) {
-        return {
-          task: taskDescription,
-          reason: result.reason,
-          targetAgentRole: result.targetAgentRole,
-        };
+    return this.invokeForJson(prompt, (value): TaskDelegation | null => {
+      if (typeof value.shouldDelegate !== "boolean") {
+        throw new Error('"shouldDelegate" must be true or false');
+      }
+      if (!value.shouldDelegate) {
+        return null;
+      }
+      if (typeof value.targetAgentRole !== "string") {
+        throw new Error('"targetAgentRole" must be a string');
       }
 
-      return null;
-    } catch (error) {
-      console.error("Error parsing delegation response:", error);
-      console.error("Raw response:", responseText);
-      return null;
-    }
+      return {
+        task: taskDescription,
+        reason: String(value.reason ?? ""),
+        targetAgentRole: value.targetAgentRole,
+        context: value.context ? String(value.context) : undefined,
+        expectations: value.expectations
+          ? String(value.expectations)
+          : undefined,
+      };
+    }, context);
   }
 
   /**
    * Executes a task using the agent's capabilities and tools
    * @param taskDescription Description of the task to be executed
    * @param availableAgents List of available agents for delegation
+   * @param signal Optional signal to cancel the execution
    * @returns Promise with the task result
    */
   public async execute(
     taskDescription: string,
-    availableAgents: Agent[] = []
+    availableAgents: Agent[] = [],
+    signal?: AbortSignal
   ): Promise<string> {
-    const logger = Logger.getInstance();
+    const result = await this.executeWithDetails(
+      taskDescription,
+      availableAgents,
+      { signal }
+    );
+    return result.output;
+  }
+
+  /**
+   * Executes a task, yielding execution events as they happen
+   * @param taskDescription Description of the task to be executed
+   * @param availableAgents List of available agents for delegation
+   * @param signal Optional signal to cancel the execution
+   * @returns Async generator of events that returns the detailed result
+   */
+  public stream(
+    taskDescription: string,
+    availableAgents: Agent[] = [],
+    signal?: AbortSignal
+  ): AsyncGenerator<ExecutionEvent, AgentExecutionResult> {
+    return streamEvents((emit) =>
+      this.executeWithDetails(taskDescription, availableAgents, {
+        onEvent: emit,
+        signal,
+      })
+    );
+  }
+
+  /**
+   * Executes a task and reports the tool calls made and tokens used
+   * @param taskDescription Description of the task to be executed
+   * @param availableAgents List of available agents for delegation
+   * @param options Execution options
+   * @returns Promise with the detailed execution result
+   */
+  public async executeWithDetails(
+    taskDescription: string,
+    availableAgents: Agent[] = [],
+    options: AgentExecuteOptions = {}
+  ): Promise<AgentExecutionResult> {
+    const context = this.createExecutionContext(options);
+    const logger = context.logger;
+    const span = startSpan(context.trace, "bat.agent.execute", {
+      "bat.agent.role": this.role,
+      "gen_ai.request.model": this.getModelName(),
+      "bat.delegation.depth": (context.delegationChain?.length ?? 1) - 1,
+    });
+    context.trace = { tracer: context.trace.tracer, span };
     logger.logAgentAction(
       this.role,
       `Starting execution of task: ${taskDescription}`
     );
+    this.emitEvent(context, {
+      type: "agent_started",
+      agentRole: this.role,
+      input: taskDescription,
+    });
 
     try {
-      // First try to use a tool
-      const toolSelection = await this.selectTool(taskDescription);
-      if (toolSelection) {
-        logger.logAgentAction(
-          this.role,
-          `Using tool: ${toolSelection.tool.schema.name}`
-        );
-        const result = await this.useTool(
-          toolSelection.tool.schema.name,
-          toolSelection.input
-        );
-        logger.logAgentAction(
-          this.role,
-          `Tool execution completed successfully`
-        );
-        return JSON.stringify(result);
+      const output = await this.executeInContext(
+        taskDescription,
+        availableAgents,
+        context
+      );
+      const result: AgentExecutionResult = {
+        output,
+        toolCalls: context.toolCalls,
+        tokenUsage: context.tokenUsage,
+        delegation: context.delegation,
+      };
+      span.setAttributes({
+        "gen_ai.usage.input_tokens": result.tokenUsage.promptTokens,
+        "gen_ai.usage.output_tokens": result.tokenUsage.completionTokens,
+        "bat.agent.tool_calls": result.toolCalls.length,
+      });
+
+      logger.logAgentAction(this.role, `Task execution completed successfully`);
+      this.emitEvent(context, {
+        type: "agent_finished",
+        agentRole: this.role,
+        result,
+      });
+      return result;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      recordSpanError(span, error);
+      logger.logAgentAction(
+        this.role,
+        `Task execution failed: ${errorMessage}`
+      );
+      if (error instanceof ToolInputValidationError) {
+        throw error;
+      }
+      throw new AgentExecutionError(
+        `Agent execution failed: ${errorMessage}`,
+        error
+      );
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Solves a task with tools, delegation or a direct answer
+   * @param taskDescription Description of the task to be executed
+   * @param availableAgents List of available agents for delegation
+   * @param context Context of the current execution
+   * @returns Promise with the final answer
+   */
+  private async executeInContext(
+    taskDescription: string,
+    availableAgents: Agent[],
+    context: ExecutionContext
+  ): Promise<string> {
+    const logger = context.logger;
+    const memory = this.getMemory(context.sessionId);
+
+    // First try to solve the task with tools
+    if (this.getTools(context).length > 0) {
+      const answer = await this.runToolLoop(taskDescription, context);
+      if (answer !== null) {
+        if (memory) {
+          await memory.saveContext(
+            { input: taskDescription },
+            { output: answer }
+          );
+        }
+        return answer;
       }
+    }
 
-      // If no suitable tool is found, check for delegation
-      const canHandle = await this.canHandleTask(taskDescription);
+    // If no suitable tool is found, check for delegation
+    const canHandle = await this.canHandleTask(taskDescription, context);
+    const chain = context.delegationChain ?? [this.role];
+    const maxDepth = context.maxDelegationDepth ?? this.maxDelegationDepth;
+    // Agents already in the chain are never revisited, which prevents loops
+    const candidates = availableAgents.filter(
+      (agent) => agent !== this && !chain.includes(agent.role)
+    );
 
-      if (!canHandle && availableAgents.length > 0) {
-        logger.logAgentAction(this.role, `Checking for task delegation`);
-        const delegation = await this.shouldDelegateTask(
-          taskDescription,
-          availableAgents
-        );
+    if (!canHandle && candidates.length > 0 && chain.length <= maxDepth) {
+      logger.logAgentAction(this.role, `Checking for task delegation`);
+      const delegation = await this.shouldDelegateTask(
+        taskDescription,
+        candidates,
+        context
+      );
 
-        if (delegation) {
-          const targetAgent = availableAgents.find(
-            (agent) => agent.role === delegation.targetAgentRole
+      if (delegation) {
+        let targetAgent: Agent | undefined;
+        try {
+          targetAgent = findAgentByRole(
+            candidates,
+            delegation.targetAgentRole
+          );
+        } catch (error) {
+          // Delegating to a guess could hand the task to the wrong agent
+          logger.warn(
+            `Not delegating: ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`,
+            { agentRole: this.role }
           );
+        }
 
-          if (targetAgent) {
-            logger.logAgentAction(
-              this.role,
-              `Delegating task to agent: ${targetAgent.role}`
-            );
-            return `Task delegated to ${
-              targetAgent.role
-            }:\n${await targetAgent.execute(taskDescription)}`;
-          }
+        if (targetAgent) {
+          const delegated = await this.delegate(
+            delegation,
+            targetAgent,
+            availableAgents,
+            context
+          );
+          return this.reviewDelegation(delegated, context);
         }
+        logger.logAgentAction(
+          this.role,
+          `No available agent matches role "${delegation.targetAgentRole}"`
+        );
       }
+    }
 
-      // If no tool or delegation, use the default execution
-      logger.logAgentAction(this.role, `Executing task using default method`);
-      const prompt = this.buildPrompt(taskDescription);
+    // If no tool or delegation, use the default execution
+    logger.logAgentAction(this.role, `Executing task using default method`);
+    const prompt = this.buildPrompt(taskDescription, context);
 
-      let previousContext: BaseMessage[] = [];
-      if (this.memory) {
-        const memoryVariables = await this.memory.loadMemoryVariables({});
-        previousContext = memoryVariables.chat_history || [];
-      }
+    const previousContext = memory
+      ? await loadMemoryContext(memory, taskDescription)
+      : [];
 
-      const enhancedPrompt = this.enhancePromptWithMemory(
-        prompt,
-        previousContext
+    const enhancedPrompt = await this.enhancePromptWithMemory(
+      prompt,
+      previousContext,
+      context,
+      memory
+    );
+
+    const response = await this.invokeModel(
+      enhancedPrompt,
+      context,
+      undefined,
+      true
+    );
+    const result = response.content.toString();
+
+    if (memory) {
+      await memory.saveContext(
+        { input: taskDescription },
+        { output: result }
       );
+    }
 
-      const response = await this.model.invoke(enhancedPrompt);
-      const result = response.content.toString();
+    return result;
+  }
 
-      if (this.memory) {
-        await this.memory.saveContext(
-          { input: taskDescription },
-          { output: result }
-        );
+  /**
+   * Delegates a task to another agent, passing along the delegation chain
+   * so the delegate can delegate further without revisiting an agent
+   * @param delegation Delegation decided by this agent
+   * @param targetAgent Agent to delegate to
+   * @param availableAgents Agents available for further delegation
+   * @param context Context of the current execution
+   * @returns Promise with the delegate's result
+   */
+  private async delegate(
+    delegation: TaskDelegation,
+    targetAgent: Agent,
+    availableAgents: Agent[],
+    context: ExecutionContext
+  ): Promise<DelegationResult> {
+    const logger = context.logger;
+    const chain = [
+      ...(context.delegationChain ?? [this.role]),
+      targetAgent.role,
+    ];
+    logger.logAgentAction(
+      this.role,
+      `Delegating task to agent: ${targetAgent.role} (${chain.join(" -> ")})`
+    );
+    this.emitEvent(context, {
+      type: "delegation",
+      agentRole: this.role,
+      targetAgentRole: targetAgent.role,
+      reason: delegation.reason,
+      chain,
+    });
+
+    let input = delegation.task;
+    if (delegation.context) {
+      input += `\n\nContext from ${this.role}: ${delegation.context}`;
+    }
+    if (delegation.expectations) {
+      input += `\n\nExpected result: ${delegation.expectations}`;
+    }
+
+    const result = await targetAgent.executeWithDetails(
+      input,
+      availableAgents,
+      {
+        onEvent: context.emit,
+        signal: context.signal,
+        rateLimiters: context.rateLimiters,
+        logger: context.logger,
+        trace: context.trace,
+        usageTracker: context.usageTracker,
+        taskId: context.taskId,
+        approvalHandler: context.approvalHandler,
+        toolApproval: context.toolApproval,
+        cache: context.cache,
+        blackboard: context.blackboard,
+        sessionId: context.sessionId,
+        delegationChain: chain,
+        maxDelegationDepth:
+          context.maxDelegationDepth ?? this.maxDelegationDepth,
       }
+    );
+    context.toolCalls.push(...result.toolCalls);
+    addTokenUsage(context.tokenUsage, result.tokenUsage);
 
-      logger.logAgentAction(this.role, `Task execution completed successfully`);
-      return result;
-    } catch (error: unknown) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
-      logger.logAgentAction(
-        this.role,
-        `Task execution failed: ${errorMessage}`
-      );
-      throw new Error(`Agent execution failed: ${errorMessage}`);
+    const delegated: DelegationResult = {
+      delegatorRole: this.role,
+      delegateRole: targetAgent.role,
+      task: delegation.task,
+      reason: delegation.reason,
+      context: delegation.context,
+      expectations: delegation.expectations,
+      chain,
+      result,
+    };
+    context.delegation = delegated;
+    return delegated;
+  }
+
+  /**
+   * Reviews the result of a delegated task and turns it into the final answer
+   * @param delegated Result of the delegated task
+   * @param context Context of the current execution
+   * @returns Promise with the final answer
+   */
+  private async reviewDelegation(
+    delegated: DelegationResult,
+    context: ExecutionContext
+  ): Promise<string> {
+    const prompt = `
+      You are a ${this.role}.
+      Your goal is: ${this.goal}
+      
+      Task: ${delegated.task}
+      
+      You delegated this task to ${delegated.delegateRole}${
+        delegated.expectations ? `, expecting: ${delegated.expectations}` : ""
+      }
+      
+      Result from ${delegated.delegateRole}:
+      ${delegated.result.output}
+      
+      Review this result and give the final response to the task, correcting
+      or completing it where it falls short.
+    `;
+
+    const response = await this.invokeModel(prompt, context, undefined, true);
+    return response.content.toString();
+  }
+
+  /**
+   * Formats the blackboard entries relevant to a task for inclusion in a
+   * prompt. Outputs of the tasks the input already contains are left out.
+   * @param taskDescription Description of the task
+   * @param context Context of the current execution
+   * @returns The formatted entries, or an empty string if there are none
+   */
+  private formatBlackboard(
+    taskDescription: string,
+    context: ExecutionContext
+  ): string {
+    const excludeTaskIds = [...(context.inputTaskIds ?? [])];
+    if (context.taskId) {
+      excludeTaskIds.push(context.taskId);
+    }
+    const entries = context.blackboard?.findRelevant(
+      this.role,
+      taskDescription,
+      { excludeTaskIds }
+    );
+    if (!entries || entries.length === 0) {
+      return "";
     }
+
+    const format = (entry: BlackboardEntry) => {
+      const scope = entry.scope === "private" ? ", private" : "";
+      const value = formatBlackboardValue(entry.value);
+      return `- [${entry.kind}${scope}] ${entry.key} (from ${entry.author}): ${
+        value.length > MAX_BLACKBOARD_VALUE_LENGTH
+          ? `${value.slice(0, MAX_BLACKBOARD_VALUE_LENGTH)}...`
+          : value
+      }`;
+    };
+    return `
+      Shared notes from the team:
+      ${entries.map(format).join("\n")}
+      `;
+  }
+
+  /**
+   * Builds the prompt for the agent based on its properties and the task,
+   * shortening the task when the prompt does not fit in the context budget
+   * @param taskDescription Description of the task
+   * @param context Context of the current execution
+   * @returns Formatted prompt string
+   */
+  private buildPrompt(
+    taskDescription: string,
+    context: ExecutionContext
+  ): string {
+    return this.fitPrompt(taskDescription, [], (task) =>
+      this.formatPrompt(task, context)
+    );
   }
 
   /**
-   * Builds the prompt for the agent based on its properties and the task
+   * Formats the prompt for the agent based on its properties and the task
    * @param taskDescription Description of the task
+   * @param context Context of the current execution
    * @returns Formatted prompt string
    */
-  private buildPrompt(taskDescription: string): string {
+  private formatPrompt(
+    taskDescription: string,
+    context: ExecutionContext
+  ): string {
     return `
       You are a ${this.role}.
       Your goal is: ${this.goal}
       Your backstory: ${this.backstory}
       
-      Available tools: ${this.tools.map((tool) => tool.schema.name).join(", ")}
-      
+      Available tools: ${this.getTools(context)
+        .map((tool) => tool.schema.name)
+        .join(", ")}
+      ${this.formatBlackboard(taskDescription, context)}
       Task: ${taskDescription}
       
       Please provide a detailed response to complete this task.
@@ -360,20 +1963,12 @@ export class Agent {
   }
 
   /**
-   * Enhances the prompt with previous context from memory
-   * @param prompt Original prompt
-   * @param previousContext Previous conversation history
-   * @returns Enhanced prompt with memory context
+   * Formats messages of the memory for inclusion in a prompt
+   * @param messages The messages
+   * @returns One line per message
    */
-  private enhancePromptWithMemory(
-    prompt: string,
-    previousContext: BaseMessage[]
-  ): string {
-    if (previousContext.length === 0) {
-      return prompt;
-    }
-
-    const contextSummary = previousContext
+  private formatMessages(messages: BaseMessage[]): string {
+    return messages
       .map(
         (msg) =>
           `${msg._getType()}: ${
@@ -383,12 +1978,174 @@ export class Agent {
           }`
       )
       .join("\n");
+  }
 
-    return `
+  /**
+   * Enhances the prompt with previous context from memory. Memory taking
+   * more than its share of the context budget is compacted first.
+   * @param prompt Original prompt
+   * @param previousContext Previous conversation history
+   * @param context Context of the current execution
+   * @param memory Memory the history comes from
+   * @returns Promise with the enhanced prompt with memory context
+   */
+  private async enhancePromptWithMemory(
+    prompt: string,
+    previousContext: BaseMessage[],
+    context: ExecutionContext,
+    memory?: AgentMemory
+  ): Promise<string> {
+    const budget = this.contextBudget;
+    const withContext = (contextSummary: string) => `
       Previous Context:
       ${contextSummary}
 
       ${prompt}
     `;
+    const memoryTokens = Math.min(
+      budget.memoryTokens,
+      budget.promptTokens - budget.count(withContext(""))
+    );
+    let messages = previousContext;
+    if (
+      messages.length > 0 &&
+      budget.count(this.formatMessages(messages)) > memoryTokens
+    ) {
+      messages = await this.compactMemory(
+        messages,
+        memoryTokens,
+        context,
+        memory
+      );
+    }
+    if (messages.length === 0) {
+      return prompt;
+    }
+
+    return withContext(this.formatMessages(messages));
+  }
+
+  /**
+   * Compacts memory that does not fit in its budget. The newest messages
+   * that fit in half of the budget are kept; older ones are summarized
+   * into a single message, which replaces them in the memory so later
+   * executions do not summarize them again. Only memories that load every
+   * message are summarized; others, such as buffer-window and combined
+   * memories, bound what they load themselves and are left as they are.
+   * Without summarization, or if it fails, the older messages are left out
+   * of the prompt.
+   * @param messages Messages of the memory, oldest first
+   * @param maxTokens Tokens the memory may take in the prompt
+   * @param context Context of the current execution
+   * @param memory Memory the messages come from
+   * @returns Promise with the messages to include in the prompt
+   */
+  private async compactMemory(
+    messages: BaseMessage[],
+    maxTokens: number,
+    context: ExecutionContext,
+    memory?: AgentMemory
+  ): Promise<BaseMessage[]> {
+    const budget = this.contextBudget;
+    const { older, newest } = budget.splitNewest(
+      messages,
+      Math.floor(maxTokens / 2),
+      (message) => this.formatMessages([message])
+    );
+    if (older.length === 0) {
+      return newest;
+    }
+
+    // Other memories bound what they load themselves, so they are left as
+    // they are
+    const compactable =
+      memory && loadsEveryMessage(memory) ? memory : undefined;
+    const summaryPrefix = "Summary of the earlier conversation: ";
+    let summary: string | undefined;
+    if (budget.memoryCompaction === "summarize" && compactable) {
+      try {
+        summary = await this.summarizeMessages(
+          older,
+          maxTokens -
+            budget.count(
+              this.formatMessages([new SystemMessage(summaryPrefix), ...newest])
+            ),
+          context
+        );
+      } catch (error) {
+        throwIfAborted(context.signal);
+        context.logger.warn(
+          `Could not summarize memory: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+          { agentRole: this.role }
+        );
+      }
+    }
+
+    if (summary === undefined || !compactable) {
+      context.logger.logAgentAction(
+        this.role,
+        `Leaving ${older.length} older memory messages out of the prompt`
+      );
+      return newest;
+    }
+
+    const compacted = [
+      new SystemMessage(`${summaryPrefix}${summary}`),
+      ...newest,
+    ];
+    context.logger.logAgentAction(
+      this.role,
+      `Summarized ${older.length} older memory messages`
+    );
+    try {
+      await replaceMemoryMessages(compactable, compacted);
+    } catch (error) {
+      // The memory keeps its messages and is compacted again next time
+      context.logger.warn(
+        `Could not replace memory messages: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        { agentRole: this.role }
+      );
+    }
+    return compacted;
+  }
+
+  /**
+   * Asks the model to summarize conversation messages
+   * @param messages Messages to summarize, oldest first
+   * @param maxTokens Tokens the summary may take
+   * @param context Context of the current execution
+   * @returns Promise with the summary
+   */
+  private async summarizeMessages(
+    messages: BaseMessage[],
+    maxTokens: number,
+    context: ExecutionContext
+  ): Promise<string> {
+    const budget = this.contextBudget;
+    const buildSummaryPrompt = (conversation: string) => `
+      You are a ${this.role}.
+      Summarize the conversation below in at most ${Math.max(
+        Math.floor(maxTokens * 0.75),
+        1
+      )} words. Keep the facts, decisions, preferences and open questions
+      that later requests may depend on.
+
+      Conversation:
+      ${conversation}
+    `;
+    const conversation = budget.truncate(
+      this.formatMessages(messages),
+      budget.promptTokens - budget.count(buildSummaryPrompt(""))
+    );
+
+    const response = await this.invokeModel(
+      buildSummaryPrompt(conversation),
+      context
+    );
+    return budget.truncate(response.content.toString().trim(), maxTokens);
   }
 }
@@ -0,0 +1,13 @@
+/**
+ * Error thrown when an agent fails to execute a task.
+ * Keeps the original error as `cause` so callers can inspect it.
+ */
+export class AgentExecutionError extends Error {
+  constructor(
+    message: string,
+    public readonly cause: unknown
+  ) {
+    super(message);
+    this.name = "AgentExecutionError";
+  }
+}
@@ -0,0 +1,305 @@
+import { Agent, ExecutionContext } from "./Agent";
+import { TaskResult } from "../tasks/Task";
+import { findAgentByRole } from "./findAgentByRole";
+
+/**
+ * Subtask planned by a manager
+ */
+export interface PlannedTask {
+  id: string;
+  description: string;
+  agentRole: string;
+  dependsOn: string[];
+}
+
+/**
+ * Manager verdict on the results of a plan
+ */
+export interface PlanReview {
+  approved: boolean;
+  feedback: string;
+  output: string;
+}
+
+/**
+ * Default maximum number of subtasks in a plan
+ */
+const DEFAULT_MAX_PLANNED_TASKS = 8;
+
+/**
+ * Agent acting as a manager: decomposes an objective into subtasks,
+ * assigns each one to the best suited agent and reviews the results
+ */
+export class Manager {
+  constructor(
+    public readonly agent: Agent,
+    private readonly maxPlannedTasks: number = DEFAULT_MAX_PLANNED_TASKS
+  ) {}
+
+  /**
+   * Describes the agents work can be assigned to
+   * @param agents Available agents
+   * @returns One line per agent
+   */
+  private describeAgents(agents: Agent[]): string {
+    return agents
+      .map((agent) => {
+        const tools = agent
+          .getAvailableTools()
+          .map((tool) => tool.schema.name)
+          .join(", ");
+        return `- ${agent.role}: ${agent.goal}. Capabilities: ${
+          agent.capabilities.join(", ") || "none"
+        }. Tools: ${tools || "none"}`;
+      })
+      .join("\n");
+  }
+
+  /**
+   * Describes the results of the tasks run so far
+   * @param results Task results
+   * @returns One entry per task
+   */
+  private describeResults(results: TaskResult[]): string {
+    return results
+      .map((result) => {
+        const outcome =
+          result.status === "completed"
+            ? result.output
+            : `${result.status.toUpperCase()}: ${result.error ?? ""}`;
+        return `[${result.taskId}] (${result.agentRole}) ${result.description}\n${outcome}`;
+      })
+      .join("\n\n");
+  }
+
+  /**
+   * Converts a planned list of subtasks, throwing if it is invalid
+   * @param value Parsed model response
+   * @param agents Available agents
+   * @param finishedIds Ids of tasks that already completed
+   * @returns The planned subtasks
+   */
+  private toPlan(
+    value: Record<string, unknown>,
+    agents: Agent[],
+    finishedIds: string[]
+  ): PlannedTask[] {
+    if (!Array.isArray(value.tasks) || value.tasks.length === 0) {
+      throw new Error('"tasks" must be a non-empty array');
+    }
+    if (value.tasks.length > this.maxPlannedTasks) {
+      throw new Error(`Plan at most ${this.maxPlannedTasks} tasks`);
+    }
+
+    const plan: PlannedTask[] = [];
+    for (const item of value.tasks) {
+      if (typeof item?.id !== "string" || item.id.trim() === "") {
+        throw new Error('Every task needs a string "id"');
+      }
+      if (typeof item.description !== "string") {
+        throw new Error(`Task "${item.id}" needs a string "description"`);
+      }
+      if (plan.some((task) => task.id === item.id)) {
+        throw new Error(`Task id "${item.id}" is used more than once`);
+      }
+      if (finishedIds.includes(item.id)) {
+        throw new Error(
+          `Task id "${item.id}" is already used by a completed task; give new tasks new ids`
+        );
+      }
+
+      const agent = findAgentByRole(agents, String(item.agentRole ?? ""));
+      if (!agent) {
+        throw new Error(
+          `Task "${item.id}" is assigned to unknown agent "${item.agentRole}"`
+        );
+      }
+
+      const dependsOn: string[] = Array.isArray(item.dependsOn)
+        ? item.dependsOn.map(String)
+        : [];
+      const unknown = dependsOn.find(
+        (id) =>
+          !finishedIds.includes(id) && !plan.some((task) => task.id === id)
+      );
+      if (unknown) {
+        throw new Error(
+          `Task "${item.id}" depends on "${unknown}", which is not an earlier task`
+        );
+      }
+
+      plan.push({
+        id: item.id,
+        description: item.description,
+        agentRole: agent.role,
+        dependsOn,
+      });
+    }
+    return plan;
+  }
+
+  /**
+   * Asks the manager for a plan, throwing if it never gives a valid one
+   * @param prompt Planning prompt
+   * @param agents Available agents
+   * @param finishedIds Ids of tasks that already completed
+   * @param context Context of the current execution
+   * @returns The planned subtasks
+   */
+  private async requestPlan(
+    prompt: string,
+    agents: Agent[],
+    finishedIds: string[],
+    context: ExecutionContext
+  ): Promise<PlannedTask[]> {
+    const plan = await this.agent.invokeForJson(
+      `
+      ${prompt}
+
+      Respond with a valid JSON object in this exact format (no markdown, no code blocks):
+      {
+        "tasks": [
+          {
+            "id": "short unique id",
+            "description": "what the agent must do and produce",
+            "agentRole": "role of the agent to assign",
+            "dependsOn": ["ids of tasks whose results this task needs"]
+          }
+        ]
+      }
+    `,
+      (value) => this.toPlan(value, agents, finishedIds),
+      context
+    );
+    if (!plan) {
+      throw new Error(
+        `Manager ${this.agent.role} did not return a valid plan`
+      );
+    }
+    return plan;
+  }
+
+  /**
+   * Decomposes an objective into subtasks assigned to the available agents
+   * @param objective High-level objective
+   * @param agents Agents work can be assigned to
+   * @param context Context of the current execution
+   * @returns Promise with the planned subtasks
+   */
+  public async plan(
+    objective: string,
+    agents: Agent[],
+    context: ExecutionContext
+  ): Promise<PlannedTask[]> {
+    const prompt = `
+      You are a ${this.agent.role} managing a team of agents.
+      Your goal is: ${this.agent.goal}
+      Your backstory: ${this.agent.backstory}
+
+      Team:
+      ${this.describeAgents(agents)}
+
+      Objective: ${objective}
+
+      Break the objective down into at most ${this.maxPlannedTasks} tasks and
+      assign each one to the team member best suited for it. Tasks only see
+      the results of the tasks they depend on.
+    `;
+    return this.requestPlan(prompt, agents, [], context);
+  }
+
+  /**
+   * Plans the remaining work after a review, reassigning failed tasks
+   * @param objective High-level objective
+   * @param agents Agents work can be assigned to
+   * @param results Results of the tasks run so far
+   * @param feedback Feedback from the last review
+   * @param context Context of the current execution
+   * @returns Promise with the new subtasks
+   */
+  public async replan(
+    objective: string,
+    agents: Agent[],
+    results: TaskResult[],
+    feedback: string,
+    context: ExecutionContext
+  ): Promise<PlannedTask[]> {
+    const finishedIds = results
+      .filter((result) => result.status === "completed")
+      .map((result) => result.taskId);
+    const prompt = `
+      You are a ${this.agent.role} managing a team of agents.
+      Your goal is: ${this.agent.goal}
+      Your backstory: ${this.agent.backstory}
+
+      Team:
+      ${this.describeAgents(agents)}
+
+      Objective: ${objective}
+
+      Results so far:
+      ${this.describeResults(results)}
+
+      Review feedback: ${feedback}
+
+      Plan the additional tasks needed to achieve the objective. Reassign
+      failed work to a different team member when the assigned one could not
+      do it. New tasks need new ids and may depend on completed tasks.
+    `;
+    return this.requestPlan(prompt, agents, finishedIds, context);
+  }
+
+  /**
+   * Reviews the results of the tasks run so far against the objective
+   * @param objective High-level objective
+   * @param results Results of the tasks run so far
+   * @param context Context of the current execution
+   * @returns Promise with the review
+   */
+  public async review(
+    objective: string,
+    results: TaskResult[],
+    context: ExecutionContext
+  ): Promise<PlanReview> {
+    const prompt = `
+      You are a ${this.agent.role} managing a team of agents.
+      Your goal is: ${this.agent.goal}
+
+      Objective: ${objective}
+
+      Results of the tasks:
+      ${this.describeResults(results)}
+
+      Do these results achieve the objective? If they do, combine them into
+      the final answer. If they do not, explain what is missing or wrong.
+
+      Respond with a valid JSON object in this exact format (no markdown, no code blocks):
+      {
+        "approved": true or false,
+        "feedback": "what is missing or wrong, if anything",
+        "output": "final answer to the objective when approved"
+      }
+    `;
+
+    const review = await this.agent.invokeForJson(
+      prompt,
+      (value): PlanReview => {
+        if (typeof value.approved !== "boolean") {
+          throw new Error('"approved" must be true or false');
+        }
+        return {
+          approved: value.approved,
+          feedback: String(value.feedback ?? ""),
+          output: String(value.output ?? ""),
+        };
+      },
+      context
+    );
+    if (!review) {
+      throw new Error(
+        `Manager ${this.agent.role} did not return a valid review`
+      );
+    }
+    return review;
+  }
+}
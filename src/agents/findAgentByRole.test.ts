@@ -0,0 +1,54 @@
+import { Agent } from "./Agent";
+import { findAgentByRole } from "./findAgentByRole";
+import { FakeChatModel } from "../testing/FakeChatModel";
+
+function createAgents(...roles: string[]): Agent[] {
+  return roles.map(
+    (role) =>
+      new Agent({
+        role,
+        goal: "Help",
+        backstory: "Helpful",
+        model: new FakeChatModel(),
+      })
+  );
+}
+
+describe("findAgentByRole", () => {
+  const agents = createAgents(
+    "Content Writer",
+    "Research Analyst",
+    "Diseñador"
+  );
+
+  it("finds the agent with the exact role", () => {
+    expect(findAgentByRole(agents, "Content Writer")?.role).toBe(
+      "Content Writer"
+    );
+  });
+
+  it("tolerates case, punctuation, accents and agent suffixes", () => {
+    expect(findAgentByRole(agents, "content-writer agent")?.role).toBe(
+      "Content Writer"
+    );
+    expect(findAgentByRole(agents, "DISENADOR")?.role).toBe("Diseñador");
+  });
+
+  it("matches partial names by whole words", () => {
+    expect(findAgentByRole(agents, "writer")?.role).toBe("Content Writer");
+    expect(findAgentByRole(agents, "write")).toBeUndefined();
+  });
+
+  it("finds no agent for an unrelated role", () => {
+    expect(findAgentByRole(agents, "Translator")).toBeUndefined();
+    expect(findAgentByRole(agents, "")).toBeUndefined();
+  });
+
+  it("rejects a role matching several agents equally well", () => {
+    const writers = createAgents("Content Writer", "Technical Writer");
+
+    expect(() => findAgentByRole(writers, "writer")).toThrow(
+      'Role "writer" matches several agents: Content Writer, Technical Writer'
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import type { Agent } from "./Agent";
+
+/**
+ * Minimum similarity for a role name to match an agent
+ */
+const MIN_ROLE_SIMILARITY = 0.5;
+
+/**
+ * Normalizes a role name into lowercase words
+ * @param role Role name
+ * @returns The words of the role, without filler words
+ */
+function toRoleWords(role: string): string[] {
+  // Decompose accented letters so "Diseñador" and "Disenador" match
+  return (
+    role
+      .normalize("NFKD")
+      .replace(/\p{M}/gu, "")
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) ?? []
+  ).filter((word) => word !== "agent" && word !== "the");
+}
+
+/**
+ * Checks whether a list of words contains another as a contiguous run
+ * @param words Words to search
+ * @param part Words to look for
+ */
+function containsWords(words: string[], part: string[]): boolean {
+  for (let start = 0; start + part.length <= words.length; start++) {
+    if (part.every((word, index) => words[start + index] === word)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Scores how similar two role names are, from 0 to 1
+ * @param a Words of the first role
+ * @param b Words of the second role
+ */
+function getRoleSimilarity(a: string[], b: string[]): number {
+  if (a.join(" ") === b.join(" ")) {
+    return 1;
+  }
+  if (containsWords(a, b) || containsWords(b, a)) {
+    return 0.9;
+  }
+
+  const shared = a.filter((word) => b.includes(word)).length;
+  return shared / new Set([...a, ...b]).size;
+}
+
+/**
+ * Finds the agent whose role best matches a role name, tolerating the
+ * variations models return (case, punctuation, "agent" suffixes or
+ * partial names such as "writer" for "Content Writer"). Partial names
+ * match whole words only.
+ * @param agents Agents to search
+ * @param role Role name to look for
+ * @returns The best matching agent, or undefined if none is similar enough
+ * @throws Error if several agents match equally well
+ */
+export function findAgentByRole(
+  agents: Agent[],
+  role: string
+): Agent | undefined {
+  const exact = agents.find((agent) => agent.role === role);
+  if (exact) {
+    return exact;
+  }
+
+  const words = toRoleWords(role);
+  if (words.length === 0) {
+    return undefined;
+  }
+
+  let bestAgents: Agent[] = [];
+  let bestSimilarity = MIN_ROLE_SIMILARITY;
+  for (const agent of agents) {
+    const similarity = getRoleSimilarity(words, toRoleWords(agent.role));
+    if (similarity > bestSimilarity) {
+      bestAgents = [agent];
+      bestSimilarity = similarity;
+    } else if (similarity === bestSimilarity) {
+      bestAgents.push(agent);
+    }
+  }
+  if (bestAgents.length > 1) {
+    throw new Error(
+      `Role "${role}" matches several agents: ${bestAgents
+        .map((agent) => agent.role)
+        .join(", ")}`
+    );
+  }
+  return bestAgents[0];
+}
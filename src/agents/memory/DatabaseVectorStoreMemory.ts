@@ -0,0 +1,83 @@
+import {
+  InputValues,
+  MemoryVariables,
+  OutputValues,
+} from "@langchain/core/memory";
+import {
+  VectorStoreRetrieverMemory,
+  VectorStoreRetrieverMemoryParams,
+} from "langchain/memory";
+
+/**
+ * Opens and closes the database connection of a memory
+ */
+export interface MemoryConnection {
+  connect(): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Vector store memory backed by a database client it owns, such as the
+ * mongodb and redis memories of MemoryFactory. The client connects on
+ * first use, or earlier with connect(), and is released with close().
+ */
+export class DatabaseVectorStoreMemory extends VectorStoreRetrieverMemory {
+  private connecting?: Promise<void>;
+
+  /**
+   * @param fields Vector store memory parameters
+   * @param connection Connection of the client of the vector store
+   */
+  constructor(
+    fields: VectorStoreRetrieverMemoryParams,
+    private readonly connection: MemoryConnection
+  ) {
+    super(fields);
+  }
+
+  /**
+   * Connects the database client, if it is not connected yet
+   * @returns Promise resolving once connected
+   */
+  public connect(): Promise<void> {
+    this.connecting ??= this.connection.connect().catch((error) => {
+      // Let the next use try again
+      this.connecting = undefined;
+      throw error;
+    });
+    return this.connecting;
+  }
+
+  /**
+   * Closes the database client. The memory connects again if it is used
+   * afterwards.
+   */
+  public async close(): Promise<void> {
+    const connecting = this.connecting;
+    if (!connecting) {
+      return;
+    }
+    this.connecting = undefined;
+    try {
+      await connecting;
+    } catch {
+      return;
+    }
+    await this.connection.close();
+  }
+
+  public async loadMemoryVariables(
+    values: InputValues
+  ): Promise<MemoryVariables> {
+    await this.connect();
+    return super.loadMemoryVariables(values);
+  }
+
+  public async saveContext(
+    inputValues: InputValues,
+    outputValues: OutputValues
+  ): Promise<void> {
+    await this.connect();
+    return super.saveContext(inputValues, outputValues);
+  }
+}
@@ -0,0 +1,75 @@
+import { Embeddings, EmbeddingsParams } from "@langchain/core/embeddings";
+
+/**
+ * Options of the hash embeddings
+ */
+export interface HashEmbeddingsParams extends EmbeddingsParams {
+  /** Length of the vectors (default: 256) */
+  dimensions?: number;
+}
+
+/**
+ * Computes the 32-bit FNV-1a hash of a string
+ * @param text The string
+ * @returns The hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Embeds texts locally by hashing their words and character trigrams into
+ * a fixed-length vector. Texts sharing words get similar vectors, which is
+ * enough to recall related conversations without calling an embeddings API,
+ * but it does not capture meaning like a trained model does.
+ */
+export class HashEmbeddings extends Embeddings {
+  public readonly dimensions: number;
+
+  constructor(params: HashEmbeddingsParams = {}) {
+    const { dimensions = 256, ...embeddingsParams } = params;
+    super(embeddingsParams);
+    if (!Number.isInteger(dimensions) || dimensions < 1) {
+      throw new Error(`Invalid embedding dimensions: ${dimensions}`);
+    }
+    this.dimensions = dimensions;
+  }
+
+  public async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map((document) => this.embed(document));
+  }
+
+  public async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document);
+  }
+
+  /**
+   * Embeds a text
+   * @param text The text
+   * @returns Vector of unit length, or of zeros for texts without words
+   */
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    for (const word of words) {
+      const features = [word];
+      const padded = ` ${word} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        features.push(`#${padded.slice(i, i + 3)}`);
+      }
+      for (const feature of features) {
+        const hash = fnv1a(feature);
+        // The top bit picks the sign so unrelated features cancel out
+        vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value ** 2, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+}
@@ -0,0 +1,78 @@
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { JsonFileChatMessageHistory } from "./JsonFileChatMessageHistory";
+
+describe("JsonFileChatMessageHistory", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "bat-history-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("keeps the messages of a session across instances", async () => {
+    const history = new JsonFileChatMessageHistory(directory, "alice");
+    await history.addMessages([
+      new HumanMessage("Hello"),
+      new AIMessage({ content: "Hi", additional_kwargs: { mood: "happy" } }),
+    ]);
+
+    const messages = await new JsonFileChatMessageHistory(
+      directory,
+      "alice"
+    ).getMessages();
+
+    expect(messages.map((message) => message._getType())).toEqual([
+      "human",
+      "ai",
+    ]);
+    expect(messages.map((message) => message.content)).toEqual(["Hello", "Hi"]);
+    expect(messages[1].additional_kwargs).toEqual({ mood: "happy" });
+    await expect(
+      new JsonFileChatMessageHistory(directory, "bob").getMessages()
+    ).resolves.toEqual([]);
+  });
+
+  it("keeps every message of concurrent writes", async () => {
+    const history = new JsonFileChatMessageHistory(directory, "alice");
+
+    await Promise.all(
+      ["One", "Two", "Three"].map((text) =>
+        history.addMessage(new HumanMessage(text))
+      )
+    );
+
+    const messages = await history.getMessages();
+    expect(messages.map((message) => message.content)).toEqual([
+      "One",
+      "Two",
+      "Three",
+    ]);
+    expect(await readdir(directory)).toEqual(["alice.json"]);
+  });
+
+  it("replaces and clears the messages of a session", async () => {
+    const history = new JsonFileChatMessageHistory(directory, "alice");
+    await history.addMessage(new HumanMessage("Hello"));
+
+    await history.replaceMessages([new AIMessage("Summary")]);
+    expect(
+      (await history.getMessages()).map((message) => message.content)
+    ).toEqual(["Summary"]);
+
+    await history.clear();
+    await expect(history.getMessages()).resolves.toEqual([]);
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it("rejects session ids that are not file names", () => {
+    expect(() => new JsonFileChatMessageHistory(directory, "../alice")).toThrow(
+      "Invalid session id: ../alice"
+    );
+  });
+});
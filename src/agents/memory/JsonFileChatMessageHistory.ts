@@ -0,0 +1,104 @@
+import { BaseListChatMessageHistory } from "@langchain/core/chat_history";
+import {
+  BaseMessage,
+  StoredMessage,
+  mapChatMessagesToStoredMessages,
+  mapStoredMessagesToChatMessages,
+} from "@langchain/core/messages";
+import { mkdir, readFile, rename, rm, writeFile } from "fs/promises";
+import { join } from "path";
+
+/**
+ * Keeps the chat history of a session in a JSON file, one file per session
+ * in a directory. Files are replaced atomically, so a crash never leaves a
+ * partial file.
+ */
+export class JsonFileChatMessageHistory extends BaseListChatMessageHistory {
+  lc_namespace = ["bat", "memory", "json_file"];
+
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * @param directory Directory of the session files
+   * @param sessionId Id of the session
+   */
+  constructor(
+    private readonly directory: string,
+    public readonly sessionId: string
+  ) {
+    super();
+    if (!/^[\w.-]+$/.test(sessionId)) {
+      throw new Error(`Invalid session id: ${sessionId}`);
+    }
+  }
+
+  private get filePath(): string {
+    return join(this.directory, `${this.sessionId}.json`);
+  }
+
+  /**
+   * Reads the stored messages of the session
+   * @returns The messages, or an empty list if the session has no file
+   */
+  private async read(): Promise<StoredMessage[]> {
+    try {
+      return JSON.parse(await readFile(this.filePath, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Updates the file of the session. Updates run one at a time so
+   * concurrent writes do not overwrite each other.
+   * @param update Returns the new messages from the current ones
+   */
+  private update(
+    update: (messages: StoredMessage[]) => StoredMessage[]
+  ): Promise<void> {
+    const write = this.writes.then(async () => {
+      const messages = update(await this.read());
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(
+        `${this.filePath}.tmp`,
+        JSON.stringify(messages, null, 2)
+      );
+      await rename(`${this.filePath}.tmp`, this.filePath);
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  public async getMessages(): Promise<BaseMessage[]> {
+    await this.writes;
+    return mapStoredMessagesToChatMessages(await this.read());
+  }
+
+  public async addMessage(message: BaseMessage): Promise<void> {
+    await this.addMessages([message]);
+  }
+
+  public async addMessages(messages: BaseMessage[]): Promise<void> {
+    await this.update((current) => [
+      ...current,
+      ...mapChatMessagesToStoredMessages(messages),
+    ]);
+  }
+
+  /**
+   * Replaces the messages of the session in a single write
+   * @param messages The new messages, oldest first
+   */
+  public async replaceMessages(messages: BaseMessage[]): Promise<void> {
+    await this.update(() => mapChatMessagesToStoredMessages(messages));
+  }
+
+  public async clear(): Promise<void> {
+    const write = this.writes.then(() => rm(this.filePath, { force: true }));
+    this.writes = write.catch(() => undefined);
+    await write;
+  }
+}
@@ -0,0 +1,166 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  BufferMemory,
+  BufferWindowMemory,
+  CombinedMemory,
+  ConversationSummaryMemory,
+  ConversationTokenBufferMemory,
+} from "langchain/memory";
+import { DatabaseVectorStoreMemory } from "./DatabaseVectorStoreMemory";
+import { HashEmbeddings } from "./HashEmbeddings";
+import { JsonFileChatMessageHistory } from "./JsonFileChatMessageHistory";
+import { MemoryConfig, MemoryFactory } from "./MemoryFactory";
+import { FakeChatModel } from "../../testing/FakeChatModel";
+
+describe("MemoryFactory.createMemory", () => {
+  const llm = new FakeChatModel({ defaultResponse: "A summary" });
+
+  it("creates buffer and buffer-window memories", () => {
+    expect(MemoryFactory.createMemory({ type: "buffer" })).toBeInstanceOf(
+      BufferMemory
+    );
+
+    const window = MemoryFactory.createMemory({ type: "buffer-window" });
+    expect(window).toBeInstanceOf(BufferWindowMemory);
+    expect((window as BufferWindowMemory).k).toBe(3);
+    expect(
+      (
+        MemoryFactory.createMemory({
+          type: "buffer-window",
+          k: 5,
+        }) as BufferWindowMemory
+      ).k
+    ).toBe(5);
+  });
+
+  it("needs a model for the memories summarizing or counting tokens", () => {
+    expect(MemoryFactory.createMemory({ type: "summary", llm })).toBeInstanceOf(
+      ConversationSummaryMemory
+    );
+    const tokenBuffer = MemoryFactory.createMemory({
+      type: "token-buffer",
+      llm,
+    });
+    expect(tokenBuffer).toBeInstanceOf(ConversationTokenBufferMemory);
+    expect((tokenBuffer as ConversationTokenBufferMemory).maxTokenLimit).toBe(
+      2000
+    );
+
+    for (const type of ["summary", "combined", "token-buffer"] as const) {
+      expect(() =>
+        MemoryFactory.createMemory({ type } as MemoryConfig)
+      ).toThrow(`LLM is required for ${type} memory`);
+    }
+  });
+
+  it("combines a summary with the latest exchanges", () => {
+    const memory = MemoryFactory.createMemory({ type: "combined", llm, k: 2 });
+
+    expect(memory).toBeInstanceOf(CombinedMemory);
+    const [summary, window] = (memory as CombinedMemory).memories;
+    expect(summary).toBeInstanceOf(ConversationSummaryMemory);
+    expect(summary.memoryKeys).toEqual(["summary"]);
+    expect(window).toBeInstanceOf(BufferWindowMemory);
+    expect((window as BufferWindowMemory).k).toBe(2);
+    expect(() =>
+      MemoryFactory.createMemory({
+        type: "combined",
+        llm,
+        memoryKey: "summary",
+      })
+    ).toThrow('Combined memory keeps its summary under "summary"');
+  });
+
+  it("creates database memories without connecting them", async () => {
+    const embeddings = new HashEmbeddings();
+
+    const mongo = MemoryFactory.createMemory({
+      type: "mongodb",
+      mongoUrl: "mongodb://localhost:1/bat",
+      embeddings,
+    });
+    const redis = MemoryFactory.createMemory({
+      type: "redis",
+      redisUrl: "redis://localhost:1",
+      embeddings,
+    });
+
+    expect(mongo).toBeInstanceOf(DatabaseVectorStoreMemory);
+    expect(redis).toBeInstanceOf(DatabaseVectorStoreMemory);
+    // Nothing connected, so there is nothing to close
+    await expect(MemoryFactory.close(mongo)).resolves.toBeUndefined();
+    await expect(MemoryFactory.close(redis)).resolves.toBeUndefined();
+  });
+
+  it("needs the URL of database memories", () => {
+    expect(() =>
+      MemoryFactory.createMemory({ type: "mongodb" } as MemoryConfig)
+    ).toThrow("MongoDB URL is required for MongoDB memory");
+    expect(() =>
+      MemoryFactory.createMemory({ type: "redis" } as MemoryConfig)
+    ).toThrow("Redis URL is required for Redis memory");
+    expect(() =>
+      MemoryFactory.createMemory({ type: "sqlite" } as MemoryConfig)
+    ).toThrow("SQLite database is required for sqlite memory");
+  });
+
+  it("rejects an unsupported memory type", () => {
+    expect(() =>
+      MemoryFactory.createMemory({ type: "papyrus" } as unknown as MemoryConfig)
+    ).toThrow("Unsupported memory type: papyrus");
+  });
+
+  it("does nothing to connect or close memories without a database", async () => {
+    const memory = MemoryFactory.createMemory({ type: "buffer" });
+
+    await expect(MemoryFactory.connect(memory)).resolves.toBeUndefined();
+    await expect(MemoryFactory.close(memory)).resolves.toBeUndefined();
+  });
+});
+
+describe("MemoryFactory json-file memory", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "bat-memory-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("keeps the conversation of a session in its file", async () => {
+    const memory = MemoryFactory.createMemory({
+      type: "json-file",
+      directory,
+      sessionId: "alice",
+    }) as BufferMemory;
+    await memory.saveContext({ input: "Hello" }, { output: "Hi" });
+
+    const messages = await new JsonFileChatMessageHistory(
+      directory,
+      "alice"
+    ).getMessages();
+
+    expect(messages.map((message) => message.content)).toEqual(["Hello", "Hi"]);
+  });
+
+  it("gives each session its own memory with forSessions", async () => {
+    const createMemory = MemoryFactory.forSessions({
+      type: "json-file",
+      directory,
+    });
+    await createMemory("alice").saveContext(
+      { input: "Hello" },
+      { output: "Hi" }
+    );
+
+    const alice = await createMemory("alice").loadMemoryVariables({});
+    const bob = await createMemory("bob").loadMemoryVariables({});
+
+    expect(alice.chat_history).toHaveLength(2);
+    expect(bob.chat_history).toEqual([]);
+  });
+});
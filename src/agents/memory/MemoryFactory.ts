@@ -1,7 +1,11 @@
-import { AgentMemory } from "../Agent";
+import { AgentMemory, SessionMemoryFactory } from "../Agent";
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { VectorStoreInterface } from "@langchain/core/vectorstores";
 import {
+  BaseMemory,
   BufferMemory,
+  BufferWindowMemory,
   ConversationSummaryMemory,
   ConversationTokenBufferMemory,
   VectorStoreRetrieverMemory,
@@ -13,182 +17,405 @@ import { MongoClient, Collection } from "mongodb";
 import { MongoDBAtlasVectorSearch } from "@langchain/mongodb";
 import { OpenAIEmbeddings } from "@langchain/openai";
 import { RedisVectorStore } from "@langchain/redis";
+import { SqliteDatabase } from "../../utils/sqlite";
+import { JsonFileChatMessageHistory } from "./JsonFileChatMessageHistory";
+import { SqliteChatMessageHistory } from "./SqliteChatMessageHistory";
+import { DatabaseVectorStoreMemory } from "./DatabaseVectorStoreMemory";
 
-export type MemoryType =
-  | "buffer"
-  | "summary"
-  | "buffer-window"
-  | "vector-store"
-  | "combined"
-  | "token-buffer"
-  | "mongodb"
-  | "redis"
-  | "motorhead";
-
-interface MemoryConfig {
-  type: MemoryType;
-  llm?: BaseChatModel;
+/**
+ * Options shared by every memory type
+ */
+export interface BaseMemoryConfig {
+  /** Variable the memory loads its context into (default: "chat_history") */
   memoryKey?: string;
   inputKey?: string;
   outputKey?: string;
+  /** Load the context as messages rather than text (default: true) */
   returnMessages?: boolean;
+  /**
+   * Conversation session of memories that keep sessions apart in their
+   * store (default: "default-session")
+   */
+  sessionId?: string;
+}
+
+/**
+ * Memory keeping the whole conversation
+ */
+export interface BufferMemoryConfig extends BaseMemoryConfig {
+  type: "buffer";
+}
+
+/**
+ * Memory keeping a summary of the conversation, written by a model
+ */
+export interface SummaryMemoryConfig extends BaseMemoryConfig {
+  type: "summary";
+  llm: BaseChatModel;
+}
+
+/**
+ * Memory keeping the latest exchanges of the conversation
+ */
+export interface BufferWindowMemoryConfig extends BaseMemoryConfig {
+  type: "buffer-window";
+  /** Number of exchanges kept (default: 3) */
+  k?: number;
+}
+
+/**
+ * Memory keeping the latest exchanges of the conversation together with a
+ * summary of the whole conversation
+ */
+export interface CombinedMemoryConfig extends BaseMemoryConfig {
+  type: "combined";
+  llm: BaseChatModel;
+  /** Number of exchanges kept besides the summary (default: 3) */
   k?: number;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  vectorStore?: any;
-  // Database configurations
-  mongoUrl?: string;
+}
+
+/**
+ * Memory keeping the latest messages that fit in a number of tokens
+ */
+export interface TokenBufferMemoryConfig extends BaseMemoryConfig {
+  type: "token-buffer";
+  llm: BaseChatModel;
+  /** Tokens the kept messages may take (default: 2000) */
+  maxTokenLimit?: number;
+}
+
+/**
+ * Memory retrieving the exchanges relevant to the input from a vector store
+ */
+export interface VectorStoreMemoryConfig extends BaseMemoryConfig {
+  type: "vector-store";
+  vectorStore: VectorStoreInterface;
+  /** Number of exchanges retrieved (default: 3) */
+  k?: number;
+}
+
+/**
+ * Vector store memory in MongoDB Atlas. The memory owns its client, which
+ * connects on first use; release it with MemoryFactory.close().
+ */
+export interface MongoDBMemoryConfig extends BaseMemoryConfig {
+  type: "mongodb";
+  mongoUrl: string;
+  /** Default: "chat_history" */
   mongoCollectionName?: string;
-  redisUrl?: string;
+  /** Atlas Search index of the collection (default: "default") */
+  mongoIndexName?: string;
+  /** Default: OpenAI embeddings */
+  embeddings?: EmbeddingsInterface;
+  /** Number of exchanges retrieved (default: 3) */
+  k?: number;
+}
+
+/**
+ * Vector store memory in Redis. The memory owns its client, which
+ * connects on first use; release it with MemoryFactory.close().
+ */
+export interface RedisMemoryConfig extends BaseMemoryConfig {
+  type: "redis";
+  redisUrl: string;
   redisPassword?: string;
-  // Other configurations
-  sessionId?: string;
-  maxTokenLimit?: number;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  [key: string]: any;
+  /** Default: "chat_history" */
+  redisIndexName?: string;
+  /** Default: OpenAI embeddings */
+  embeddings?: EmbeddingsInterface;
+  /** Number of exchanges retrieved (default: 3) */
+  k?: number;
+}
+
+/**
+ * Memory kept by a Motörhead server
+ */
+export interface MotorheadMemoryConfig extends BaseMemoryConfig {
+  type: "motorhead";
+  /** Default: the Motörhead managed service */
+  motorheadUrl?: string;
+  motorheadApiKey?: string;
+  motorheadClientId?: string;
+}
+
+/**
+ * Buffer memory keeping each session in a JSON file
+ */
+export interface JsonFileMemoryConfig extends BaseMemoryConfig {
+  type: "json-file";
+  /** Directory of the session files (default: ".bat/memory") */
+  directory?: string;
+}
+
+/**
+ * Buffer memory keeping the sessions in a SQLite database
+ */
+export interface SqliteMemoryConfig extends BaseMemoryConfig {
+  type: "sqlite";
+  sqliteDatabase: SqliteDatabase;
+  /** Prefix of the memory tables (default: "bat_") */
+  tablePrefix?: string;
+}
+
+/**
+ * Configuration of a memory, by memory type
+ */
+export type MemoryConfig =
+  | BufferMemoryConfig
+  | SummaryMemoryConfig
+  | BufferWindowMemoryConfig
+  | CombinedMemoryConfig
+  | TokenBufferMemoryConfig
+  | VectorStoreMemoryConfig
+  | MongoDBMemoryConfig
+  | RedisMemoryConfig
+  | MotorheadMemoryConfig
+  | JsonFileMemoryConfig
+  | SqliteMemoryConfig;
+
+export type MemoryType = MemoryConfig["type"];
+
+/**
+ * Memory key of the summary of combined memories
+ */
+const SUMMARY_MEMORY_KEY = "summary";
+
+/**
+ * Default number of exchanges kept or retrieved
+ */
+const DEFAULT_K = 3;
+
+/**
+ * Gets the memories of a memory that own a database client, looking into
+ * the memories of a CombinedMemory
+ * @param memory The memory
+ */
+function getDatabaseMemories(memory: BaseMemory): DatabaseVectorStoreMemory[] {
+  if (memory instanceof DatabaseVectorStoreMemory) {
+    return [memory];
+  }
+  const { memories } = memory as { memories?: BaseMemory[] };
+  return Array.isArray(memories) ? memories.flatMap(getDatabaseMemories) : [];
 }
 
 export class MemoryFactory {
+  /**
+   * Creates a factory of the memories of conversation sessions, for the
+   * sessionMemory option of agents. Every session gets its own memory
+   * with the same configuration; json-file, sqlite and motorhead memories
+   * keep each session apart in their store, while the vector-backed
+   * memories share their index across sessions. Each session memory of
+   * the mongodb and redis types owns its own database client.
+   * @param config Memory configuration, without the session id
+   * @returns Function creating the memory of a session
+   */
+  static forSessions(config: MemoryConfig): SessionMemoryFactory {
+    return (sessionId) => MemoryFactory.createMemory({ ...config, sessionId });
+  }
+
+  /**
+   * Creates a memory
+   * @param config Memory configuration
+   * @returns The memory
+   * @throws Error if the configuration misses a required option
+   */
   static createMemory(config: MemoryConfig): AgentMemory {
     const {
-      type,
-      llm,
       memoryKey = "chat_history",
       inputKey = "input",
       outputKey = "output",
       returnMessages = true,
-      k = 3,
-      vectorStore: providedVectorStore,
-      // Database configurations
-      mongoUrl,
-      mongoCollectionName = "chat_history",
-      redisUrl,
-      redisPassword,
-      // Other configurations
       sessionId = "default-session",
-      maxTokenLimit = 2000,
     } = config;
+    const keys = { memoryKey, inputKey, outputKey };
 
-    switch (type) {
+    switch (config.type) {
       case "buffer":
-        return new BufferMemory({
-          memoryKey,
-          inputKey,
-          outputKey,
-          returnMessages,
-        });
+        return new BufferMemory({ ...keys, returnMessages });
 
       case "summary":
-        if (!llm) throw new Error("LLM is required for summary memory");
+        if (!config.llm) throw new Error("LLM is required for summary memory");
         return new ConversationSummaryMemory({
-          llm,
-          memoryKey,
-          inputKey,
-          outputKey,
+          llm: config.llm,
+          ...keys,
           returnMessages,
         });
 
       case "buffer-window":
-        if (!llm) throw new Error("LLM is required for buffer-window memory");
-        return new ConversationTokenBufferMemory({
-          llm,
-          memoryKey,
-          inputKey,
-          outputKey,
+        return new BufferWindowMemory({
+          ...keys,
           returnMessages,
-          maxTokenLimit: k,
-        });
-
-      case "vector-store":
-        if (!providedVectorStore) {
-          throw new Error("Vector store is required for vector-store memory");
-        }
-        return new VectorStoreRetrieverMemory({
-          vectorStoreRetriever: providedVectorStore.asRetriever(k),
-          memoryKey,
-          inputKey,
-          outputKey,
+          k: config.k ?? DEFAULT_K,
         });
 
       case "combined":
-        if (!llm) throw new Error("LLM is required for combined memory");
+        if (!config.llm) throw new Error("LLM is required for combined memory");
+        if (memoryKey === SUMMARY_MEMORY_KEY) {
+          throw new Error(
+            `Combined memory keeps its summary under "${SUMMARY_MEMORY_KEY}", which cannot be its memoryKey`
+          );
+        }
+        // Agents read every variable of the memory, the summary first
         return new CombinedMemory({
           memories: [
-            new BufferMemory({
-              memoryKey: "buffer",
-              inputKey,
-              outputKey,
+            new ConversationSummaryMemory({
+              llm: config.llm,
+              ...keys,
+              memoryKey: SUMMARY_MEMORY_KEY,
               returnMessages,
             }),
-            new ConversationSummaryMemory({
-              llm,
-              memoryKey: "summary",
-              inputKey,
-              outputKey,
+            new BufferWindowMemory({
+              ...keys,
               returnMessages,
+              k: config.k ?? DEFAULT_K,
             }),
           ],
         });
 
       case "token-buffer":
-        if (!llm) throw new Error("LLM is required for token-buffer memory");
+        if (!config.llm) {
+          throw new Error("LLM is required for token-buffer memory");
+        }
         return new ConversationTokenBufferMemory({
-          llm,
-          memoryKey,
-          inputKey,
-          outputKey,
+          llm: config.llm,
+          ...keys,
           returnMessages,
-          maxTokenLimit,
+          maxTokenLimit: config.maxTokenLimit ?? 2000,
+        });
+
+      case "vector-store":
+        if (!config.vectorStore) {
+          throw new Error("Vector store is required for vector-store memory");
+        }
+        return new VectorStoreRetrieverMemory({
+          vectorStoreRetriever: config.vectorStore.asRetriever(
+            config.k ?? DEFAULT_K
+          ),
+          ...keys,
         });
 
       case "mongodb": {
-        if (!mongoUrl)
+        if (!config.mongoUrl)
           throw new Error("MongoDB URL is required for MongoDB memory");
-        const mongoClient = new MongoClient(mongoUrl);
+        const mongoClient = new MongoClient(config.mongoUrl);
         const collection: Collection = mongoClient
           .db()
-          .collection(mongoCollectionName);
-        const embeddings = new OpenAIEmbeddings();
-        const mongoVectorStore = new MongoDBAtlasVectorSearch(embeddings, {
-          collection,
-        });
-        return new VectorStoreRetrieverMemory({
-          vectorStoreRetriever: mongoVectorStore.asRetriever(k),
-          memoryKey,
-          inputKey,
-          outputKey,
-        });
+          .collection(config.mongoCollectionName ?? "chat_history");
+        const mongoVectorStore = new MongoDBAtlasVectorSearch(
+          config.embeddings ?? new OpenAIEmbeddings(),
+          { collection, indexName: config.mongoIndexName }
+        );
+        return new DatabaseVectorStoreMemory(
+          {
+            vectorStoreRetriever: mongoVectorStore.asRetriever(
+              config.k ?? DEFAULT_K
+            ),
+            ...keys,
+          },
+          {
+            connect: async () => {
+              await mongoClient.connect();
+            },
+            close: () => mongoClient.close(),
+          }
+        );
       }
 
       case "redis": {
-        if (!redisUrl)
+        if (!config.redisUrl)
           throw new Error("Redis URL is required for Redis memory");
         const redisClient = createClient({
-          url: redisUrl,
-          password: redisPassword,
-        });
-        const redisEmbeddings = new OpenAIEmbeddings();
-        const redisVectorStore = new RedisVectorStore(redisEmbeddings, {
-          redisClient,
-          indexName: "chat_history",
-        });
-        return new VectorStoreRetrieverMemory({
-          vectorStoreRetriever: redisVectorStore.asRetriever(k),
-          memoryKey,
-          inputKey,
-          outputKey,
+          url: config.redisUrl,
+          password: config.redisPassword,
         });
+        const redisVectorStore = new RedisVectorStore(
+          config.embeddings ?? new OpenAIEmbeddings(),
+          {
+            redisClient,
+            indexName: config.redisIndexName ?? "chat_history",
+          }
+        );
+        return new DatabaseVectorStoreMemory(
+          {
+            vectorStoreRetriever: redisVectorStore.asRetriever(
+              config.k ?? DEFAULT_K
+            ),
+            ...keys,
+          },
+          {
+            connect: async () => {
+              if (!redisClient.isOpen) {
+                await redisClient.connect();
+              }
+            },
+            close: async () => {
+              if (redisClient.isOpen) {
+                await redisClient.quit();
+              }
+            },
+          }
+        );
       }
 
       case "motorhead":
         return new MotorheadMemory({
           sessionId,
-          memoryKey,
-          inputKey,
-          outputKey,
+          url: config.motorheadUrl,
+          apiKey: config.motorheadApiKey,
+          clientId: config.motorheadClientId,
+          ...keys,
+        });
+
+      case "json-file":
+        return new BufferMemory({
+          chatHistory: new JsonFileChatMessageHistory(
+            config.directory ?? ".bat/memory",
+            sessionId
+          ),
+          ...keys,
+          returnMessages,
+        });
+
+      case "sqlite":
+        if (!config.sqliteDatabase) {
+          throw new Error("SQLite database is required for sqlite memory");
+        }
+        return new BufferMemory({
+          chatHistory: new SqliteChatMessageHistory(
+            config.sqliteDatabase,
+            sessionId,
+            config.tablePrefix
+          ),
+          ...keys,
+          returnMessages,
         });
 
       default:
-        throw new Error(`Unsupported memory type: ${type}`);
+        throw new Error(
+          `Unsupported memory type: ${(config as { type: string }).type}`
+        );
+    }
+  }
+
+  /**
+   * Connects the database clients of a memory, e.g. to fail early when a
+   * database is unreachable. Memories connect on first use otherwise.
+   * @param memory Memory created by the factory
+   */
+  static async connect(memory: AgentMemory): Promise<void> {
+    for (const databaseMemory of getDatabaseMemories(memory)) {
+      await databaseMemory.connect();
+    }
+  }
+
+  /**
+   * Closes the database clients of a memory, so they do not keep the
+   * process running. Does nothing for memories without a database client.
+   * @param memory Memory created by the factory
+   */
+  static async close(memory: AgentMemory): Promise<void> {
+    for (const databaseMemory of getDatabaseMemories(memory)) {
+      await databaseMemory.close();
     }
   }
 }
@@ -0,0 +1,144 @@
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
+import { SqliteDatabase, SqliteStatement } from "../../utils/sqlite";
+import { SqliteChatMessageHistory } from "./SqliteChatMessageHistory";
+
+interface MessageRow {
+  id: number;
+  session_id: string;
+  message: string;
+}
+
+/**
+ * Stand-in for a SQLite driver, running the few statements of the history
+ * against an array of rows
+ */
+class FakeSqliteDatabase implements SqliteDatabase {
+  public rows: MessageRow[] = [];
+  public failInserts = false;
+  private snapshot?: MessageRow[];
+  private nextId = 1;
+
+  public exec(sql: string): void {
+    const statement = sql.trim();
+    if (statement === "BEGIN") {
+      this.snapshot = [...this.rows];
+    } else if (statement === "COMMIT") {
+      this.snapshot = undefined;
+    } else if (statement === "ROLLBACK") {
+      this.rows = this.snapshot ?? this.rows;
+      this.snapshot = undefined;
+    } else if (!statement.startsWith("CREATE TABLE")) {
+      throw new Error(`Unexpected statement: ${statement}`);
+    }
+  }
+
+  public prepare(sql: string): SqliteStatement {
+    const unsupported = () => {
+      throw new Error(`Unexpected use of statement: ${sql}`);
+    };
+    const statement = { run: unsupported, get: unsupported, all: unsupported };
+    if (sql.startsWith("INSERT")) {
+      return {
+        ...statement,
+        run: (sessionId, message) => {
+          if (this.failInserts) {
+            throw new Error("Disk full");
+          }
+          this.rows.push({
+            id: this.nextId++,
+            session_id: String(sessionId),
+            message: String(message),
+          });
+        },
+      };
+    }
+    if (sql.startsWith("SELECT")) {
+      return {
+        ...statement,
+        all: (sessionId) =>
+          this.rows
+            .filter((row) => row.session_id === sessionId)
+            .sort((a, b) => a.id - b.id),
+      };
+    }
+    if (sql.startsWith("DELETE")) {
+      return {
+        ...statement,
+        run: (sessionId) => {
+          this.rows = this.rows.filter((row) => row.session_id !== sessionId);
+        },
+      };
+    }
+    throw new Error(`Unexpected statement: ${sql}`);
+  }
+}
+
+describe("SqliteChatMessageHistory", () => {
+  it("keeps the messages of each session", async () => {
+    const db = new FakeSqliteDatabase();
+    await new SqliteChatMessageHistory(db, "alice").addMessages([
+      new HumanMessage("Hello"),
+      new AIMessage({ content: "Hi", additional_kwargs: { mood: "happy" } }),
+    ]);
+    await new SqliteChatMessageHistory(db, "bob").addMessage(
+      new HumanMessage("Hey")
+    );
+
+    const messages = await new SqliteChatMessageHistory(
+      db,
+      "alice"
+    ).getMessages();
+
+    expect(messages.map((message) => message._getType())).toEqual([
+      "human",
+      "ai",
+    ]);
+    expect(messages.map((message) => message.content)).toEqual(["Hello", "Hi"]);
+    expect(messages[1].additional_kwargs).toEqual({ mood: "happy" });
+  });
+
+  it("replaces and clears only the messages of its session", async () => {
+    const db = new FakeSqliteDatabase();
+    const alice = new SqliteChatMessageHistory(db, "alice");
+    const bob = new SqliteChatMessageHistory(db, "bob");
+    await alice.addMessage(new HumanMessage("Hello"));
+    await bob.addMessage(new HumanMessage("Hey"));
+
+    await alice.replaceMessages([new AIMessage("Summary")]);
+    expect(
+      (await alice.getMessages()).map((message) => message.content)
+    ).toEqual(["Summary"]);
+
+    await alice.clear();
+    await expect(alice.getMessages()).resolves.toEqual([]);
+    expect((await bob.getMessages()).map((message) => message.content)).toEqual(
+      ["Hey"]
+    );
+  });
+
+  it("keeps the old messages when replacing them fails", async () => {
+    const db = new FakeSqliteDatabase();
+    const history = new SqliteChatMessageHistory(db, "alice");
+    await history.addMessage(new HumanMessage("Hello"));
+
+    db.failInserts = true;
+    await expect(
+      history.replaceMessages([new AIMessage("Summary")])
+    ).rejects.toThrow("Disk full");
+
+    expect(
+      (await history.getMessages()).map((message) => message.content)
+    ).toEqual(["Hello"]);
+  });
+
+  it("rejects table prefixes that are not identifiers", () => {
+    expect(
+      () =>
+        new SqliteChatMessageHistory(
+          new FakeSqliteDatabase(),
+          "alice",
+          "bat; DROP TABLE x; --"
+        )
+    ).toThrow("Invalid table prefix");
+  });
+});
@@ -0,0 +1,109 @@
+import { BaseListChatMessageHistory } from "@langchain/core/chat_history";
+import {
+  BaseMessage,
+  StoredMessage,
+  mapChatMessagesToStoredMessages,
+  mapStoredMessagesToChatMessages,
+} from "@langchain/core/messages";
+import { SqliteDatabase } from "../../utils/sqlite";
+
+interface MessageRow {
+  message: string;
+}
+
+/**
+ * Keeps the chat history of a session in a SQLite database, in a table
+ * shared by all sessions
+ */
+export class SqliteChatMessageHistory extends BaseListChatMessageHistory {
+  lc_namespace = ["bat", "memory", "sqlite"];
+
+  /**
+   * @param db Open database connection
+   * @param sessionId Id of the session
+   * @param tablePrefix Prefix of the table the history creates
+   * (default: "bat_")
+   */
+  constructor(
+    private readonly db: SqliteDatabase,
+    public readonly sessionId: string,
+    private readonly tablePrefix: string = "bat_"
+  ) {
+    super();
+    if (!/^\w*$/.test(tablePrefix)) {
+      throw new Error(`Invalid table prefix: ${tablePrefix}`);
+    }
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.table} (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        message TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS ${this.table}_session
+        ON ${this.table} (session_id, id);
+    `);
+  }
+
+  private get table(): string {
+    return `${this.tablePrefix}chat_messages`;
+  }
+
+  public async getMessages(): Promise<BaseMessage[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT message FROM ${this.table} WHERE session_id = ? ORDER BY id`
+      )
+      .all(this.sessionId) as MessageRow[];
+    return mapStoredMessagesToChatMessages(
+      rows.map((row) => JSON.parse(row.message) as StoredMessage)
+    );
+  }
+
+  public async addMessage(message: BaseMessage): Promise<void> {
+    await this.addMessages([message]);
+  }
+
+  public async addMessages(messages: BaseMessage[]): Promise<void> {
+    this.insert(messages);
+  }
+
+  /**
+   * Replaces the messages of the session in a single transaction
+   * @param messages The new messages, oldest first
+   */
+  public async replaceMessages(messages: BaseMessage[]): Promise<void> {
+    this.db.exec("BEGIN");
+    try {
+      this.db
+        .prepare(`DELETE FROM ${this.table} WHERE session_id = ?`)
+        .run(this.sessionId);
+      this.insert(messages);
+      this.db.exec("COMMIT");
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  /**
+   * Inserts messages of the session
+   * @param messages Messages to insert, oldest first
+   */
+  private insert(messages: BaseMessage[]): void {
+    const insert = this.db.prepare(
+      `INSERT INTO ${this.table} (session_id, message, created_at)
+      VALUES (?, ?, ?)`
+    );
+    const now = Date.now();
+    for (const message of mapChatMessagesToStoredMessages(messages)) {
+      insert.run(this.sessionId, JSON.stringify(message), now);
+    }
+  }
+
+  public async clear(): Promise<void> {
+    this.db
+      .prepare(`DELETE FROM ${this.table} WHERE session_id = ?`)
+      .run(this.sessionId);
+  }
+}
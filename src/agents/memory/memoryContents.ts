@@ -0,0 +1,239 @@
+import { BaseChatMessageHistory } from "@langchain/core/chat_history";
+import {
+  BaseMessage,
+  StoredMessage,
+  SystemMessage,
+  isBaseMessage,
+} from "@langchain/core/messages";
+import { BaseMemory, BufferMemory } from "langchain/memory";
+
+/**
+ * Memories of a session in the portable export format
+ */
+export interface SessionMemoryExport {
+  sessionId: string;
+  messages: StoredMessage[];
+}
+
+/**
+ * Portable JSON export of the memory of an agent
+ */
+export interface MemoryExport {
+  version: 1;
+  agentRole: string;
+  /** ISO timestamp of the export */
+  exportedAt: string;
+  sessions: SessionMemoryExport[];
+}
+
+/**
+ * Memory keeping the conversation in a chat history, like BufferMemory
+ */
+interface ChatMemory {
+  chatHistory: BaseChatMessageHistory;
+  clear?(): Promise<void>;
+}
+
+/**
+ * Chat history that can replace its messages in a single write, like
+ * JsonFileChatMessageHistory and SqliteChatMessageHistory
+ */
+interface ReplaceableChatMessageHistory {
+  replaceMessages(messages: BaseMessage[]): Promise<void>;
+}
+
+/**
+ * Checks whether a chat history can replace its messages in a single write
+ * @param history The chat history
+ */
+function isReplaceable(
+  history: BaseChatMessageHistory
+): history is BaseChatMessageHistory & ReplaceableChatMessageHistory {
+  return (
+    typeof (history as Partial<ReplaceableChatMessageHistory>)
+      .replaceMessages === "function"
+  );
+}
+
+/**
+ * Adds messages to a chat history one by one
+ * @param history The chat history
+ * @param messages Messages to add, oldest first
+ */
+async function addHistoryMessages(
+  history: BaseChatMessageHistory,
+  messages: BaseMessage[]
+): Promise<void> {
+  for (const message of messages) {
+    await history.addMessage(message);
+  }
+}
+
+/**
+ * Gets the chat memories of a memory, looking into the memories of a
+ * CombinedMemory
+ * @param memory The memory
+ * @returns The chat memories, or an empty list if the memory keeps no
+ * chat history, e.g. a vector store memory
+ */
+function getChatMemories(memory: BaseMemory): ChatMemory[] {
+  const { memories } = memory as { memories?: BaseMemory[] };
+  if (Array.isArray(memories)) {
+    return memories.flatMap(getChatMemories);
+  }
+  return "chatHistory" in memory ? [memory as unknown as ChatMemory] : [];
+}
+
+/**
+ * Gets the chat memories of a memory, which must have at least one
+ * @param memory The memory
+ * @throws Error if the memory keeps no chat history
+ */
+function requireChatMemories(memory: BaseMemory): ChatMemory[] {
+  const memories = getChatMemories(memory);
+  if (memories.length === 0) {
+    throw new Error(
+      `${memory.constructor.name} does not keep a chat history that can be inspected`
+    );
+  }
+  return memories;
+}
+
+/**
+ * Checks whether a memory loads every message it keeps, so what it loads
+ * grows without bound, like the buffer, json-file and sqlite memories.
+ * Windowed, token-limited, summarizing and combined memories already bound
+ * what they load.
+ * @param memory The memory
+ */
+export function loadsEveryMessage(memory: BaseMemory): boolean {
+  return memory instanceof BufferMemory;
+}
+
+/**
+ * Gets the messages a memory remembers
+ * @param memory The memory
+ * @returns Promise with the messages, oldest first
+ * @throws Error if the memory keeps no chat history
+ */
+export async function getMemoryMessages(
+  memory: BaseMemory
+): Promise<BaseMessage[]> {
+  const [chatMemory] = requireChatMemories(memory);
+  return chatMemory.chatHistory.getMessages();
+}
+
+/**
+ * Loads the context a memory gives for an input as messages. Every
+ * variable of the memory is included, in the order of the memories of a
+ * CombinedMemory; texts, such as the exchanges a vector store memory
+ * retrieves, become system messages.
+ * @param memory The memory
+ * @param input The input, which vector store memories search with
+ * @returns Promise with the messages
+ */
+export async function loadMemoryContext(
+  memory: BaseMemory,
+  input: string
+): Promise<BaseMessage[]> {
+  const variables = await memory.loadMemoryVariables({ input });
+  return Object.values(variables).flatMap((value): BaseMessage[] => {
+    if (Array.isArray(value)) {
+      // Summaries are empty until there is something to summarize
+      return value.filter(
+        (message): message is BaseMessage =>
+          isBaseMessage(message) && message.content !== ""
+      );
+    }
+    return typeof value === "string" && value.trim() !== ""
+      ? [new SystemMessage(value)]
+      : [];
+  });
+}
+
+/**
+ * Makes a memory forget everything, including summaries
+ * @param memory The memory
+ * @throws Error if the memory keeps no chat history
+ */
+export async function clearMemory(memory: BaseMemory): Promise<void> {
+  for (const chatMemory of requireChatMemories(memory)) {
+    await (chatMemory.clear
+      ? chatMemory.clear()
+      : chatMemory.chatHistory.clear());
+  }
+}
+
+/**
+ * Replaces the messages a memory remembers. Chat histories that cannot
+ * replace their messages in a single write get their previous messages
+ * back if adding the new ones fails, so a failure never empties them.
+ * Summarizing memories keep their summary.
+ * @param memory The memory
+ * @param messages The new messages, oldest first
+ * @throws Error if the memory keeps no chat history or the write fails
+ */
+export async function replaceMemoryMessages(
+  memory: BaseMemory,
+  messages: BaseMessage[]
+): Promise<void> {
+  for (const { chatHistory } of requireChatMemories(memory)) {
+    if (isReplaceable(chatHistory)) {
+      await chatHistory.replaceMessages(messages);
+      continue;
+    }
+
+    const previous = await chatHistory.getMessages();
+    try {
+      await chatHistory.clear();
+      await addHistoryMessages(chatHistory, messages);
+    } catch (error) {
+      try {
+        await chatHistory.clear();
+        await addHistoryMessages(chatHistory, previous);
+      } catch {
+        // The error of the replacement is the one worth reporting
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Checks that a value is a memory export
+ * @param value Parsed JSON
+ * @returns The memory export
+ * @throws Error describing what is invalid
+ */
+export function validateMemoryExport(value: unknown): MemoryExport {
+  const data = value as Partial<MemoryExport> | null;
+  if (typeof data !== "object" || data === null) {
+    throw new Error("Invalid memory export: must be an object");
+  }
+  if (data.version !== 1) {
+    throw new Error(
+      `Invalid memory export: unsupported version ${JSON.stringify(
+        data.version
+      )}`
+    );
+  }
+  if (!Array.isArray(data.sessions)) {
+    throw new Error("Invalid memory export: sessions must be an array");
+  }
+  data.sessions.forEach((session, index) => {
+    if (
+      typeof session?.sessionId !== "string" ||
+      !Array.isArray(session.messages) ||
+      session.messages.some(
+        (message) =>
+          typeof message?.type !== "string" ||
+          typeof message.data !== "object"
+      )
+    ) {
+      throw new Error(
+        `Invalid memory export: sessions[${index}] must have a sessionId and stored messages`
+      );
+    }
+  });
+  return data as MemoryExport;
+}
@@ -0,0 +1,64 @@
+/**
+ * When an action needs human approval: always, never, or only when the
+ * tool or task is flagged as destructive
+ */
+export type ApprovalPolicy = "always" | "never" | "destructive";
+
+/**
+ * Fields shared by every approval request
+ */
+interface BaseApprovalRequest {
+  id: string;
+  agentRole: string;
+  taskId?: string;
+  /** Whether the tool or task is flagged as destructive */
+  destructive: boolean;
+}
+
+/**
+ * Request to approve a tool call the model selected
+ */
+export interface ToolApprovalRequest extends BaseApprovalRequest {
+  kind: "tool";
+  tool: string;
+  /** Proposed tool input */
+  input: unknown;
+}
+
+/**
+ * Request to approve the draft output of a task
+ */
+export interface OutputApprovalRequest extends BaseApprovalRequest {
+  kind: "output";
+  taskId: string;
+  description: string;
+  /** Draft output */
+  output: string;
+}
+
+export type ApprovalRequest = ToolApprovalRequest | OutputApprovalRequest;
+
+/**
+ * Answer to an approval request. An edit replaces the tool input or the
+ * draft output with the given value and approves it.
+ */
+export type ApprovalDecision =
+  | { action: "approve" }
+  | { action: "edit"; value: unknown }
+  | { action: "reject"; reason?: string };
+
+/**
+ * Decides on approval requests, e.g. by asking a person
+ */
+export interface ApprovalHandler {
+  /**
+   * Waits for a decision on a request
+   * @param request The request
+   * @param signal Signal aborted when the execution waiting for the decision stops
+   * @returns Promise with the decision
+   */
+  requestApproval(
+    request: ApprovalRequest,
+    signal?: AbortSignal
+  ): Promise<ApprovalDecision>;
+}
@@ -0,0 +1,19 @@
+import { NonRetryableError } from "../tasks/NonRetryableError";
+import { ApprovalRequest } from "./ApprovalHandler";
+
+/**
+ * Error raised when a reviewer rejects a tool call or a task output
+ */
+export class ApprovalRejectedError extends NonRetryableError {
+  constructor(
+    public readonly request: ApprovalRequest,
+    public readonly reason?: string
+  ) {
+    super(
+      `${
+        request.kind === "tool" ? `Call to tool ${request.tool}` : "Task output"
+      } was rejected${reason ? `: ${reason}` : ""}`
+    );
+    this.name = "ApprovalRejectedError";
+  }
+}
@@ -0,0 +1,98 @@
+import { createInterface } from "readline/promises";
+import {
+  ApprovalDecision,
+  ApprovalHandler,
+  ApprovalRequest,
+} from "./ApprovalHandler";
+
+/**
+ * Options for the console approval handler
+ */
+export interface ConsoleApprovalHandlerOptions {
+  /** Stream answers are read from (default: process.stdin) */
+  input?: NodeJS.ReadableStream;
+  /** Stream prompts are written to (default: process.stdout) */
+  output?: NodeJS.WritableStream;
+}
+
+/**
+ * Formats an approval request for the console
+ * @param request The request
+ * @returns Description of the request
+ */
+function describeRequest(request: ApprovalRequest): string {
+  const task = request.taskId ? ` in task ${request.taskId}` : "";
+  const flag = request.destructive ? " [destructive]" : "";
+  if (request.kind === "tool") {
+    const input = JSON.stringify(request.input, null, 2);
+    return `\n${request.agentRole} wants to call ${request.tool}${task}${flag} with:\n${input}\n`;
+  }
+  return `\n${request.agentRole} finished task ${request.taskId}${flag}: ${request.description}\nDraft output:\n${request.output}\n`;
+}
+
+/**
+ * Asks for approval on the console. Requests are asked one at a time.
+ */
+export class ConsoleApprovalHandler implements ApprovalHandler {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly options: ConsoleApprovalHandlerOptions = {}) {}
+
+  public requestApproval(
+    request: ApprovalRequest,
+    signal?: AbortSignal
+  ): Promise<ApprovalDecision> {
+    const answer = this.queue.then(() => this.ask(request, signal));
+    this.queue = answer.catch(() => undefined);
+    return answer;
+  }
+
+  /**
+   * Asks for a decision until a valid one is given
+   * @param request The request
+   * @param signal Optional signal to stop asking
+   * @returns Promise with the decision
+   */
+  private async ask(
+    request: ApprovalRequest,
+    signal?: AbortSignal
+  ): Promise<ApprovalDecision> {
+    const output = this.options.output ?? process.stdout;
+    const rl = createInterface({
+      input: this.options.input ?? process.stdin,
+      output,
+    });
+    const question = (query: string) =>
+      signal ? rl.question(query, { signal }) : rl.question(query);
+
+    try {
+      output.write(describeRequest(request));
+      for (;;) {
+        const answer = (await question("Approve, edit or reject? [a/e/r] "))
+          .trim()
+          .toLowerCase();
+
+        if (answer === "a" || answer === "approve") {
+          return { action: "approve" };
+        }
+        if (answer === "r" || answer === "reject") {
+          const reason = (await question("Reason (optional): ")).trim();
+          return { action: "reject", reason: reason || undefined };
+        }
+        if (answer === "e" || answer === "edit") {
+          if (request.kind === "output") {
+            return { action: "edit", value: await question("New output: ") };
+          }
+          const input = await question("New input (JSON): ");
+          try {
+            return { action: "edit", value: JSON.parse(input) };
+          } catch {
+            output.write("The input is not valid JSON.\n");
+          }
+        }
+      }
+    } finally {
+      rl.close();
+    }
+  }
+}
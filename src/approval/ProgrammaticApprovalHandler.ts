@@ -0,0 +1,105 @@
+import { getAbortError } from "../utils/abort";
+import {
+  ApprovalDecision,
+  ApprovalHandler,
+  ApprovalRequest,
+} from "./ApprovalHandler";
+
+/**
+ * Decides on an approval request in code
+ */
+export type ApprovalCallback = (
+  request: ApprovalRequest
+) => ApprovalDecision | Promise<ApprovalDecision>;
+
+interface PendingApproval {
+  request: ApprovalRequest;
+  resolve: (decision: ApprovalDecision) => void;
+}
+
+/**
+ * Approval handler driven by code. With a callback, every request is
+ * decided by it. Otherwise requests stay pending until approve(), edit()
+ * or reject() is called with their id, e.g. from a web UI listening for
+ * "approval_requested" events.
+ */
+export class ProgrammaticApprovalHandler implements ApprovalHandler {
+  private readonly pending = new Map<string, PendingApproval>();
+
+  constructor(private readonly decide?: ApprovalCallback) {}
+
+  public async requestApproval(
+    request: ApprovalRequest,
+    signal?: AbortSignal
+  ): Promise<ApprovalDecision> {
+    if (this.decide) {
+      return this.decide(request);
+    }
+
+    return new Promise<ApprovalDecision>((resolve, reject) => {
+      const onAbort = () => {
+        this.pending.delete(request.id);
+        reject(getAbortError(signal!));
+      };
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.pending.set(request.id, {
+        request,
+        resolve: (decision) => {
+          signal?.removeEventListener("abort", onAbort);
+          this.pending.delete(request.id);
+          resolve(decision);
+        },
+      });
+    });
+  }
+
+  /**
+   * Gets the requests waiting for a decision
+   */
+  public getPending(): ApprovalRequest[] {
+    return [...this.pending.values()].map((pending) => pending.request);
+  }
+
+  /**
+   * Decides on a pending request
+   * @param requestId Id of the request
+   * @param decision The decision
+   */
+  public resolve(requestId: string, decision: ApprovalDecision): void {
+    const pending = this.pending.get(requestId);
+    if (!pending) {
+      throw new Error(`No pending approval request with id: ${requestId}`);
+    }
+    pending.resolve(decision);
+  }
+
+  /**
+   * Approves a pending request
+   * @param requestId Id of the request
+   */
+  public approve(requestId: string): void {
+    this.resolve(requestId, { action: "approve" });
+  }
+
+  /**
+   * Approves a pending request with a new tool input or output
+   * @param requestId Id of the request
+   * @param value Tool input or output to use instead
+   */
+  public edit(requestId: string, value: unknown): void {
+    this.resolve(requestId, { action: "edit", value });
+  }
+
+  /**
+   * Rejects a pending request
+   * @param requestId Id of the request
+   * @param reason Optional reason, shown to the agent or in the task error
+   */
+  public reject(requestId: string, reason?: string): void {
+    this.resolve(requestId, { action: "reject", reason });
+  }
+}
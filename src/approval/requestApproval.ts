@@ -0,0 +1,87 @@
+import { NonRetryableError } from "../tasks/NonRetryableError";
+import {
+  ExecutionEventListener,
+  createEvent,
+} from "../events/ExecutionEvent";
+import { abortable } from "../utils/abort";
+import {
+  ApprovalDecision,
+  ApprovalHandler,
+  ApprovalPolicy,
+  ApprovalRequest,
+} from "./ApprovalHandler";
+import { ApprovalRejectedError } from "./ApprovalRejectedError";
+
+/**
+ * Checks whether a policy requires approval
+ * @param policy The policy
+ * @param destructive Whether the tool or task is flagged as destructive
+ */
+export function requiresApproval(
+  policy: ApprovalPolicy,
+  destructive: boolean
+): boolean {
+  return policy === "always" || (policy === "destructive" && destructive);
+}
+
+/**
+ * Pauses until the handler decides on a request, emitting an event when
+ * the request is made and when it is resolved
+ * @param handler Approval handler, if one is configured
+ * @param request The request
+ * @param value Tool input or draft output awaiting approval
+ * @param emit Receives the approval events
+ * @param signal Optional signal to stop waiting
+ * @returns Promise with the approved value: the original or edited one
+ * @throws ApprovalRejectedError if the request is rejected
+ */
+export async function requestApproval(
+  handler: ApprovalHandler | undefined,
+  request: ApprovalRequest,
+  value: unknown,
+  emit: ExecutionEventListener,
+  signal?: AbortSignal
+): Promise<unknown> {
+  if (!handler) {
+    throw new NonRetryableError(
+      `${
+        request.kind === "tool" ? `Tool ${request.tool}` : "Task output"
+      } requires approval, but no approval handler is configured`
+    );
+  }
+
+  emit(
+    createEvent({
+      type: "approval_requested",
+      taskId: request.taskId,
+      agentRole: request.agentRole,
+      request,
+    })
+  );
+  const decision: ApprovalDecision = await abortable(
+    handler.requestApproval(request, signal),
+    signal
+  );
+  emit(
+    createEvent({
+      type: "approval_resolved",
+      taskId: request.taskId,
+      agentRole: request.agentRole,
+      requestId: request.id,
+      decision,
+    })
+  );
+
+  switch (decision.action) {
+    case "approve":
+      return value;
+    case "edit":
+      return decision.value;
+    case "reject":
+      throw new ApprovalRejectedError(request, decision.reason);
+    default:
+      throw new Error(
+        `Unknown approval action: ${(decision as { action: string }).action}`
+      );
+  }
+}
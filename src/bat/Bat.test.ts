@@ -0,0 +1,456 @@
+import { Bat } from "./Bat";
+import { Agent } from "../agents/Agent";
+import { Manager } from "../agents/Manager";
+import { InMemoryRunStateStore } from "../state/InMemoryRunStateStore";
+import { FakeChatModel } from "../testing/FakeChatModel";
+import { toolCallResponse } from "../testing/fakeResponses";
+import { Logger } from "../utils/Logger";
+
+const logger = new Logger({ transports: [] });
+
+function createAgent(role: string, model: FakeChatModel): Agent {
+  return new Agent({
+    role,
+    goal: `Work as a ${role}`,
+    backstory: "Experienced",
+    model,
+    logger,
+  });
+}
+
+describe("Bat.kickoff", () => {
+  it("runs tasks after their dependencies, passing on their output", async () => {
+    const researcherModel = new FakeChatModel({
+      defaultResponse: "Bats navigate by echolocation",
+    });
+    const writerModel = new FakeChatModel({
+      responses: [
+        {
+          prompt: "Bats navigate by echolocation",
+          response: "An article about echolocation",
+          times: Infinity,
+        },
+      ],
+    });
+    const bat = new Bat(
+      [
+        createAgent("Researcher", researcherModel),
+        createAgent("Writer", writerModel),
+      ],
+      { logger }
+    );
+    bat.addTask({
+      id: "write",
+      description: "Write an article",
+      agentRole: "Writer",
+      dependsOn: ["research"],
+    });
+    bat.addTask({
+      id: "research",
+      description: "Research bats",
+      agentRole: "Researcher",
+    });
+
+    const results = await bat.kickoff();
+
+    expect(results.map((result) => [result.taskId, result.status])).toEqual([
+      ["write", "completed"],
+      ["research", "completed"],
+    ]);
+    expect(results[0].output).toBe("An article about echolocation");
+    expect(results[1].output).toBe("Bats navigate by echolocation");
+  });
+
+  it("skips tasks whose dependencies failed", async () => {
+    const bat = new Bat(
+      [
+        // No scripted response: every call fails
+        createAgent("Researcher", new FakeChatModel()),
+        createAgent("Writer", new FakeChatModel({ defaultResponse: "Done" })),
+      ],
+      { logger }
+    );
+    bat.addTask({
+      id: "research",
+      description: "Research bats",
+      agentRole: "Researcher",
+    });
+    bat.addTask({
+      id: "write",
+      description: "Write an article",
+      agentRole: "Writer",
+      dependsOn: ["research"],
+    });
+
+    const results = await bat.kickoff();
+
+    expect(results.map((result) => result.status)).toEqual([
+      "failed",
+      "skipped",
+    ]);
+  });
+
+  it("rejects a kickoff while another run is in progress", async () => {
+    const bat = new Bat(
+      [createAgent("Writer", new FakeChatModel({ defaultResponse: "Done" }))],
+      { logger }
+    );
+    bat.addTask({
+      id: "write",
+      description: "Write an article",
+      agentRole: "Writer",
+    });
+
+    const first = bat.kickoff();
+    await expect(bat.kickoff()).rejects.toThrow(
+      "A run of this Bat is already in progress"
+    );
+    await expect(first).resolves.toHaveLength(1);
+    await expect(bat.kickoff()).resolves.toHaveLength(1);
+  });
+});
+
+describe("Bat blackboard", () => {
+  it("shares what agents write on the blackboard with later tasks", async () => {
+    const researcher = new Agent({
+      role: "Researcher",
+      goal: "Research topics",
+      backstory: "Curious",
+      model: new FakeChatModel({
+        toolCalling: true,
+        responses: [
+          toolCallResponse("blackboard_write", {
+            key: "bat species",
+            value: "There are over 1400 bat species",
+          }),
+          "Research done",
+        ],
+      }),
+      blackboardTools: true,
+      logger,
+    });
+    const writerModel = new FakeChatModel({ defaultResponse: "An article" });
+    const bat = new Bat([researcher, createAgent("Writer", writerModel)], {
+      logger,
+    });
+    bat.addTask({
+      id: "research",
+      description: "Research bats",
+      agentRole: "Researcher",
+    });
+    bat.addTask({
+      id: "write",
+      description: "Write about the number of bat species",
+      agentRole: "Writer",
+      dependsOn: ["research"],
+    });
+
+    await bat.kickoff();
+
+    expect(bat.getBlackboard().read("Writer", "bat species")).toEqual(
+      expect.objectContaining({ author: "Researcher", taskId: "research" })
+    );
+    const calls = writerModel.getCalls();
+    const prompt = calls[calls.length - 1].prompt;
+    expect(prompt).toContain("Shared notes from the team");
+    expect(prompt).toContain(
+      "[fact] bat species (from Researcher): There are over 1400 bat species"
+    );
+  });
+});
+
+describe("Bat budget", () => {
+  it("aborts a run once it exceeds its budget", async () => {
+    const bat = new Bat(
+      [createAgent("Writer", new FakeChatModel({ defaultResponse: "Done" }))],
+      { logger, budget: { maxTokens: 1 } }
+    );
+    bat.addTask({
+      id: "outline",
+      description: "Outline an article",
+      agentRole: "Writer",
+    });
+    bat.addTask({
+      id: "write",
+      description: "Write an article",
+      agentRole: "Writer",
+      dependsOn: ["outline"],
+    });
+
+    const results = await bat.kickoff();
+
+    expect(results.map((result) => result.status)).toEqual([
+      "cancelled",
+      "cancelled",
+    ]);
+    expect(results[0].error).toContain("Usage budget exceeded");
+    const usage = bat.getUsage(bat.getLastRunId());
+    expect(usage.total.calls).toBe(1);
+    expect(usage.byTask.outline.totalTokens).toBeGreaterThan(1);
+  });
+});
+
+describe("Bat.resume", () => {
+  it("reuses completed tasks unless they changed", async () => {
+    const store = new InMemoryRunStateStore();
+    const createBat = (model: FakeChatModel, writeDescription: string) => {
+      const bat = new Bat([createAgent("Writer", model)], {
+        logger,
+        stateStore: store,
+      });
+      bat.addTask({
+        id: "outline",
+        description: "Outline an article",
+        agentRole: "Writer",
+      });
+      bat.addTask({
+        id: "write",
+        description: writeDescription,
+        agentRole: "Writer",
+      });
+      return bat;
+    };
+
+    await createBat(
+      new FakeChatModel({ defaultResponse: "First" }),
+      "Write an article"
+    ).kickoff();
+    const [run] = await store.listRuns();
+    // Resuming is meant for interrupted runs
+    await store.saveRun({ ...run, status: "running" });
+
+    const model = new FakeChatModel({ defaultResponse: "Second" });
+    const results = await createBat(model, "Write a poem").resume(run.runId);
+
+    expect(results.map((result) => result.output)).toEqual([
+      "First",
+      "Second",
+    ]);
+    expect(
+      model.getCalls().every((call) => call.prompt.includes("Write a poem"))
+    ).toBe(true);
+  });
+
+  it("runs tasks again when a task they depend on runs again", async () => {
+    const store = new InMemoryRunStateStore();
+    const createBat = (
+      model: FakeChatModel,
+      outlineDescription: string,
+      writeDependsOn: string[]
+    ) => {
+      const bat = new Bat([createAgent("Writer", model)], {
+        logger,
+        stateStore: store,
+      });
+      bat.addTask({
+        id: "write",
+        description: "Write an article",
+        agentRole: "Writer",
+        dependsOn: writeDependsOn,
+      });
+      bat.addTask({
+        id: "outline",
+        description: outlineDescription,
+        agentRole: "Writer",
+      });
+      bat.addTask({
+        id: "publish",
+        description: "Publish the article",
+        agentRole: "Writer",
+        dependsOn: ["write"],
+      });
+      return bat;
+    };
+    const resume = async (
+      outlineDescription: string,
+      writeDependsOn: string[]
+    ) => {
+      const [run] = await store.listRuns();
+      await store.saveRun({ ...run, status: "running" });
+      return createBat(
+        new FakeChatModel({ defaultResponse: "Second" }),
+        outlineDescription,
+        writeDependsOn
+      ).resume(run.runId);
+    };
+
+    await createBat(
+      new FakeChatModel({ defaultResponse: "First" }),
+      "Outline an article",
+      ["outline"]
+    ).kickoff();
+
+    const changedOutline = await resume("Outline a poem", ["outline"]);
+    expect(changedOutline.map((result) => result.output)).toEqual([
+      "Second",
+      "Second",
+      "Second",
+    ]);
+
+    await store.deleteRun((await store.listRuns())[0].runId);
+    await createBat(
+      new FakeChatModel({ defaultResponse: "First" }),
+      "Outline an article",
+      ["outline"]
+    ).kickoff();
+
+    const changedDependencies = await resume("Outline an article", []);
+    expect(changedDependencies.map((result) => result.output)).toEqual([
+      "Second",
+      "First",
+      "Second",
+    ]);
+    const [run] = await store.listRuns();
+    expect((await store.loadRun(run.runId))?.tasks.write.dependsOn).toEqual(
+      []
+    );
+  });
+});
+
+describe("Bat.kickoffObjective", () => {
+  const plan = (tasks: Record<string, unknown>[]) => JSON.stringify({ tasks });
+  const review = (approved: boolean, feedback: string, output = "") =>
+    JSON.stringify({ approved, feedback, output });
+
+  it("re-plans with new ids after a rejected review", async () => {
+    const managerModel = new FakeChatModel({
+      responses: [
+        {
+          prompt: "Break the objective down",
+          response: plan([
+            {
+              id: "research",
+              description: "Research bats",
+              agentRole: "Researcher",
+            },
+          ]),
+        },
+        {
+          prompt: "is already used by a completed task",
+          response: plan([
+            {
+              id: "summary",
+              description: "Summarize the research",
+              agentRole: "Researcher",
+              dependsOn: ["research"],
+            },
+          ]),
+        },
+        {
+          prompt: "Plan the additional tasks",
+          response: plan([
+            {
+              id: "research",
+              description: "Research more",
+              agentRole: "Researcher",
+            },
+          ]),
+        },
+        {
+          prompt: "Do these results achieve the objective",
+          response: review(false, "Add a summary"),
+        },
+        {
+          prompt: "Do these results achieve the objective",
+          response: review(true, "", "Bats echolocate, in short"),
+        },
+      ],
+    });
+    const bat = new Bat(
+      [
+        createAgent(
+          "Researcher",
+          new FakeChatModel({ defaultResponse: "Bats echolocate" })
+        ),
+      ],
+      { logger, manager: createAgent("Manager", managerModel) }
+    );
+
+    const result = await bat.kickoffObjective("Explain how bats navigate");
+
+    expect(result.status).toBe("completed");
+    expect(result.output).toBe("Bats echolocate, in short");
+    expect(result.rounds).toBe(2);
+    expect(result.tasks.map((task) => task.taskId)).toEqual([
+      "research",
+      "summary",
+    ]);
+    expect(
+      managerModel
+        .getCalls()
+        .some((call) =>
+          call.prompt.includes(
+            'Task id "research" is already used by a completed task'
+          )
+        )
+    ).toBe(true);
+  });
+
+  it("adds no task of a plan that is invalid", async () => {
+    const bat = new Bat(
+      [createAgent("Researcher", new FakeChatModel({ defaultResponse: "Ok" }))],
+      {
+        logger,
+        manager: createAgent("Manager", new FakeChatModel()),
+      }
+    );
+    jest.spyOn(Manager.prototype, "plan").mockResolvedValueOnce([
+      {
+        id: "research",
+        description: "Research bats",
+        agentRole: "Researcher",
+        dependsOn: [],
+      },
+      {
+        id: "write",
+        description: "Write an article",
+        agentRole: "Researcher",
+        dependsOn: ["outline"],
+      },
+    ]);
+
+    const result = await bat.kickoffObjective("Write about bats");
+
+    expect(result.status).toBe("failed");
+    expect(result.error).toBe(
+      'Planned task "write" depends on "outline", which is not an earlier task'
+    );
+    expect(() =>
+      bat.addTask({
+        id: "research",
+        description: "Research bats",
+        agentRole: "Researcher",
+      })
+    ).not.toThrow();
+  });
+
+  it("limits the size of plans with maxPlannedTasks", async () => {
+    const managerModel = new FakeChatModel({
+      responses: [
+        plan([
+          { id: "a", description: "Research", agentRole: "Researcher" },
+          { id: "b", description: "Write", agentRole: "Researcher" },
+        ]),
+        plan([{ id: "a", description: "Research", agentRole: "Researcher" }]),
+        review(true, "", "Done"),
+      ],
+    });
+    const bat = new Bat(
+      [createAgent("Researcher", new FakeChatModel({ defaultResponse: "Ok" }))],
+      {
+        logger,
+        manager: createAgent("Manager", managerModel),
+        maxPlannedTasks: 1,
+      }
+    );
+
+    const result = await bat.kickoffObjective("Write about bats");
+
+    expect(result.tasks).toHaveLength(1);
+    expect(managerModel.getCalls()[0].prompt).toContain("at most 1 tasks");
+    expect(managerModel.getCalls()[1].prompt).toContain("Plan at most 1 tasks");
+    expect(() => new Bat([], { maxPlannedTasks: 0 })).toThrow(
+      "maxPlannedTasks must be at least 1"
+    );
+  });
+});
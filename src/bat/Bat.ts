@@ -1,25 +1,282 @@
-import { Agent } from "../agents/Agent";
-import { Task, TaskPriority, TaskRetryConfig } from "../tasks/Task";
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import { Agent, ExecutionContext } from "../agents/Agent";
+import { Manager, PlannedTask } from "../agents/Manager";
+import {
+  Task,
+  TaskDependencyResult,
+  TaskPriority,
+  TaskResult,
+  TaskRetryConfig,
+} from "../tasks/Task";
+import { TaskOutputSchema } from "../tasks/TaskOutputSchema";
 import { Logger } from "../utils/Logger";
+import {
+  TokenUsage,
+  addTokenUsage,
+  emptyTokenUsage,
+} from "../usage/TokenUsage";
+import { ExecutionEvent, createEvent } from "../events/ExecutionEvent";
+import { streamEvents } from "../events/EventChannel";
+import { linkAbortSignal, throwIfAborted } from "../utils/abort";
+import { RateLimitConfig, RateLimiter } from "../scheduling/RateLimiter";
+import { Tracer } from "@opentelemetry/api";
+import {
+  PriceTable,
+  UsageBudget,
+  UsageSummary,
+  UsageTracker,
+} from "../usage/UsageTracker";
+import { BudgetExceededError } from "../usage/BudgetExceededError";
+import {
+  TraceContext,
+  getTracer,
+  recordSpanError,
+  startSpan,
+} from "../utils/tracing";
+import { RunState, RunStateStore, RunStatus } from "../state/RunStateStore";
+import { RunCheckpointer } from "../state/RunCheckpointer";
+import { ResponseCache } from "../cache/ResponseCache";
+import { Blackboard, getTaskOutputKey } from "../blackboard/Blackboard";
+import {
+  ApprovalHandler,
+  ApprovalPolicy,
+} from "../approval/ApprovalHandler";
 
 /**
  * Interface for task creation parameters
  */
 export interface TaskParams {
+  id?: string;
   description: string;
   agentRole: string;
   priority?: TaskPriority;
   timeoutMs?: number;
   retryConfig?: TaskRetryConfig;
+  dependsOn?: (string | Task)[];
+  outputSchema?: TaskOutputSchema;
+  /** When the draft output needs approval before the task completes (default: "never") */
+  outputApproval?: ApprovalPolicy;
+  /** Flags the task as destructive for the "destructive" output approval policy */
+  destructive?: boolean;
+  /** Approval policies per tool name for this task, overriding the agent's */
+  toolApproval?: Record<string, ApprovalPolicy>;
+  /** Id of the conversation session whose memory the agent uses */
+  sessionId?: string;
 }
 
 /**
- * Orchestrates multiple agents and tasks
+ * Options controlling how a Bat schedules tasks
  */
-export class Bat {
+export interface BatOptions {
+  /** Maximum number of tasks running at the same time */
+  maxConcurrency?: number;
+  /** Maximum number of running tasks per agent role */
+  maxConcurrencyPerAgent?: Record<string, number>;
+  /** Maximum number of running tasks per model name */
+  maxConcurrencyPerModel?: Record<string, number>;
+  /** Rate limits shared by all model requests */
+  rateLimit?: RateLimitConfig;
+  /** Rate limits per model name, applied on top of the shared limits */
+  modelRateLimits?: Record<string, RateLimitConfig>;
+  /** Agent that plans, assigns and reviews the work of kickoffObjective */
+  manager?: Agent;
+  /** Maximum number of times the manager may re-plan an objective (default: 2) */
+  maxReplans?: number;
+  /** Maximum number of subtasks in each plan of the manager (default: 8) */
+  maxPlannedTasks?: number;
+  /** Logger for this Bat's runs (default: a new console logger) */
+  logger?: Logger;
+  /** OpenTelemetry tracer for this Bat's runs (default: the global provider) */
+  tracer?: Tracer;
+  /** Model prices used to estimate the cost of each run */
+  prices?: PriceTable;
+  /** Usage limits per run; a run exceeding them is aborted */
+  budget?: UsageBudget;
+  /** Store where kickoff checkpoints the progress of its runs, for resume */
+  stateStore?: RunStateStore;
+  /** Workflow saved with the checkpoints of runs, e.g. the path of its file */
+  workflow?: string;
+  /** Decides on tool calls and task outputs that need approval */
+  approvalHandler?: ApprovalHandler;
+  /** Cache of model responses and tool results shared by the agents */
+  cache?: ResponseCache;
+  /**
+   * Blackboard shared by the agents, where the outputs of completed tasks
+   * are kept (default: a new, empty blackboard)
+   */
+  blackboard?: Blackboard;
+}
+
+/**
+ * Result of an objective run by the manager
+ */
+export interface ObjectiveResult {
+  objective: string;
+  status: "completed" | "failed" | "cancelled";
+  output: string;
+  error?: string;
+  rounds: number;
+  tasks: TaskResult[];
+  tokenUsage: TokenUsage;
+  cost: number;
+}
+
+/**
+ * Default maximum number of re-plans of an objective
+ */
+const DEFAULT_MAX_REPLANS = 2;
+
+/**
+ * Orchestrates multiple agents and tasks.
+ * Emits every execution event under its type (e.g. "task_finished")
+ * and under "event".
+ */
+export class Bat extends EventEmitter {
   private readonly tasks: Task[] = [];
+  private readonly dependencies = new Map<string, string[]>();
+  private readonly taskControllers = new Map<string, AbortController>();
+  private readonly cancelledTasks = new Set<string>();
+  private runController?: AbortController;
+  private readonly rateLimiter?: RateLimiter;
+  private readonly modelRateLimiters = new Map<string, RateLimiter>();
+  private readonly manager?: Manager;
+  private readonly logger: Logger;
+  private runLogger?: Logger;
+  private readonly tracer: Tracer;
+  private runTrace?: TraceContext;
+  private readonly usageTracker: UsageTracker;
+  private runUsage?: UsageTracker;
+  private readonly blackboard: Blackboard;
+  private lastRunId?: string;
+
+  constructor(
+    private readonly agents: Agent[],
+    private readonly options: BatOptions = {}
+  ) {
+    super();
+    this.logger = options.logger ?? new Logger();
+    this.tracer = getTracer(options.tracer);
+    this.usageTracker = new UsageTracker(options.prices);
+    this.blackboard = options.blackboard ?? new Blackboard();
+
+    const limits = [
+      options.maxConcurrency,
+      ...Object.values(options.maxConcurrencyPerAgent ?? {}),
+      ...Object.values(options.maxConcurrencyPerModel ?? {}),
+    ];
+    if (limits.some((limit) => limit !== undefined && limit < 1)) {
+      throw new Error("Concurrency limits must be at least 1");
+    }
+    if (options.maxReplans !== undefined && options.maxReplans < 0) {
+      throw new Error("maxReplans cannot be negative");
+    }
+    if (options.maxPlannedTasks !== undefined && options.maxPlannedTasks < 1) {
+      throw new Error("maxPlannedTasks must be at least 1");
+    }
+
+    if (options.rateLimit) {
+      this.rateLimiter = new RateLimiter(options.rateLimit);
+    }
+    for (const [model, config] of Object.entries(
+      options.modelRateLimits ?? {}
+    )) {
+      this.modelRateLimiters.set(model, new RateLimiter(config));
+    }
+
+    if (options.manager) {
+      this.manager = new Manager(options.manager, options.maxPlannedTasks);
+    }
+  }
+
+  /**
+   * Emits an execution event to the listeners of this Bat
+   * @param event The event
+   */
+  private emitEvent(event: ExecutionEvent): void {
+    this.getRunLogger().debug(event.type, {
+      event: event.type,
+      taskId: event.taskId,
+      payload: event,
+    });
+    this.emit(event.type, event);
+    this.emit("event", event);
+  }
+
+  /**
+   * Gets the logger of this Bat
+   */
+  public getLogger(): Logger {
+    return this.logger;
+  }
+
+  /**
+   * Gets the logger of the current run, which tags records with its run id
+   */
+  private getRunLogger(): Logger {
+    return this.runLogger ?? this.logger;
+  }
+
+  /**
+   * Gets the usage tracker of the current run
+   */
+  private getRunUsage(): UsageTracker {
+    return this.runUsage ?? this.usageTracker;
+  }
+
+  /**
+   * Summarizes the token usage and estimated cost of this Bat's runs
+   * @param runId Optional id of a single run to summarize
+   * @returns Usage overall and per agent, task and model
+   */
+  public getUsage(runId?: string): UsageSummary {
+    return this.usageTracker.getSummary(runId ? { runId } : {});
+  }
+
+  /**
+   * Gets the blackboard shared by the agents of this Bat
+   */
+  public getBlackboard(): Blackboard {
+    return this.blackboard;
+  }
+
+  /**
+   * Keeps the output of a completed task on the blackboard
+   * @param result Result of the task
+   */
+  private shareTaskOutput(result: TaskResult): void {
+    this.blackboard.write(result.agentRole, {
+      key: getTaskOutputKey(result.taskId),
+      value: result.output,
+      kind: "task_output",
+      taskId: result.taskId,
+    });
+  }
+
+  /**
+   * Closes the database clients of the memories of the agents, so they do
+   * not keep the process running after the last run
+   */
+  public async disconnectMemory(): Promise<void> {
+    for (const agent of this.agents) {
+      await agent.disconnectMemory();
+    }
+  }
+
+  /**
+   * Gets the id of the last run started by kickoff or kickoffObjective
+   */
+  public getLastRunId(): string | undefined {
+    return this.lastRunId;
+  }
 
-  constructor(private readonly agents: Agent[]) {}
+  /**
+   * Gets the tracing context of the current run, whose span is the parent
+   * of the task spans
+   */
+  private getRunTrace(): TraceContext {
+    return this.runTrace ?? { tracer: this.tracer };
+  }
 
   /**
    * Adds a new task to be executed
@@ -27,22 +284,114 @@ export class Bat {
    * @returns The created task
    */
   public addTask(params: TaskParams): Task {
+    const task = this.createTask({
+      ...params,
+      id: params.id ?? `task-${this.tasks.length + 1}`,
+    });
+    this.tasks.push(task);
+    return task;
+  }
+
+  /**
+   * Creates a task and registers its dependencies
+   * @param params Task parameters, including the task id
+   * @returns The created task
+   */
+  private createTask(params: TaskParams & { id: string }): Task {
     const agent = this.agents.find((a) => a.role === params.agentRole);
     if (!agent) {
       throw new Error(`No agent found with role: ${params.agentRole}`);
     }
 
+    const id = params.id;
+    if (this.dependencies.has(id)) {
+      throw new Error(`A task with id "${id}" already exists`);
+    }
+
+    const dependsOn = (params.dependsOn ?? []).map((dependency) =>
+      typeof dependency === "string" ? dependency : dependency.id
+    );
+    const cycle = this.findCycle(id, dependsOn);
+    if (cycle) {
+      throw new Error(`Circular task dependency: ${cycle.join(" -> ")}`);
+    }
+
     const task = new Task(
       params.description,
       agent,
       params.priority ?? "medium",
       params.timeoutMs,
-      params.retryConfig
+      params.retryConfig,
+      {
+        id,
+        outputSchema: params.outputSchema,
+        outputApproval: params.outputApproval,
+        destructive: params.destructive,
+        toolApproval: params.toolApproval,
+        sessionId: params.sessionId,
+      }
     );
-    this.tasks.push(task);
+    this.dependencies.set(id, dependsOn);
     return task;
   }
 
+  /**
+   * Looks for a dependency cycle that adding a task would introduce.
+   * Dependencies may reference tasks that have not been added yet.
+   * @param taskId Id of the task being added
+   * @param dependsOn Ids of the tasks it depends on
+   * @returns The ids forming the cycle, or null if there is none
+   */
+  private findCycle(taskId: string, dependsOn: string[]): string[] | null {
+    const visit = (id: string, path: string[]): string[] | null => {
+      if (id === taskId) {
+        return [...path, id];
+      }
+      if (path.includes(id)) {
+        return null;
+      }
+      for (const next of this.dependencies.get(id) ?? []) {
+        const cycle = visit(next, [...path, id]);
+        if (cycle) {
+          return cycle;
+        }
+      }
+      return null;
+    };
+
+    for (const dependency of dependsOn) {
+      const cycle = visit(dependency, [taskId]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Gets the ids of the tasks a task depends on
+   * @param task The task
+   * @returns Ids of its upstream tasks
+   */
+  private getDependencies(task: Task): string[] {
+    return this.dependencies.get(task.id) ?? [];
+  }
+
+  /**
+   * Ensures every dependency references a task added to this Bat
+   */
+  private validateDependencies(): void {
+    for (const task of this.tasks) {
+      for (const dependency of this.getDependencies(task)) {
+        if (!this.tasks.some((t) => t.id === dependency)) {
+          throw new Error(
+            `Task "${task.id}" depends on unknown task "${dependency}"`
+          );
+        }
+      }
+    }
+  }
+
   /**
    * Gets the priority weight for a task
    * @param priority Task priority
@@ -59,9 +408,11 @@ export class Bat {
 
   /**
    * Sorts tasks by priority (high to low)
+   * @param tasks Tasks to sort
+   * @returns A new array sorted by priority
    */
-  private sortTasksByPriority(): void {
-    this.tasks.sort((a, b) => {
+  private sortTasksByPriority(tasks: Task[]): Task[] {
+    return [...tasks].sort((a, b) => {
       const weightA = this.getPriorityWeight(a.getPriority());
       const weightB = this.getPriorityWeight(b.getPriority());
       return weightB - weightA; // Sort in descending order (high to low)
@@ -69,36 +420,695 @@ export class Bat {
   }
 
   /**
-   * Executes all tasks in priority order and returns their results.
+   * Gets the rate limiters that apply to the requests of a model
+   * @param modelName Name of the model
+   * @returns Shared and model-specific rate limiters
+   */
+  private getRateLimiters(modelName: string): RateLimiter[] {
+    const modelLimiter = this.modelRateLimiters.get(modelName);
+    return [this.rateLimiter, modelLimiter].filter(
+      (limiter): limiter is RateLimiter => limiter !== undefined
+    );
+  }
+
+  /**
+   * Checks whether a task can start without exceeding concurrency limits
+   * @param task Task to start
+   * @param running Tasks currently running
+   */
+  private hasCapacity(task: Task, running: Task[]): boolean {
+    const { maxConcurrency, maxConcurrencyPerAgent, maxConcurrencyPerModel } =
+      this.options;
+    if (maxConcurrency !== undefined && running.length >= maxConcurrency) {
+      return false;
+    }
+
+    const agentLimit = maxConcurrencyPerAgent?.[task.getAgentRole()];
+    if (
+      agentLimit !== undefined &&
+      running.filter((t) => t.getAgentRole() === task.getAgentRole()).length >=
+        agentLimit
+    ) {
+      return false;
+    }
+
+    const modelLimit = maxConcurrencyPerModel?.[task.getModelName()];
+    if (
+      modelLimit !== undefined &&
+      running.filter((t) => t.getModelName() === task.getModelName()).length >=
+        modelLimit
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Runs a single task, feeding it the outputs of its dependencies
+   * @param task Task to run
+   * @param outcomes Results of the tasks finished so far
+   * @returns Promise with the task result
+   */
+  private async runTask(
+    task: Task,
+    outcomes: Map<string, TaskResult>
+  ): Promise<TaskResult> {
+    const logger = this.getRunLogger().child({ taskId: task.id });
+    const dependencyResults: TaskDependencyResult[] = this.getDependencies(
+      task
+    ).map((dependency) => ({
+      taskId: dependency,
+      description: outcomes.get(dependency)?.description ?? "",
+      output: outcomes.get(dependency)?.output ?? "",
+    }));
+
+    const controller = new AbortController();
+    const unlink = linkAbortSignal(controller, this.runController?.signal);
+    this.taskControllers.set(task.id, controller);
+
+    logger.logTaskExecution(
+      task.description,
+      "started",
+      `Priority: ${task.getPriority()}`
+    );
+    const result = await task
+      .run(dependencyResults, {
+        onEvent: (event) => this.emitEvent(event),
+        signal: controller.signal,
+        rateLimiters: this.getRateLimiters(task.getModelName()),
+        agents: this.agents,
+        logger,
+        trace: this.getRunTrace(),
+        usageTracker: this.getRunUsage(),
+        approvalHandler: this.options.approvalHandler,
+        cache: this.options.cache,
+        blackboard: this.blackboard,
+      })
+      .finally(() => {
+        this.taskControllers.delete(task.id);
+        unlink();
+      });
+    if (result.status === "completed") {
+      this.shareTaskOutput(result);
+      logger.logTaskExecution(task.description, "completed", result.output);
+    } else {
+      logger.logTaskExecution(task.description, "failed", result.error);
+    }
+    return result;
+  }
+
+  /**
+   * Creates the result of a task that was not run
+   * @param task The task
+   * @param status Whether the task was skipped or cancelled
+   * @param reason Why the task was not run
+   * @returns The task result
+   */
+  private createNotRunResult(
+    task: Task,
+    status: "skipped" | "cancelled",
+    reason: string
+  ): TaskResult {
+    return {
+      taskId: task.id,
+      description: task.description,
+      status,
+      output: "",
+      error: reason,
+      attempts: 0,
+      durationMs: 0,
+      agentRole: task.getAgentRole(),
+      toolCalls: [],
+      tokenUsage: emptyTokenUsage(),
+      cost: 0,
+    };
+  }
+
+  /**
+   * Sets up the controller of a run, which abort() and the given signal
+   * stop, along with the run id, logger and span of the run. A Bat runs
+   * one run at a time, since abort() and cancel() act on the current run.
+   * @param spanName Name of the span covering the run
+   * @param signal Optional signal to abort the whole run
+   * @param run Executes the run with the signal of its controller and its id
+   * @param runId Id of the run (default: a new id)
+   * @returns Promise with the result of the run
+   * @throws Error if another run of the Bat is in progress
+   */
+  private async withRunController<T>(
+    spanName: string,
+    signal: AbortSignal | undefined,
+    run: (signal: AbortSignal, runId: string) => Promise<T>,
+    runId: string = randomUUID()
+  ): Promise<T> {
+    if (this.runController) {
+      throw new Error(
+        "A run of this Bat is already in progress; wait for it to finish " +
+          "or use another Bat"
+      );
+    }
+    const runController = new AbortController();
+    const unlink = linkAbortSignal(runController, signal);
+    const span = startSpan({ tracer: this.tracer }, spanName, {
+      "bat.run.id": runId,
+    });
+    this.runController = runController;
+    this.runLogger = this.logger.child({ runId });
+    this.runTrace = { tracer: this.tracer, span };
+    this.lastRunId = runId;
+    this.runUsage = this.usageTracker.child(
+      { runId },
+      {
+        budget: this.options.budget,
+        onBudgetExceeded: (summary) => {
+          const error = new BudgetExceededError(
+            this.options.budget!,
+            summary.total
+          );
+          this.runLogger?.error(error.message, { payload: summary.total });
+          runController.abort(error);
+        },
+      }
+    );
+
+    try {
+      return await run(runController.signal, runId);
+    } catch (error) {
+      recordSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
+      unlink();
+      this.runController = undefined;
+      this.runLogger = undefined;
+      this.runTrace = undefined;
+      this.runUsage = undefined;
+      this.cancelledTasks.clear();
+    }
+  }
+
+  /**
+   * Runs tasks in dependency order until each of them has a result.
+   * Dependencies outside the given tasks must already have a result.
+   * @param tasks Tasks to run
+   * @param outcomes Results of finished tasks, updated as tasks finish
+   * @param signal Signal of the current run
+   */
+  private async schedule(
+    tasks: Task[],
+    outcomes: Map<string, TaskResult>,
+    signal: AbortSignal
+  ): Promise<void> {
+    const logger = this.getRunLogger();
+    const running = new Map<string, Promise<void>>();
+    const isPending = () => tasks.some((task) => !outcomes.has(task.id));
+    const finishWithoutRunning = (
+      task: Task,
+      status: "skipped" | "cancelled",
+      reason: string
+    ) => {
+      logger.logTaskExecution(task.description, "failed", reason);
+      const result = this.createNotRunResult(task, status, reason);
+      outcomes.set(task.id, result);
+      this.emitEvent(
+        createEvent({ type: "task_finished", taskId: task.id, result })
+      );
+    };
+
+    while (isPending()) {
+      const waiting = tasks.filter(
+        (task) => !outcomes.has(task.id) && !running.has(task.id)
+      );
+
+      for (const task of waiting) {
+        if (signal.aborted) {
+          finishWithoutRunning(task, "cancelled", "Run was aborted");
+          continue;
+        }
+        if (this.cancelledTasks.has(task.id)) {
+          finishWithoutRunning(task, "cancelled", "Task was cancelled");
+          continue;
+        }
+
+        const failedDependency = this.getDependencies(task).find(
+          (dependency) => {
+            const status = outcomes.get(dependency)?.status;
+            return status !== undefined && status !== "completed";
+          }
+        );
+        if (failedDependency) {
+          finishWithoutRunning(
+            task,
+            "skipped",
+            `Dependency "${failedDependency}" did not complete`
+          );
+        }
+      }
+
+      const ready = this.sortTasksByPriority(
+        waiting.filter(
+          (task) =>
+            !outcomes.has(task.id) &&
+            this.getDependencies(task).every(
+              (dependency) => outcomes.get(dependency)?.status === "completed"
+            )
+        )
+      );
+
+      for (const task of ready) {
+        const runningTasks = tasks.filter((t) => running.has(t.id));
+        if (!this.hasCapacity(task, runningTasks)) {
+          continue;
+        }
+        running.set(
+          task.id,
+          this.runTask(task, outcomes).then((outcome) => {
+            outcomes.set(task.id, outcome);
+            running.delete(task.id);
+          })
+        );
+      }
+
+      if (running.size > 0) {
+        await Promise.race(running.values());
+      } else if (ready.length === 0 && isPending()) {
+        // Skipped tasks may unblock further skips; otherwise nothing can progress
+        const progressed = waiting.some((task) => outcomes.has(task.id));
+        if (!progressed) {
+          throw new Error("Unable to schedule remaining tasks");
+        }
+      }
+    }
+  }
+
+  /**
+   * Executes all tasks in dependency order and returns their results.
+   * A task starts once all of its dependencies have completed, receiving their
+   * outputs as context. Ready tasks start in priority order as long as the
+   * configured concurrency limits allow.
+   * Tasks whose dependencies did not complete are skipped.
    * Each task has a timeout control (default 30 seconds) to prevent infinite execution.
-   * If a task exceeds its timeout, it will be cancelled and an error will be logged.
+   * If a task exceeds its timeout, its attempt is aborted and an error will be logged.
+   * The run can be stopped with abort() or the given signal, and single tasks
+   * with cancel().
+   * With the stateStore option, the progress of the run is checkpointed so
+   * it can be resumed with resume() if the process stops.
+   * Outputs of completed tasks are kept on the blackboard, whose entries
+   * relevant to a task are included in its agent's prompts.
+   * A Bat runs one kickoff, resume or objective at a time.
    *
-   * @returns Promise with an array of task results
+   * @param signal Optional signal to abort the whole run
+   * @returns Promise with an array of task results, in the order tasks were added
+   * @throws Error if another run of the Bat is in progress
    */
-  public async kickoff(): Promise<string[]> {
-    const logger = Logger.getInstance();
+  public async kickoff(signal?: AbortSignal): Promise<TaskResult[]> {
+    this.validateDependencies();
+    return this.runTasks("bat.kickoff", signal);
+  }
 
-    // Sort tasks by priority before execution
-    this.sortTasksByPriority();
+  /**
+   * Resumes a kickoff run that was interrupted, e.g. by a crash. The tasks
+   * of the run must have been added again with the same ids. Tasks that
+   * completed in the run keep their saved results and are not run again;
+   * every other task is run as in kickoff.
+   * Requires the stateStore option.
+   *
+   * @param runId Id of the run to resume
+   * @param signal Optional signal to abort the whole run
+   * @returns Promise with an array of task results, in the order tasks were added
+   */
+  public async resume(
+    runId: string,
+    signal?: AbortSignal
+  ): Promise<TaskResult[]> {
+    const store = this.options.stateStore;
+    if (!store) {
+      throw new Error("The stateStore option is required to resume a run");
+    }
+    const run = await store.loadRun(runId);
+    if (!run) {
+      throw new Error(`No run found with id: ${runId}`);
+    }
+    this.validateDependencies();
+    return this.runTasks("bat.resume", signal, run);
+  }
+
+  /**
+   * Runs the added tasks, checkpointing their progress when a state store
+   * is configured
+   * @param spanName Name of the span covering the run
+   * @param signal Optional signal to abort the whole run
+   * @param resumed Saved state of the run being resumed, if any
+   * @returns Promise with an array of task results, in the order tasks were added
+   */
+  private async runTasks(
+    spanName: string,
+    signal: AbortSignal | undefined,
+    resumed?: RunState
+  ): Promise<TaskResult[]> {
+    return this.withRunController(
+      spanName,
+      signal,
+      async (runSignal, runId) => {
+        const logger = this.getRunLogger();
+        const outcomes = new Map<string, TaskResult>();
+        for (const [taskId, result] of this.getReusableResults(
+          resumed,
+          logger
+        )) {
+          logger.debug("Task completed in an earlier attempt of the run", {
+            taskId,
+          });
+          outcomes.set(taskId, result);
+          this.shareTaskOutput(result);
+        }
+
+        const store = this.options.stateStore;
+        const checkpointer = store
+          ? new RunCheckpointer(
+              store,
+              runId,
+              logger,
+              resumed,
+              this.options.workflow
+            )
+          : undefined;
+        let status: RunStatus = "failed";
+        if (checkpointer) {
+          checkpointer.start(
+            this.tasks.filter((task) => !outcomes.has(task.id)),
+            (task) => this.getDependencies(task)
+          );
+          this.on("event", checkpointer.handle);
+        }
+
+        try {
+          await this.schedule(this.tasks, outcomes, runSignal);
+          const results = this.tasks.map((task) => outcomes.get(task.id)!);
+          if (runSignal.aborted) {
+            status = "cancelled";
+          } else if (results.every((result) => result.status === "completed")) {
+            status = "completed";
+          }
+          return results;
+        } finally {
+          if (checkpointer) {
+            this.off("event", checkpointer.handle);
+            await checkpointer.finish(status);
+          }
+        }
+      },
+      resumed?.runId
+    );
+  }
+
+  /**
+   * Finds the tasks of a resumed run whose completed results can be reused.
+   * A task runs again when its id now names a different task, e.g. after
+   * the workflow was edited, and when a task it depends on runs again,
+   * since its result was built from the earlier output of that task.
+   * @param resumed Saved state of the run being resumed, if any
+   * @param logger Logger of the run
+   * @returns Results to reuse, by task id
+   */
+  private getReusableResults(
+    resumed: RunState | undefined,
+    logger: Logger
+  ): Map<string, TaskResult> {
+    const reusable = new Map<string, TaskResult>();
+    for (const task of this.tasks) {
+      const checkpoint = resumed?.tasks[task.id];
+      const result = checkpoint?.result;
+      if (!checkpoint || result?.status !== "completed") {
+        continue;
+      }
+      const dependsOn = this.getDependencies(task);
+      if (
+        checkpoint.description !== task.description ||
+        checkpoint.agentRole !== task.getAgentRole() ||
+        !checkpoint.dependsOn ||
+        checkpoint.dependsOn.length !== dependsOn.length ||
+        !dependsOn.every((id) => checkpoint.dependsOn!.includes(id))
+      ) {
+        logger.warn(
+          `Task ${task.id} changed since it completed, running it again`,
+          { taskId: task.id }
+        );
+        continue;
+      }
+      reusable.set(task.id, result);
+    }
 
-    const taskPromises = this.tasks.map(async (task) => {
-      logger.logTaskExecution(
-        task.description,
-        "started",
-        `Priority: ${task.getPriority()}`
+    // Tasks may be added before their dependencies, so repeat until no
+    // reusable task is left depending on a task that runs again
+    let invalidated = true;
+    while (invalidated) {
+      invalidated = false;
+      for (const task of this.tasks) {
+        const rerun = this.getDependencies(task).find(
+          (id) => !reusable.has(id)
+        );
+        if (reusable.has(task.id) && rerun !== undefined) {
+          logger.warn(
+            `Task ${task.id} depends on ${rerun}, which runs again, ` +
+              "running it again too",
+            { taskId: task.id }
+          );
+          reusable.delete(task.id);
+          invalidated = true;
+        }
+      }
+    }
+    return reusable;
+  }
+
+  /**
+   * Creates the tasks of a manager plan. Planned ids already in use get
+   * the round number appended. Dependencies refer to the tasks of the plan
+   * first, so a replanned task never resolves to an earlier task that had
+   * its id, and otherwise to tasks completed in earlier rounds.
+   * The whole plan is validated first, so an invalid plan adds no task.
+   * @param plan Planned subtasks
+   * @param round Planning round
+   * @returns The created tasks
+   */
+  private createPlannedTasks(plan: PlannedTask[], round: number): Task[] {
+    // Ids other tasks depend on are in use too: a planned task must not
+    // become the missing dependency of a task added earlier
+    const usedIds = new Set(this.dependencies.keys());
+    this.dependencies.forEach((dependsOn) =>
+      dependsOn.forEach((id) => usedIds.add(id))
+    );
+    const ids = new Map<string, string>();
+    for (const planned of plan) {
+      let id = planned.id;
+      for (let suffix = 0; usedIds.has(id); suffix++) {
+        id = `${planned.id}-${round}${suffix > 0 ? `-${suffix}` : ""}`;
+      }
+      usedIds.add(id);
+      ids.set(planned.id, id);
+    }
+
+    const params = plan.map((planned) => ({
+      id: ids.get(planned.id)!,
+      description: planned.description,
+      agentRole: planned.agentRole,
+      dependsOn: planned.dependsOn.map((id) => ids.get(id) ?? id),
+    }));
+    params.forEach((task, index) => {
+      if (!this.agents.some((agent) => agent.role === task.agentRole)) {
+        throw new Error(`No agent found with role: ${task.agentRole}`);
+      }
+      // Depending only on earlier tasks rules out cycles
+      const unknown = task.dependsOn.find(
+        (id) =>
+          !this.dependencies.has(id) &&
+          !params.slice(0, index).some((earlier) => earlier.id === id)
       );
-      try {
-        const result = await task.run();
-        logger.logTaskExecution(task.description, "completed", result);
-        return result;
-      } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : "Unknown error";
-        logger.logTaskExecution(task.description, "failed", errorMessage);
-        return `Task failed: ${errorMessage}`;
+      if (unknown) {
+        throw new Error(
+          `Planned task "${task.id}" depends on "${unknown}", which is not an earlier task`
+        );
       }
     });
 
-    return Promise.all(taskPromises);
+    return params.map((task) => this.createTask(task));
+  }
+
+  /**
+   * Achieves a high-level objective in hierarchical mode: the manager agent
+   * plans subtasks and assigns them to agents, the subtasks run like kickoff
+   * tasks, and the manager reviews their results. When the review is not
+   * approved, the manager re-plans the remaining work (reassigning failed
+   * subtasks) up to maxReplans times.
+   * Requires the manager option.
+   *
+   * @param objective High-level objective
+   * @param signal Optional signal to abort the whole run
+   * @returns Promise with the objective result
+   */
+  public async kickoffObjective(
+    objective: string,
+    signal?: AbortSignal
+  ): Promise<ObjectiveResult> {
+    const manager = this.manager;
+    if (!manager) {
+      throw new Error("The manager option is required to run an objective");
+    }
+    const maxReplans = this.options.maxReplans ?? DEFAULT_MAX_REPLANS;
+
+    return this.withRunController(
+      "bat.objective",
+      signal,
+      async (runSignal) => {
+        const logger = this.getRunLogger();
+        const context: ExecutionContext = {
+          toolCalls: [],
+          tokenUsage: emptyTokenUsage(),
+          emit: (event) => this.emitEvent(event),
+          signal: runSignal,
+          rateLimiters: this.getRateLimiters(manager.agent.getModelName()),
+          logger,
+          trace: this.getRunTrace(),
+          usageTracker: this.getRunUsage(),
+          cache: this.options.cache,
+          blackboard: this.blackboard,
+        };
+        const outcomes = new Map<string, TaskResult>();
+        const tasks: Task[] = [];
+        let rounds = 0;
+
+        const getResults = () =>
+          tasks
+            .filter((task) => outcomes.has(task.id))
+            .map((task) => outcomes.get(task.id)!);
+        const finish = (
+          status: ObjectiveResult["status"],
+          output: string,
+          error?: string
+        ): ObjectiveResult => {
+          const results = getResults();
+          const tokenUsage = emptyTokenUsage();
+          addTokenUsage(tokenUsage, context.tokenUsage);
+          results.forEach((result) =>
+            addTokenUsage(tokenUsage, result.tokenUsage)
+          );
+          return {
+            objective,
+            status,
+            output,
+            error,
+            rounds,
+            tasks: results,
+            tokenUsage,
+            cost: this.getRunUsage().getSummary().total.cost,
+          };
+        };
+
+        try {
+          let plan = await manager.plan(objective, this.agents, context);
+
+          for (;;) {
+            rounds++;
+            this.emitEvent(
+              createEvent({
+                type: "plan_created",
+                agentRole: manager.agent.role,
+                round: rounds,
+                tasks: plan,
+              })
+            );
+            const roundTasks = this.createPlannedTasks(plan, rounds);
+            tasks.push(...roundTasks);
+            await this.schedule(roundTasks, outcomes, runSignal);
+            throwIfAborted(runSignal);
+
+            const review = await manager.review(
+              objective,
+              getResults(),
+              context
+            );
+            this.emitEvent(
+              createEvent({
+                type: "plan_reviewed",
+                agentRole: manager.agent.role,
+                round: rounds,
+                approved: review.approved,
+                feedback: review.feedback,
+              })
+            );
+            if (review.approved) {
+              return finish("completed", review.output);
+            }
+            if (rounds > maxReplans) {
+              return finish(
+                "failed",
+                review.output,
+                `Objective not achieved after ${rounds} rounds: ${review.feedback}`
+              );
+            }
+
+            logger.logAgentAction(
+              manager.agent.role,
+              `Re-planning objective: ${review.feedback}`
+            );
+            plan = await manager.replan(
+              objective,
+              this.agents,
+              getResults(),
+              review.feedback,
+              context
+            );
+          }
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : "Unknown error";
+          return finish(
+            runSignal.aborted ? "cancelled" : "failed",
+            "",
+            errorMessage
+          );
+        }
+      }
+    );
+  }
+
+  /**
+   * Cancels a task. A running task is aborted; a task that has not started
+   * yet will not run in the current or next kickoff.
+   * @param taskId Id of the task to cancel
+   */
+  public cancel(taskId: string): void {
+    if (!this.dependencies.has(taskId)) {
+      throw new Error(`No task found with id: ${taskId}`);
+    }
+
+    this.cancelledTasks.add(taskId);
+    this.taskControllers
+      .get(taskId)
+      ?.abort(new Error(`Task "${taskId}" was cancelled`));
+  }
+
+  /**
+   * Aborts the current kickoff: running tasks are aborted and pending tasks
+   * are cancelled
+   */
+  public abort(): void {
+    this.runController?.abort(new Error("Run was aborted"));
+  }
+
+  /**
+   * Executes all tasks like kickoff, yielding execution events as they happen
+   * @param signal Optional signal to abort the whole run
+   * @returns Async generator of events that returns the task results
+   */
+  public kickoffStream(
+    signal?: AbortSignal
+  ): AsyncGenerator<ExecutionEvent, TaskResult[]> {
+    return streamEvents((emit) => {
+      this.on("event", emit);
+      return this.kickoff(signal).finally(() => this.off("event", emit));
+    });
   }
 }
@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+import { BatCli } from "../cli/BatCli";
+
+new BatCli().run(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
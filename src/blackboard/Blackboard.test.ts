@@ -0,0 +1,58 @@
+import { Blackboard, getTaskOutputKey } from "./Blackboard";
+
+describe("Blackboard", () => {
+  it("keeps private entries apart from crew entries with the same key", () => {
+    const blackboard = new Blackboard();
+    blackboard.write("Researcher", { key: "notes", value: "Crew notes" });
+    blackboard.write("Researcher", {
+      key: "notes",
+      value: "My notes",
+      scope: "private",
+    });
+
+    expect(blackboard.read("Researcher", "notes")?.value).toBe("My notes");
+    expect(blackboard.read("Writer", "notes")?.value).toBe("Crew notes");
+    expect(blackboard.list("Writer")).toHaveLength(1);
+
+    expect(blackboard.delete("Researcher", "notes", "private")).toBe(true);
+    expect(blackboard.read("Researcher", "notes")?.value).toBe("Crew notes");
+  });
+
+  it("rejects entries without a key", () => {
+    expect(() =>
+      new Blackboard().write("Researcher", { key: "", value: "x" })
+    ).toThrow("Blackboard entries need a key");
+  });
+
+  it("finds the entries sharing the most words with a text", () => {
+    const blackboard = new Blackboard();
+    blackboard.write("Researcher", {
+      key: "owls",
+      value: "Owls hunt at night",
+    });
+    blackboard.write("Researcher", {
+      key: "echolocation",
+      value: "Bats navigate with echolocation",
+    });
+    blackboard.write("Researcher", { key: "bats", value: "Bats eat insects" });
+    blackboard.write("Researcher", {
+      key: getTaskOutputKey("research"),
+      value: "Bats echolocate and eat insects",
+      kind: "task_output",
+      taskId: "research",
+    });
+
+    const keys = (options = {}) =>
+      blackboard
+        .findRelevant("Writer", "How do bats navigate?", options)
+        .map((entry) => entry.key);
+
+    expect(keys()).toEqual(["echolocation", "task:research", "bats"]);
+    expect(keys({ limit: 1, excludeTaskIds: ["research"] })).toEqual([
+      "echolocation",
+    ]);
+    expect(blackboard.getTaskOutput("research")).toBe(
+      "Bats echolocate and eat insects"
+    );
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Who can see a blackboard entry: only the agent that wrote it, or the
+ * whole crew of the Bat
+ */
+export type BlackboardScope = "private" | "crew";
+
+/**
+ * What a blackboard entry holds
+ */
+export type BlackboardEntryKind = "fact" | "artifact" | "task_output";
+
+/**
+ * Entry of a blackboard
+ */
+export interface BlackboardEntry {
+  key: string;
+  value: unknown;
+  kind: BlackboardEntryKind;
+  scope: BlackboardScope;
+  /** Role of the agent, or name of the component, that wrote the entry */
+  author: string;
+  /** Id of the task the entry was written for, if any */
+  taskId?: string;
+  updatedAt: number;
+}
+
+/**
+ * Entry to write to a blackboard
+ */
+export interface BlackboardWrite {
+  key: string;
+  value: unknown;
+  /** Default: "fact" */
+  kind?: BlackboardEntryKind;
+  /** Default: "crew" */
+  scope?: BlackboardScope;
+  taskId?: string;
+}
+
+/**
+ * Filters of the entries listed from a blackboard
+ */
+export interface BlackboardQuery {
+  kind?: BlackboardEntryKind;
+  author?: string;
+  taskId?: string;
+}
+
+/**
+ * Options of a relevance search on a blackboard
+ */
+export interface BlackboardSearchOptions {
+  /** Maximum number of entries to return (default: 5) */
+  limit?: number;
+  /** Ids of tasks whose outputs to leave out, e.g. because they are already known */
+  excludeTaskIds?: string[];
+}
+
+/**
+ * Default maximum number of entries returned by a relevance search
+ */
+const DEFAULT_SEARCH_LIMIT = 5;
+
+/**
+ * Splits a text into the lowercase words used to match entries
+ * @param text The text
+ * @returns The distinct words of at least three characters
+ */
+function getWords(text: string): Set<string> {
+  return new Set(
+    (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+      (word) => word.length >= 3
+    )
+  );
+}
+
+/**
+ * Formats the value of an entry as text
+ * @param value The value
+ */
+export function formatBlackboardValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Gets the key of the output of a task on a blackboard
+ * @param taskId Id of the task
+ */
+export function getTaskOutputKey(taskId: string): string {
+  return `task:${taskId}`;
+}
+
+/**
+ * Space shared by the agents of a Bat, where they keep facts, intermediate
+ * artifacts and task outputs for each other. Private entries are only
+ * visible to the agent that wrote them, and do not clash with entries of
+ * other agents under the same key.
+ */
+export class Blackboard {
+  private readonly entries = new Map<string, BlackboardEntry>();
+
+  /**
+   * Gets the map key of an entry
+   * @param key Entry key
+   * @param scope Entry scope
+   * @param author Author of the entry, which namespaces private entries
+   */
+  private getId(key: string, scope: BlackboardScope, author: string): string {
+    return scope === "private" ? `${author}\u0000${key}` : `\u0000${key}`;
+  }
+
+  /**
+   * Checks whether an entry is visible to a reader
+   * @param entry The entry
+   * @param reader Role of the reading agent
+   */
+  private isVisible(entry: BlackboardEntry, reader: string): boolean {
+    return entry.scope === "crew" || entry.author === reader;
+  }
+
+  /**
+   * Writes an entry, replacing the entry with the same key and scope
+   * @param author Role of the writing agent, or name of the writer
+   * @param write The entry
+   * @returns The written entry
+   */
+  public write(author: string, write: BlackboardWrite): BlackboardEntry {
+    if (!write.key) {
+      throw new Error("Blackboard entries need a key");
+    }
+    const entry: BlackboardEntry = {
+      key: write.key,
+      value: write.value,
+      kind: write.kind ?? "fact",
+      scope: write.scope ?? "crew",
+      author,
+      taskId: write.taskId,
+      updatedAt: Date.now(),
+    };
+    const id = this.getId(entry.key, entry.scope, author);
+    // Re-insert so entries stay in the order they were last written
+    this.entries.delete(id);
+    this.entries.set(id, entry);
+    return entry;
+  }
+
+  /**
+   * Reads an entry, preferring the reader's private entry over the crew's
+   * @param reader Role of the reading agent
+   * @param key Entry key
+   * @returns The entry, or undefined if there is none visible to the reader
+   */
+  public read(reader: string, key: string): BlackboardEntry | undefined {
+    return (
+      this.entries.get(this.getId(key, "private", reader)) ??
+      this.entries.get(this.getId(key, "crew", reader))
+    );
+  }
+
+  /**
+   * Lists the entries visible to a reader, oldest first
+   * @param reader Role of the reading agent
+   * @param query Filters of the entries
+   * @returns The matching entries
+   */
+  public list(reader: string, query: BlackboardQuery = {}): BlackboardEntry[] {
+    return [...this.entries.values()].filter(
+      (entry) =>
+        this.isVisible(entry, reader) &&
+        (query.kind === undefined || entry.kind === query.kind) &&
+        (query.author === undefined || entry.author === query.author) &&
+        (query.taskId === undefined || entry.taskId === query.taskId)
+    );
+  }
+
+  /**
+   * Gets the output of a task
+   * @param taskId Id of the task
+   * @returns The output, or undefined if the task has not completed
+   */
+  public getTaskOutput(taskId: string): string | undefined {
+    const entry = this.entries.get(
+      this.getId(getTaskOutputKey(taskId), "crew", "")
+    );
+    return entry && formatBlackboardValue(entry.value);
+  }
+
+  /**
+   * Finds the entries visible to a reader that share the most words with
+   * a text, e.g. the description of the task the reader works on
+   * @param reader Role of the reading agent
+   * @param text Text to match
+   * @param options Search options
+   * @returns The matching entries, most relevant first
+   */
+  public findRelevant(
+    reader: string,
+    text: string,
+    options: BlackboardSearchOptions = {}
+  ): BlackboardEntry[] {
+    const { limit = DEFAULT_SEARCH_LIMIT, excludeTaskIds = [] } = options;
+    const words = getWords(text);
+    return this.list(reader)
+      .filter(
+        (entry) =>
+          entry.kind !== "task_output" ||
+          !excludeTaskIds.includes(entry.taskId ?? "")
+      )
+      .map((entry, index) => {
+        const entryWords = getWords(
+          `${entry.key} ${formatBlackboardValue(entry.value)}`
+        );
+        let score = 0;
+        for (const word of words) {
+          if (entryWords.has(word)) {
+            score++;
+          }
+        }
+        return { entry, score, index };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || b.index - a.index)
+      .slice(0, limit)
+      .map(({ entry }) => entry);
+  }
+
+  /**
+   * Deletes an entry
+   * @param author Author of the entry, for private entries
+   * @param key Entry key
+   * @param scope Entry scope (default: "crew")
+   * @returns Whether an entry was deleted
+   */
+  public delete(
+    author: string,
+    key: string,
+    scope: BlackboardScope = "crew"
+  ): boolean {
+    return this.entries.delete(this.getId(key, scope, author));
+  }
+
+  /**
+   * Deletes every entry
+   */
+  public clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,64 @@
+import { Blackboard } from "./Blackboard";
+import { createBlackboardTools } from "./blackboardTools";
+
+describe("createBlackboardTools", () => {
+  it("writes entries authored by the agent and its task", async () => {
+    const blackboard = new Blackboard();
+    const [write] = createBlackboardTools(blackboard, "Researcher", "research");
+
+    await expect(
+      write.execute({ key: "species", value: "1400", kind: "fact" })
+    ).resolves.toEqual({ success: true, result: 'Saved "species"' });
+
+    expect(blackboard.read("Writer", "species")).toEqual(
+      expect.objectContaining({
+        value: "1400",
+        kind: "fact",
+        scope: "crew",
+        author: "Researcher",
+        taskId: "research",
+      })
+    );
+  });
+
+  it("reads entries visible to the agent", async () => {
+    const blackboard = new Blackboard();
+    const [write] = createBlackboardTools(blackboard, "Researcher");
+    const [, read] = createBlackboardTools(blackboard, "Writer");
+    await write.execute({ key: "draft", value: "Notes", scope: "private" });
+    await write.execute({ key: "species", value: "1400" });
+
+    await expect(read.execute({ key: "species" })).resolves.toEqual({
+      success: true,
+      result: "1400",
+    });
+    await expect(read.execute({ key: "draft" })).resolves.toEqual({
+      success: false,
+      error: 'No blackboard entry with key "draft"',
+    });
+  });
+
+  it("lists entries with a preview of long values", async () => {
+    const blackboard = new Blackboard();
+    blackboard.write("Researcher", { key: "species", value: "1400" });
+    blackboard.write("Researcher", {
+      key: "report",
+      value: "a".repeat(250),
+      kind: "artifact",
+    });
+    const [, read] = createBlackboardTools(blackboard, "Writer");
+
+    await expect(read.execute({})).resolves.toEqual({
+      success: true,
+      result: [
+        { key: "species", kind: "fact", author: "Researcher", preview: "1400" },
+        {
+          key: "report",
+          kind: "artifact",
+          author: "Researcher",
+          preview: `${"a".repeat(200)}...`,
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { BatTool } from "@bat-ai/tools";
+import { Blackboard, formatBlackboardValue } from "./Blackboard";
+
+/**
+ * Maximum length of the values previewed when listing entries
+ */
+const PREVIEW_LENGTH = 200;
+
+/**
+ * Creates the tools an agent uses to read and write a blackboard
+ * @param blackboard The blackboard
+ * @param agentRole Role of the agent, which authors its writes
+ * @param taskId Id of the task the agent works on, recorded on its writes
+ * @returns The blackboard_write and blackboard_read tools
+ */
+export function createBlackboardTools(
+  blackboard: Blackboard,
+  agentRole: string,
+  taskId?: string
+): BatTool[] {
+  const write: BatTool = {
+    schema: {
+      name: "blackboard_write",
+      description:
+        "Saves a fact or an intermediate artifact on the blackboard shared with the other agents, replacing the entry with the same key",
+      parameters: {
+        type: "object",
+        properties: {
+          key: { type: "string", description: "Short, descriptive key" },
+          value: { type: "string", description: "Content of the entry" },
+          kind: {
+            type: "string",
+            enum: ["fact", "artifact"],
+            description: "What the entry holds (default: fact)",
+          },
+          scope: {
+            type: "string",
+            enum: ["crew", "private"],
+            description:
+              "Who can see the entry: every agent, or only you (default: crew)",
+          },
+        },
+        required: ["key", "value"],
+      },
+    },
+    execute: async (input: {
+      key: string;
+      value: string;
+      kind?: "fact" | "artifact";
+      scope?: "crew" | "private";
+    }) => {
+      const entry = blackboard.write(agentRole, { ...input, taskId });
+      return { success: true, result: `Saved "${entry.key}"` };
+    },
+  };
+
+  const read: BatTool = {
+    schema: {
+      name: "blackboard_read",
+      description:
+        "Reads an entry of the blackboard shared with the other agents, or lists the entries when no key is given",
+      parameters: {
+        type: "object",
+        properties: {
+          key: { type: "string", description: "Key of the entry to read" },
+        },
+      },
+    },
+    execute: async (input: { key?: string }) => {
+      if (input.key === undefined) {
+        return {
+          success: true,
+          result: blackboard.list(agentRole).map((entry) => {
+            const value = formatBlackboardValue(entry.value);
+            return {
+              key: entry.key,
+              kind: entry.kind,
+              author: entry.author,
+              preview:
+                value.length > PREVIEW_LENGTH
+                  ? `${value.slice(0, PREVIEW_LENGTH)}...`
+                  : value,
+            };
+          }),
+        };
+      }
+      const entry = blackboard.read(agentRole, input.key);
+      return entry
+        ? { success: true, result: entry.value }
+        : {
+            success: false,
+            error: `No blackboard entry with key "${input.key}"`,
+          };
+    },
+  };
+
+  return [write, read];
+}
@@ -0,0 +1,31 @@
+/**
+ * Storage for cached responses, e.g. memory, files or Redis.
+ * Values are JSON-serializable.
+ */
+export interface CacheStore {
+  /**
+   * Gets a cached value
+   * @param key Cache key
+   * @returns The value, or undefined if it is missing or expired
+   */
+  get(key: string): Promise<unknown | undefined>;
+
+  /**
+   * Caches a value
+   * @param key Cache key
+   * @param value Value to cache
+   * @param ttlMs Optional time to live in milliseconds
+   */
+  set(key: string, value: unknown, ttlMs?: number): Promise<void>;
+
+  /**
+   * Removes a cached value
+   * @param key Cache key
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Removes every cached value
+   */
+  clear(): Promise<void>;
+}
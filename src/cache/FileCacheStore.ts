@@ -0,0 +1,86 @@
+import { randomUUID } from "crypto";
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { CacheStore } from "./CacheStore";
+
+interface CacheFile {
+  value: unknown;
+  expiresAt?: number;
+}
+
+/**
+ * Keeps cached values in a directory, one JSON file per key, so they
+ * survive restarts and can be committed as test fixtures
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Gets the path of the file of a key
+   * @param key Cache key
+   */
+  private getFilePath(key: string): string {
+    if (!/^[\w.-]+$/.test(key)) {
+      throw new Error(`Invalid cache key: ${key}`);
+    }
+    return join(this.directory, `${key}.json`);
+  }
+
+  public async get(key: string): Promise<unknown | undefined> {
+    let file: CacheFile;
+    try {
+      file = JSON.parse(await readFile(this.getFilePath(key), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+
+    if (file.expiresAt !== undefined && file.expiresAt <= Date.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+    return file.value;
+  }
+
+  public async set(key: string, value: unknown, ttlMs?: number): Promise<void> {
+    const filePath = this.getFilePath(key);
+    const file: CacheFile = {
+      value,
+      expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : undefined,
+    };
+    // A temporary file per write, so concurrent writers of the same key,
+    // in this process or another, never rename each other's partial files
+    const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+    await mkdir(this.directory, { recursive: true });
+    try {
+      await writeFile(tempPath, JSON.stringify(file, null, 2));
+      await rename(tempPath, filePath);
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  public async delete(key: string): Promise<void> {
+    await rm(this.getFilePath(key), { force: true });
+  }
+
+  public async clear(): Promise<void> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw error;
+    }
+    await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => rm(join(this.directory, file), { force: true }))
+    );
+  }
+}
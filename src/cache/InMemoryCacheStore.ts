@@ -0,0 +1,40 @@
+import { CacheStore } from "./CacheStore";
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt?: number;
+}
+
+/**
+ * Keeps cached values in memory for the life of the process
+ */
+export class InMemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  public async get(key: string): Promise<unknown | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return structuredClone(entry.value);
+  }
+
+  public async set(key: string, value: unknown, ttlMs?: number): Promise<void> {
+    this.entries.set(key, {
+      value: structuredClone(value),
+      expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : undefined,
+    });
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  public async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,64 @@
+import { CacheStore } from "./CacheStore";
+
+/**
+ * Commands of a connected Redis client, such as one from redis' createClient
+ */
+export interface RedisCacheClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options?: { PX?: number }): Promise<unknown>;
+  del(keys: string | string[]): Promise<number>;
+  scan(
+    cursor: number | string,
+    options?: { MATCH?: string; COUNT?: number }
+  ): Promise<{ cursor: number | string; keys: string[] }>;
+}
+
+/**
+ * Keeps cached values in Redis, so they can be shared between processes.
+ * Expiry is left to Redis.
+ */
+export class RedisCacheStore implements CacheStore {
+  /**
+   * @param client Connected Redis client
+   * @param prefix Prefix of the keys the store writes (default: "bat:cache:")
+   */
+  constructor(
+    private readonly client: RedisCacheClient,
+    private readonly prefix: string = "bat:cache:"
+  ) {}
+
+  public async get(key: string): Promise<unknown | undefined> {
+    const value = await this.client.get(this.prefix + key);
+    return value === null ? undefined : JSON.parse(value);
+  }
+
+  public async set(key: string, value: unknown, ttlMs?: number): Promise<void> {
+    await this.client.set(
+      this.prefix + key,
+      JSON.stringify(value),
+      ttlMs !== undefined ? { PX: ttlMs } : undefined
+    );
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+
+  /**
+   * Deletes the keys of the store batch by batch. SCAN is used instead of
+   * KEYS, which blocks the server while it walks the whole keyspace.
+   */
+  public async clear(): Promise<void> {
+    let cursor: number | string = 0;
+    do {
+      const reply = await this.client.scan(cursor, {
+        MATCH: `${this.prefix}*`,
+        COUNT: 100,
+      });
+      cursor = reply.cursor;
+      if (reply.keys.length > 0) {
+        await this.client.del(reply.keys);
+      }
+    } while (String(cursor) !== "0");
+  }
+}
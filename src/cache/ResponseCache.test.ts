@@ -0,0 +1,120 @@
+import { BatTool } from "@bat-ai/tools";
+import { AIMessage } from "@langchain/core/messages";
+import { FakeChatModel } from "../testing/FakeChatModel";
+import { InMemoryCacheStore } from "./InMemoryCacheStore";
+import { ResponseCache } from "./ResponseCache";
+
+function createTool(name: string, cacheable?: boolean): BatTool {
+  return {
+    schema: {
+      name,
+      description: `Runs ${name}`,
+      parameters: { query: { type: "string" } },
+      cacheable,
+    } as BatTool["schema"],
+    execute: async () => ({ success: true, result: "Done" }),
+  };
+}
+
+describe("ResponseCache", () => {
+  it("returns a cached model response for the same model and prompt", async () => {
+    const cache = new ResponseCache({ store: new InMemoryCacheStore() });
+    const model = new FakeChatModel();
+
+    await expect(cache.getModelResponse(model, "Hello")).resolves.toBe(
+      undefined
+    );
+    await cache.setModelResponse(
+      model,
+      "Hello",
+      undefined,
+      new AIMessage("Hi")
+    );
+
+    const cached = await cache.getModelResponse(model, "Hello");
+    expect(cached?.content).toBe("Hi");
+    await expect(cache.getModelResponse(model, "Goodbye")).resolves.toBe(
+      undefined
+    );
+    await expect(
+      cache.getModelResponse(new FakeChatModel({ modelName: "other" }), "Hello")
+    ).resolves.toBe(undefined);
+  });
+
+  it("caches no model response when llm is false", async () => {
+    const cache = new ResponseCache({
+      store: new InMemoryCacheStore(),
+      llm: false,
+    });
+    const model = new FakeChatModel();
+
+    await cache.setModelResponse(
+      model,
+      "Hello",
+      undefined,
+      new AIMessage("Hi")
+    );
+
+    await expect(cache.getModelResponse(model, "Hello")).resolves.toBe(
+      undefined
+    );
+  });
+
+  it("caches results of cacheable tools by normalized input", async () => {
+    const cache = new ResponseCache({
+      store: new InMemoryCacheStore(),
+      tools: { search: true },
+    });
+    const search = createTool("search");
+    const lookup = createTool("lookup", true);
+    const send = createTool("send");
+
+    await cache.setToolResult(search, { query: "bats", limit: 2 }, ["Bats"]);
+    await cache.setToolResult(lookup, { query: "bats" }, "Bats");
+    await cache.setToolResult(send, { query: "bats" }, "Sent");
+
+    await expect(
+      cache.getToolResult(search, { limit: 2, query: "bats" })
+    ).resolves.toEqual({ result: ["Bats"] });
+    await expect(
+      cache.getToolResult(search, { query: "owls", limit: 2 })
+    ).resolves.toBe(undefined);
+    await expect(
+      cache.getToolResult(lookup, { query: "bats" })
+    ).resolves.toEqual({ result: "Bats" });
+    expect(cache.isToolCacheable(send)).toBe(false);
+    await expect(cache.getToolResult(send, { query: "bats" })).resolves.toBe(
+      undefined
+    );
+  });
+
+  it("expires entries after their time to live", async () => {
+    jest.useFakeTimers({ now: 0 });
+    try {
+      const cache = new ResponseCache({
+        store: new InMemoryCacheStore(),
+        ttlMs: 1000,
+        tools: { search: { ttlMs: 100 } },
+      });
+      const model = new FakeChatModel();
+      const search = createTool("search");
+      await cache.setModelResponse(model, "Hello", [], new AIMessage("Hi"));
+      await cache.setToolResult(search, { query: "bats" }, "Bats");
+
+      jest.setSystemTime(500);
+      await expect(
+        cache.getToolResult(search, { query: "bats" })
+      ).resolves.toBe(undefined);
+      await expect(cache.getModelResponse(model, "Hello", [])).resolves.toEqual(
+        expect.objectContaining({ content: "Hi" })
+      );
+
+      jest.setSystemTime(1000);
+      await expect(cache.getModelResponse(model, "Hello", [])).resolves.toBe(
+        undefined
+      );
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
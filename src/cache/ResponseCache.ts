@@ -0,0 +1,189 @@
+import { BatTool } from "@bat-ai/tools";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import {
+  BaseMessage,
+  StoredMessage,
+  mapChatMessagesToStoredMessages,
+  mapStoredMessagesToChatMessages,
+} from "@langchain/core/messages";
+import { ToolDefinition } from "../tools/toolDefinition";
+import { CacheStore } from "./CacheStore";
+import { createCacheKey, getModelIdentity } from "./cacheKey";
+
+/**
+ * Whether the results of a tool are cached, or the time to live of its
+ * cached results in milliseconds
+ */
+export type ToolCacheSetting = boolean | { ttlMs: number };
+
+/**
+ * Options for the response cache
+ */
+export interface ResponseCacheOptions {
+  /** Where responses are stored */
+  store: CacheStore;
+  /** Time to live of cached responses (default: no expiry) */
+  ttlMs?: number;
+  /** Whether model responses are cached (default: true) */
+  llm?: boolean;
+  /**
+   * Tools whose results are cached, by name. Tools with `cacheable: true`
+   * in their schema are cached too; other tools are never cached.
+   */
+  tools?: Record<string, ToolCacheSetting>;
+}
+
+/**
+ * Cached result of a tool call
+ */
+export interface CachedToolResult {
+  result: unknown;
+}
+
+/**
+ * Opt-in cache of model responses, keyed by model identity and prompt, and
+ * of tool results, keyed by tool name and normalized input
+ */
+export class ResponseCache {
+  constructor(private readonly options: ResponseCacheOptions) {}
+
+  /**
+   * Creates the key of a model response
+   * @param model The model
+   * @param prompt Prompt sent to the model
+   * @param tools Tools bound to the model, if any
+   */
+  private getModelKey(
+    model: BaseChatModel,
+    prompt: string,
+    tools?: ToolDefinition[]
+  ): string {
+    return createCacheKey({
+      kind: "llm",
+      model: getModelIdentity(model),
+      prompt,
+      tools: tools ?? [],
+    });
+  }
+
+  /**
+   * Gets a cached model response
+   * @param model The model
+   * @param prompt Prompt sent to the model
+   * @param tools Tools bound to the model, if any
+   * @returns The response, or undefined on a cache miss
+   */
+  public async getModelResponse(
+    model: BaseChatModel,
+    prompt: string,
+    tools?: ToolDefinition[]
+  ): Promise<BaseMessage | undefined> {
+    if (this.options.llm === false) {
+      return undefined;
+    }
+    const stored = (await this.options.store.get(
+      this.getModelKey(model, prompt, tools)
+    )) as StoredMessage | undefined;
+    return stored ? mapStoredMessagesToChatMessages([stored])[0] : undefined;
+  }
+
+  /**
+   * Caches a model response
+   * @param model The model
+   * @param prompt Prompt sent to the model
+   * @param tools Tools bound to the model, if any
+   * @param response The response
+   */
+  public async setModelResponse(
+    model: BaseChatModel,
+    prompt: string,
+    tools: ToolDefinition[] | undefined,
+    response: BaseMessage
+  ): Promise<void> {
+    if (this.options.llm === false) {
+      return;
+    }
+    const [stored] = mapChatMessagesToStoredMessages([response]);
+    await this.options.store.set(
+      this.getModelKey(model, prompt, tools),
+      stored,
+      this.options.ttlMs
+    );
+  }
+
+  /**
+   * Gets the cache setting of a tool
+   * @param tool The tool
+   */
+  private getToolSetting(tool: BatTool): ToolCacheSetting {
+    return (
+      this.options.tools?.[tool.schema.name] ??
+      (tool.schema as { cacheable?: boolean }).cacheable === true
+    );
+  }
+
+  /**
+   * Checks whether the results of a tool are cached
+   * @param tool The tool
+   */
+  public isToolCacheable(tool: BatTool): boolean {
+    return this.getToolSetting(tool) !== false;
+  }
+
+  /**
+   * Creates the key of a tool result
+   * @param tool The tool
+   * @param input Tool input
+   */
+  private getToolKey(tool: BatTool, input: unknown): string {
+    return createCacheKey({ kind: "tool", tool: tool.schema.name, input });
+  }
+
+  /**
+   * Gets a cached tool result
+   * @param tool The tool
+   * @param input Tool input
+   * @returns The cached result, or undefined on a cache miss
+   */
+  public async getToolResult(
+    tool: BatTool,
+    input: unknown
+  ): Promise<CachedToolResult | undefined> {
+    if (!this.isToolCacheable(tool)) {
+      return undefined;
+    }
+    return (await this.options.store.get(this.getToolKey(tool, input))) as
+      | CachedToolResult
+      | undefined;
+  }
+
+  /**
+   * Caches a successful tool result
+   * @param tool The tool
+   * @param input Tool input
+   * @param result Tool result
+   */
+  public async setToolResult(
+    tool: BatTool,
+    input: unknown,
+    result: unknown
+  ): Promise<void> {
+    const setting = this.getToolSetting(tool);
+    if (setting === false) {
+      return;
+    }
+    const cached: CachedToolResult = { result };
+    await this.options.store.set(
+      this.getToolKey(tool, input),
+      cached,
+      typeof setting === "object" ? setting.ttlMs : this.options.ttlMs
+    );
+  }
+
+  /**
+   * Removes every cached response
+   */
+  public async clear(): Promise<void> {
+    await this.options.store.clear();
+  }
+}
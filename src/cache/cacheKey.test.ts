@@ -0,0 +1,46 @@
+import { FakeChatModel } from "../testing/FakeChatModel";
+import { createCacheKey, getModelIdentity, stableStringify } from "./cacheKey";
+
+describe("stableStringify", () => {
+  it("gives the same string whatever the order of object keys", () => {
+    expect(stableStringify({ b: 1, a: { d: [2, 1], c: null } })).toBe(
+      stableStringify({ a: { c: null, d: [2, 1] }, b: 1 })
+    );
+    expect(stableStringify([1, 2])).not.toBe(stableStringify([2, 1]));
+  });
+});
+
+describe("getModelIdentity", () => {
+  it("leaves credentials and clients out of the identity", () => {
+    const model = new FakeChatModel({ modelName: "fake-large" });
+    jest.spyOn(model, "_identifyingParams").mockReturnValue({
+      temperature: 0.2,
+      apiKey: "sk-secret",
+      openAIApiKey: "sk-openai",
+      clientSecret: "client-secret",
+      password: "hunter2",
+      client: { token: "token" },
+    });
+
+    const identity = getModelIdentity(model);
+
+    expect(identity).toEqual({
+      type: model._llmType(),
+      name: "fake-large",
+      params: { temperature: 0.2 },
+    });
+    expect(stableStringify(identity)).not.toMatch(/secret|sk-|hunter2/);
+  });
+
+  it("gives different keys to models with different parameters", () => {
+    const cold = new FakeChatModel();
+    const warm = new FakeChatModel();
+    jest.spyOn(cold, "_identifyingParams").mockReturnValue({ temperature: 0 });
+    jest.spyOn(warm, "_identifyingParams").mockReturnValue({ temperature: 1 });
+    const key = (model: FakeChatModel) =>
+      createCacheKey({ model: getModelIdentity(model), prompt: "Hello" });
+
+    expect(key(cold)).not.toBe(key(warm));
+    expect(key(cold)).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
@@ -0,0 +1,60 @@
+import { createHash } from "crypto";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { getModelName } from "../utils/getModelName";
+
+/**
+ * Serializes a value as JSON with object keys in sorted order, so equal
+ * values always give the same string
+ * @param value Value to serialize
+ * @returns The JSON string
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (item && typeof item === "object" && !Array.isArray(item)) {
+      return Object.fromEntries(
+        Object.keys(item)
+          .sort()
+          .map((key) => [key, item[key]])
+      );
+    }
+    return item;
+  });
+}
+
+/**
+ * Creates a cache key from the parts identifying a cached response
+ * @param parts Parts of the key
+ * @returns Hex digest of the parts
+ */
+export function createCacheKey(parts: unknown): string {
+  return createHash("sha256").update(stableStringify(parts)).digest("hex");
+}
+
+/**
+ * Describes a model by its type, name and the parameters that change its
+ * responses, such as the temperature
+ * @param model The model
+ * @returns Identity of the model
+ */
+export function getModelIdentity(model: BaseChatModel): unknown {
+  let params: Record<string, unknown> = {};
+  try {
+    params = model._identifyingParams?.() ?? {};
+  } catch {
+    // Some models need a configured client to describe themselves
+  }
+
+  // Credentials do not change responses and must not end up in keys
+  const primitives = Object.fromEntries(
+    Object.entries(params).filter(
+      ([name, value]) =>
+        ["string", "number", "boolean"].includes(typeof value) &&
+        !/key|secret|password/i.test(name)
+    )
+  );
+  return {
+    type: model._llmType(),
+    name: getModelName(model),
+    params: primitives,
+  };
+}
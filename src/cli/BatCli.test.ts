@@ -0,0 +1,198 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { PassThrough, Writable } from "stream";
+import { FakeChatModel } from "../testing/FakeChatModel";
+import { finalAnswerResponse } from "../testing/fakeResponses";
+import { BatCli } from "./BatCli";
+
+const workflow = `
+agents:
+  - role: Researcher
+    goal: Research topics
+    backstory: Curious
+    model: default
+    tools: [search]
+tasks:
+  - id: research
+    description: Research bats
+    agentRole: Researcher
+  - id: write
+    description: Write an article
+    agentRole: Researcher
+    dependsOn: [research]
+`;
+
+/**
+ * Stream keeping what is written to it
+ */
+class OutputStream extends Writable {
+  public text = "";
+
+  public _write(
+    chunk: Buffer,
+    _encoding: string,
+    callback: (error?: Error | null) => void
+  ): void {
+    this.text += chunk.toString();
+    callback();
+  }
+}
+
+describe("BatCli", () => {
+  let directory: string;
+  let workflowPath: string;
+  let toolsPath: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "bat-cli-"));
+    workflowPath = join(directory, "research.yaml");
+    toolsPath = join(directory, "tools.js");
+    await writeFile(workflowPath, workflow);
+    await writeFile(
+      toolsPath,
+      `exports.tools = [{
+        schema: { name: "search", description: "Searches the web", parameters: {} },
+        execute: async () => ({ success: true, result: [] }),
+      }];`
+    );
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * Runs a command with a model answering every prompt
+   * @param argv Command-line arguments
+   * @param model Model of the workflow
+   * @returns Promise with the exit code and the output
+   */
+  async function runCli(
+    argv: string[],
+    model = new FakeChatModel({
+      defaultResponse: finalAnswerResponse("Done"),
+    })
+  ): Promise<{ code: number; stdout: string; stderr: string }> {
+    const stdout = new OutputStream();
+    const stderr = new OutputStream();
+    const cli = new BatCli({
+      stdout,
+      stderr,
+      stdin: new PassThrough(),
+      models: { default: model },
+    });
+    const code = await cli.run([
+      ...argv,
+      "--state-dir",
+      join(directory, "runs"),
+    ]);
+    return { code, stdout: stdout.text, stderr: stderr.text };
+  }
+
+  it("runs a workflow and prints its results as JSON", async () => {
+    const { code, stdout } = await runCli([
+      "run",
+      workflowPath,
+      "--tools",
+      toolsPath,
+      "--format",
+      "json",
+      "--quiet",
+    ]);
+
+    expect(code).toBe(0);
+    const output = JSON.parse(stdout);
+    expect(
+      output.results.map((result: { taskId: string; status: string }) => [
+        result.taskId,
+        result.status,
+      ])
+    ).toEqual([
+      ["research", "completed"],
+      ["write", "completed"],
+    ]);
+    expect(output.runId).toEqual(expect.any(String));
+  });
+
+  it("resumes the latest unfinished run of a workflow", async () => {
+    // The write task fails: the model has no answer for it
+    const failing = await runCli(
+      ["run", workflowPath, "--tools", toolsPath, "--quiet"],
+      new FakeChatModel({
+        responses: [
+          {
+            prompt: (prompt) => !prompt.includes("Write an article"),
+            response: finalAnswerResponse("Bats echolocate"),
+            times: Infinity,
+          },
+        ],
+      })
+    );
+    expect(failing.code).toBe(1);
+
+    const model = new FakeChatModel({
+      defaultResponse: finalAnswerResponse("An article"),
+    });
+    const { code, stdout } = await runCli(
+      ["resume", workflowPath, "--tools", toolsPath, "--quiet"],
+      model
+    );
+
+    expect(code).toBe(0);
+    expect(stdout).toContain("== research: completed");
+    expect(stdout).toContain("Bats echolocate");
+    expect(stdout).toContain("== write: completed");
+    expect(
+      model.getCalls().every((call) => call.prompt.includes("Write an article"))
+    ).toBe(true);
+
+    const finished = await runCli([
+      "resume",
+      workflowPath,
+      "--tools",
+      toolsPath,
+    ]);
+    expect(finished.code).toBe(1);
+    expect(finished.stderr).toContain("No unfinished run of");
+  });
+
+  it("lists a workflow without its tools", async () => {
+    const { code, stdout } = await runCli(["list", workflowPath]);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain("Researcher (model: default, tools: search)");
+    expect(stdout).toContain("write -> Researcher (after research)");
+  });
+
+  it("rejects workflows with sqlite memory", async () => {
+    await writeFile(
+      workflowPath,
+      workflow.replace(
+        "backstory: Curious",
+        "backstory: Curious\n    memory: { type: sqlite }"
+      )
+    );
+
+    const { code, stderr } = await runCli([
+      "run",
+      workflowPath,
+      "--tools",
+      toolsPath,
+    ]);
+
+    expect(code).toBe(1);
+    expect(stderr).toContain(
+      "Agent Researcher uses sqlite memory, which the bat command does not " +
+        "support; use json-file memory instead"
+    );
+  });
+
+  it("reports invalid usage", async () => {
+    const { code, stderr } = await runCli(["publish"]);
+
+    expect(code).toBe(2);
+    expect(stderr).toContain("Unknown command: publish");
+    expect(stderr).toContain("Usage: bat <command> [options]");
+  });
+});
@@ -0,0 +1,534 @@
+import { BatTool } from "@bat-ai/tools";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { resolve } from "path";
+import { parseArgs } from "util";
+import { ConsoleApprovalHandler } from "../approval/ConsoleApprovalHandler";
+import { Bat, BatOptions } from "../bat/Bat";
+import { JsonFileRunStateStore } from "../state/JsonFileRunStateStore";
+import { RunStateStore } from "../state/RunStateStore";
+import { TaskResult } from "../tasks/Task";
+import { Logger, formatLogRecord } from "../utils/Logger";
+import {
+  ModelProvider,
+  WorkflowDefinition,
+} from "../workflow/WorkflowDefinition";
+import { WorkflowLoader } from "../workflow/WorkflowLoader";
+import { WorkflowValidationError } from "../workflow/WorkflowValidationError";
+import { describeEvent } from "./describeEvent";
+
+/**
+ * Streams the command-line interface reads from and writes to
+ */
+export interface BatCliOptions {
+  /** Stream results are written to (default: process.stdout) */
+  stdout?: NodeJS.WritableStream;
+  /** Stream progress, logs and errors are written to (default: process.stderr) */
+  stderr?: NodeJS.WritableStream;
+  /**
+   * Stream approval answers are read from when it is a terminal
+   * (default: process.stdin)
+   */
+  stdin?: NodeJS.ReadableStream & { isTTY?: boolean };
+  /**
+   * Models by name, taking precedence over the models workflows define,
+   * e.g. to test workflows with a FakeChatModel
+   */
+  models?: Record<string, BaseChatModel>;
+}
+
+/**
+ * Options accepted on the command line
+ */
+const OPTIONS = {
+  workflow: { type: "string", short: "w" },
+  role: { type: "string" },
+  goal: { type: "string" },
+  backstory: { type: "string" },
+  provider: { type: "string" },
+  model: { type: "string" },
+  tools: { type: "string", short: "t" },
+  "state-dir": { type: "string" },
+  format: { type: "string", short: "f" },
+  quiet: { type: "boolean", short: "q" },
+  verbose: { type: "boolean", short: "v" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+type CliFlags = ReturnType<typeof parseCliArgs>["values"];
+
+const USAGE = `Usage: bat <command> [options]
+
+Commands:
+  run <workflow>             Run the tasks of a workflow file
+  agent --role <role> <task> Run a single task with one agent
+  list [workflow]            List the agents, tasks and tools
+  validate <workflow>        Check a workflow file
+  resume <workflow> [runId]  Resume an interrupted run (default: the latest
+                             unfinished run of the workflow)
+
+Options:
+  -w, --workflow <file>   Workflow defining the agent (agent command)
+      --role <role>       Role of the agent (agent command)
+      --goal <text>       Goal of an agent defined on the command line
+      --backstory <text>  Backstory of an agent defined on the command line
+      --provider <name>   Model provider of an agent defined on the command
+                          line: openai or groq (default: openai)
+      --model <name>      Model of an agent defined on the command line
+                          (default: gpt-4-turbo-preview)
+  -t, --tools <module>    Module exporting the tools agents can use
+                          (optional for list)
+      --state-dir <dir>   Directory where runs are checkpointed for resume
+                          (default: .bat/runs)
+  -f, --format <format>   Output format: text or json (default: text)
+  -q, --quiet             Do not print progress
+  -v, --verbose           Print log messages
+  -h, --help              Show this help
+`;
+
+/**
+ * Default directory where runs are checkpointed
+ */
+const DEFAULT_STATE_DIR = ".bat/runs";
+
+/**
+ * Default model of agents defined on the command line
+ */
+const DEFAULT_MODEL = "gpt-4-turbo-preview";
+
+/**
+ * Parses command-line arguments
+ * @param args The arguments
+ */
+function parseCliArgs(args: string[]) {
+  return parseArgs({ args, options: OPTIONS, allowPositionals: true });
+}
+
+/**
+ * Command-line interface running workflows and agents, printing live
+ * progress to stderr and results to stdout as text or JSON
+ */
+export class BatCli {
+  private readonly stdout: NodeJS.WritableStream;
+  private readonly stderr: NodeJS.WritableStream;
+  private readonly stdin: NodeJS.ReadableStream & { isTTY?: boolean };
+  private readonly models?: Record<string, BaseChatModel>;
+
+  constructor(options: BatCliOptions = {}) {
+    this.stdout = options.stdout ?? process.stdout;
+    this.stderr = options.stderr ?? process.stderr;
+    this.stdin = options.stdin ?? process.stdin;
+    this.models = options.models;
+  }
+
+  /**
+   * Runs a command
+   * @param argv Command-line arguments, without the node and script paths
+   * @returns Promise with the exit code: 0 on success, 1 if a task or the
+   * command failed, 2 on invalid usage
+   */
+  public async run(argv: string[]): Promise<number> {
+    let flags: CliFlags;
+    let positionals: string[];
+    try {
+      ({ values: flags, positionals } = parseCliArgs(argv));
+    } catch (error) {
+      return this.usageError(
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+
+    const [command, ...args] = positionals;
+    if (flags.help) {
+      this.stdout.write(USAGE);
+      return 0;
+    }
+    if (!command) {
+      return this.usageError("Missing command");
+    }
+    if (flags.format && flags.format !== "text" && flags.format !== "json") {
+      return this.usageError(`Unknown format: ${flags.format}`);
+    }
+
+    try {
+      switch (command) {
+        case "run":
+          return await this.runWorkflow(args, flags);
+        case "agent":
+          return await this.runAgent(args, flags);
+        case "list":
+          return await this.list(args, flags);
+        case "validate":
+          return await this.validate(args, flags);
+        case "resume":
+          return await this.resume(args, flags);
+        default:
+          return this.usageError(`Unknown command: ${command}`);
+      }
+    } catch (error) {
+      this.stderr.write(
+        `${error instanceof Error ? error.message : String(error)}\n`
+      );
+      return 1;
+    }
+  }
+
+  /**
+   * Reports invalid usage
+   * @param message What is wrong
+   * @returns The exit code for invalid usage
+   */
+  private usageError(message: string): number {
+    this.stderr.write(`${message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  /**
+   * Writes the output of a command to stdout
+   * @param flags Command-line flags
+   * @param json Output in the JSON format
+   * @param text Output in the text format
+   */
+  private print(flags: CliFlags, json: unknown, text: () => string): void {
+    this.stdout.write(
+      flags.format === "json"
+        ? `${JSON.stringify(json, null, 2)}\n`
+        : `${text()}\n`
+    );
+  }
+
+  /**
+   * Loads the tools of the module given with --tools. The module exports
+   * an array of tools as "tools" or as its default export.
+   * @param flags Command-line flags
+   * @returns Promise with the tools
+   */
+  private async loadTools(flags: CliFlags): Promise<BatTool[]> {
+    if (!flags.tools) {
+      return [];
+    }
+    const exported = await import(resolve(flags.tools));
+    const tools = exported.tools ?? exported.default;
+    if (
+      !Array.isArray(tools) ||
+      tools.some((tool) => typeof tool?.schema?.name !== "string")
+    ) {
+      throw new Error(
+        `${flags.tools} must export an array of tools as "tools" or as its default export`
+      );
+    }
+    return tools;
+  }
+
+  /**
+   * Creates the options of the Bat running the command
+   * @param flags Command-line flags
+   * @param file Workflow file the runs belong to, if any
+   */
+  private createBatOptions(
+    flags: CliFlags,
+    file?: string
+  ): BatOptions & { stateStore: RunStateStore } {
+    return {
+      workflow: file ? resolve(file) : undefined,
+      logger: new Logger({
+        level: flags.verbose ? "info" : "warn",
+        transports: [
+          {
+            write: (record) =>
+              this.stderr.write(`${formatLogRecord(record)}\n`),
+          },
+        ],
+      }),
+      stateStore: new JsonFileRunStateStore(
+        flags["state-dir"] ?? DEFAULT_STATE_DIR
+      ),
+      // Without a terminal to ask, tool calls and outputs needing approval fail
+      approvalHandler: this.stdin.isTTY
+        ? new ConsoleApprovalHandler({ input: this.stdin, output: this.stderr })
+        : undefined,
+    };
+  }
+
+  /**
+   * Runs the tasks of a workflow file
+   * @param args Command arguments: the workflow file
+   * @param flags Command-line flags
+   */
+  private async runWorkflow(args: string[], flags: CliFlags): Promise<number> {
+    const [file] = args;
+    if (!file) {
+      return this.usageError("run needs a workflow file");
+    }
+    const loader = new WorkflowLoader({
+      tools: await this.loadTools(flags),
+      models: this.models,
+      batOptions: this.createBatOptions(flags, file),
+    });
+    const bat = this.build(loader, await loader.parseFile(file));
+    return this.execute(bat, flags, (signal) => bat.kickoff(signal));
+  }
+
+  /**
+   * Runs a single task with one agent, taken from a workflow or defined
+   * by the command-line flags
+   * @param args Command arguments: the task description
+   * @param flags Command-line flags
+   */
+  private async runAgent(args: string[], flags: CliFlags): Promise<number> {
+    const description = args.join(" ");
+    if (!flags.role || !description) {
+      return this.usageError(
+        'agent needs --role and a task, e.g. bat agent --role Researcher "Find X"'
+      );
+    }
+
+    const tools = await this.loadTools(flags);
+    const loader = new WorkflowLoader({
+      tools,
+      models: this.models,
+      batOptions: this.createBatOptions(flags),
+    });
+    const workflow: WorkflowDefinition = flags.workflow
+      ? await loader.parseFile(flags.workflow)
+      : {
+          models: {
+            default: {
+              provider: (flags.provider ?? "openai") as ModelProvider,
+              model: flags.model ?? DEFAULT_MODEL,
+            },
+          },
+          agents: [
+            {
+              role: flags.role,
+              goal: flags.goal ?? "Complete the tasks you are given",
+              backstory: flags.backstory ?? `You are a ${flags.role}.`,
+              model: "default",
+              tools: tools.map((tool) => tool.schema.name),
+            },
+          ],
+        };
+
+    const definition = loader.validate(
+      {
+        ...workflow,
+        tasks: [{ id: "task", description, agentRole: flags.role }],
+      },
+      flags.workflow ?? "command line"
+    );
+    const bat = this.build(loader, definition);
+    return this.execute(bat, flags, (signal) => bat.kickoff(signal));
+  }
+
+  /**
+   * Resumes an interrupted run of a workflow
+   * @param args Command arguments: the workflow file and optionally the run id
+   * @param flags Command-line flags
+   */
+  private async resume(args: string[], flags: CliFlags): Promise<number> {
+    const [file, requestedRunId] = args;
+    if (!file) {
+      return this.usageError("resume needs a workflow file");
+    }
+    const batOptions = this.createBatOptions(flags, file);
+    const loader = new WorkflowLoader({
+      tools: await this.loadTools(flags),
+      models: this.models,
+      batOptions,
+    });
+    const bat = this.build(loader, await loader.parseFile(file));
+
+    // Only runs of this workflow: another workflow's tasks may share its ids
+    const runId =
+      requestedRunId ??
+      (await batOptions.stateStore.listRuns())
+        .filter(
+          (run) =>
+            run.status !== "completed" && run.workflow === batOptions.workflow
+        )
+        .sort((a, b) => b.updatedAt - a.updatedAt)[0]?.runId;
+    if (!runId) {
+      this.stderr.write(`No unfinished run of ${file} to resume\n`);
+      return 1;
+    }
+    return this.execute(bat, flags, (signal) => bat.resume(runId, signal));
+  }
+
+  /**
+   * Checks that the bat command can run a workflow. It opens no SQLite
+   * database, so agents with sqlite memory are rejected.
+   * @param definition Validated workflow
+   * @throws Error if the workflow cannot run
+   */
+  private checkSupported(definition: WorkflowDefinition): void {
+    const agent = definition.agents.find(
+      ({ memory }) => memory?.type === "sqlite"
+    );
+    if (agent) {
+      throw new Error(
+        `Agent ${agent.role} uses sqlite memory, which the bat command does not support; use json-file memory instead`
+      );
+    }
+  }
+
+  /**
+   * Builds the Bat of a workflow the bat command can run
+   * @param loader Loader of the workflow
+   * @param definition Validated workflow
+   * @returns The Bat
+   */
+  private build(loader: WorkflowLoader, definition: WorkflowDefinition): Bat {
+    this.checkSupported(definition);
+    return loader.build(definition);
+  }
+
+  /**
+   * Executes a run, printing progress and results. Interrupting the
+   * process cancels the run, which can then be resumed.
+   * @param bat The Bat
+   * @param flags Command-line flags
+   * @param start Starts the run
+   * @returns Promise with the exit code
+   */
+  private async execute(
+    bat: Bat,
+    flags: CliFlags,
+    start: (signal: AbortSignal) => Promise<TaskResult[]>
+  ): Promise<number> {
+    if (!flags.quiet) {
+      bat.on("event", (event) => {
+        const line = describeEvent(event);
+        if (line) {
+          this.stderr.write(`${line}\n`);
+        }
+      });
+    }
+
+    const controller = new AbortController();
+    const interrupt = () => controller.abort(new Error("Interrupted"));
+    process.once("SIGINT", interrupt);
+    process.once("SIGTERM", interrupt);
+    let results: TaskResult[];
+    try {
+      results = await start(controller.signal);
+    } finally {
+      process.off("SIGINT", interrupt);
+      process.off("SIGTERM", interrupt);
+      await bat.disconnectMemory();
+    }
+
+    const runId = bat.getLastRunId();
+    const usage = bat.getUsage(runId);
+    const completed = results.filter((r) => r.status === "completed").length;
+    this.print(flags, { runId, results, usage }, () =>
+      [
+        ...results.map((result) =>
+          [
+            `== ${result.taskId}: ${result.status} (${result.agentRole}, ${
+              result.attempts
+            } attempt${result.attempts === 1 ? "" : "s"}, ${(
+              result.durationMs / 1000
+            ).toFixed(1)}s)`,
+            result.status === "completed"
+              ? result.output
+              : `Error: ${result.error}`,
+            "",
+          ].join("\n")
+        ),
+        `Run ${runId}: ${completed}/${results.length} tasks completed, ${
+          usage.total.totalTokens
+        } tokens, $${usage.total.cost.toFixed(4)}`,
+      ].join("\n")
+    );
+    return completed === results.length ? 0 : 1;
+  }
+
+  /**
+   * Lists the agents and tasks of a workflow and the available tools
+   * @param args Command arguments: optionally the workflow file
+   * @param flags Command-line flags
+   */
+  private async list(args: string[], flags: CliFlags): Promise<number> {
+    const [file] = args;
+    const tools = await this.loadTools(flags);
+    // Without --tools, the tools of the agents are listed unchecked
+    const definition = file
+      ? await new WorkflowLoader({
+          tools: flags.tools ? tools : undefined,
+          models: this.models,
+        }).parseFile(file)
+      : undefined;
+    const agents = definition?.agents ?? [];
+    const tasks = definition?.tasks ?? [];
+
+    this.print(
+      flags,
+      {
+        agents,
+        tasks,
+        tools: tools.map(({ schema }) => ({
+          name: schema.name,
+          description: schema.description,
+        })),
+      },
+      () =>
+        [
+          "Agents:",
+          ...agents.map(
+            (agent) =>
+              `  ${agent.role} (model: ${agent.model}${
+                agent.tools?.length ? `, tools: ${agent.tools.join(", ")}` : ""
+              }): ${agent.goal}`
+          ),
+          "Tasks:",
+          ...tasks.map(
+            (task, index) =>
+              `  ${task.id ?? `task-${index + 1}`} -> ${task.agentRole}${
+                task.dependsOn?.length
+                  ? ` (after ${task.dependsOn.join(", ")})`
+                  : ""
+              }: ${task.description}`
+          ),
+          "Tools:",
+          ...tools.map(
+            ({ schema }) => `  ${schema.name}: ${schema.description}`
+          ),
+        ].join("\n")
+    );
+    return 0;
+  }
+
+  /**
+   * Validates a workflow file
+   * @param args Command arguments: the workflow file
+   * @param flags Command-line flags
+   */
+  private async validate(args: string[], flags: CliFlags): Promise<number> {
+    const [file] = args;
+    if (!file) {
+      return this.usageError("validate needs a workflow file");
+    }
+    const loader = new WorkflowLoader({
+      tools: await this.loadTools(flags),
+      models: this.models,
+    });
+    let definition: WorkflowDefinition;
+    try {
+      definition = await loader.parseFile(file);
+    } catch (error) {
+      if (flags.format === "json" && error instanceof WorkflowValidationError) {
+        this.print(flags, { valid: false, issues: error.issues }, () => "");
+        return 1;
+      }
+      throw error;
+    }
+    this.checkSupported(definition);
+    const agents = definition.agents.length;
+    const tasks = definition.tasks?.length ?? 0;
+    this.print(
+      flags,
+      { valid: true, agents, tasks },
+      () => `${file} is valid: ${agents} agents, ${tasks} tasks`
+    );
+    return 0;
+  }
+}
@@ -0,0 +1,46 @@
+import { ExecutionEvent } from "../events/ExecutionEvent";
+
+/**
+ * Describes an execution event as a progress line for the console
+ * @param event The event
+ * @returns The line, or undefined for events not worth showing
+ */
+export function describeEvent(event: ExecutionEvent): string | undefined {
+  const task = event.taskId ? `[${event.taskId}] ` : "";
+  switch (event.type) {
+    case "task_started":
+      return `▶ ${task}started by ${event.agentRole}`;
+    case "tool_selected":
+      return `  ${task}${event.agentRole} uses ${event.tool} ${JSON.stringify(
+        event.input
+      )}`;
+    case "tool_result":
+      return event.success
+        ? undefined
+        : `  ${task}${event.tool} failed: ${event.observation}`;
+    case "delegation":
+      return `  ${task}${event.agentRole} delegates to ${event.targetAgentRole}: ${event.reason}`;
+    case "retry":
+      return `↻ ${task}attempt ${event.attempt} failed: ${event.error} (retrying in ${event.delayMs}ms)`;
+    case "approval_requested":
+      return `? ${task}waiting for approval (${event.request.kind})`;
+    case "plan_created":
+      return `  ${event.agentRole} planned ${event.tasks.length} tasks (round ${event.round})`;
+    case "task_finished": {
+      const { result } = event;
+      const seconds = (result.durationMs / 1000).toFixed(1);
+      switch (result.status) {
+        case "completed":
+          return `✔ ${task}completed in ${seconds}s`;
+        case "failed":
+          return `✖ ${task}failed: ${result.error}`;
+        default:
+          return `- ${task}${result.status}${
+            result.error ? `: ${result.error}` : ""
+          }`;
+      }
+    }
+    default:
+      return undefined;
+  }
+}
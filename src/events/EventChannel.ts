@@ -0,0 +1,77 @@
+import { ExecutionEvent, ExecutionEventListener } from "./ExecutionEvent";
+
+/**
+ * Buffers pushed values and exposes them as an async iterator
+ */
+export class EventChannel<T> implements AsyncIterable<T> {
+  private readonly buffer: T[] = [];
+  private wake: (() => void) | null = null;
+  private closed = false;
+
+  /**
+   * Adds a value to the channel
+   * @param value Value to add
+   */
+  public push(value: T): void {
+    if (this.closed) {
+      return;
+    }
+    this.buffer.push(value);
+    this.notify();
+  }
+
+  /**
+   * Closes the channel; iteration ends once buffered values are consumed
+   */
+  public close(): void {
+    this.closed = true;
+    this.notify();
+  }
+
+  /**
+   * Wakes up the iterator waiting for a value, if any
+   */
+  private notify(): void {
+    const wake = this.wake;
+    this.wake = null;
+    wake?.();
+  }
+
+  /**
+   * Iterates over pushed values until the channel is closed
+   */
+  public async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    while (true) {
+      if (this.buffer.length > 0) {
+        yield this.buffer.shift()!;
+      } else if (this.closed) {
+        return;
+      } else {
+        await new Promise<void>((resolve) => {
+          this.wake = resolve;
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Runs an operation and yields the events it emits as they happen
+ * @param run Operation to run, receiving the listener to emit events to
+ * @returns Async generator of events that returns the operation's result
+ */
+export async function* streamEvents<R>(
+  run: (emit: ExecutionEventListener) => Promise<R>
+): AsyncGenerator<ExecutionEvent, R> {
+  const channel = new EventChannel<ExecutionEvent>();
+  const result = run((event) => channel.push(event)).finally(() =>
+    channel.close()
+  );
+  // Errors are rethrown when the result is returned below
+  result.catch(() => undefined);
+
+  for await (const event of channel) {
+    yield event;
+  }
+  return result;
+}
@@ -0,0 +1,149 @@
+import { AgentExecutionResult } from "../agents/Agent";
+import { PlannedTask } from "../agents/Manager";
+import { TaskResult } from "../tasks/Task";
+import {
+  ApprovalDecision,
+  ApprovalRequest,
+} from "../approval/ApprovalHandler";
+
+/**
+ * Fields shared by every execution event
+ */
+interface BaseExecutionEvent {
+  timestamp: number;
+  taskId?: string;
+}
+
+export interface TaskStartedEvent extends BaseExecutionEvent {
+  type: "task_started";
+  taskId: string;
+  description: string;
+  agentRole: string;
+}
+
+export interface AgentStartedEvent extends BaseExecutionEvent {
+  type: "agent_started";
+  agentRole: string;
+  input: string;
+}
+
+export interface ToolSelectedEvent extends BaseExecutionEvent {
+  type: "tool_selected";
+  agentRole: string;
+  tool: string;
+  input: unknown;
+}
+
+export interface ToolResultEvent extends BaseExecutionEvent {
+  type: "tool_result";
+  agentRole: string;
+  tool: string;
+  success: boolean;
+  observation: string;
+}
+
+export interface DelegationEvent extends BaseExecutionEvent {
+  type: "delegation";
+  agentRole: string;
+  targetAgentRole: string;
+  reason: string;
+  /** Roles the task went through, from the first delegator to the target */
+  chain: string[];
+}
+
+export interface LLMTokenEvent extends BaseExecutionEvent {
+  type: "llm_token";
+  agentRole: string;
+  token: string;
+}
+
+export interface AgentFinishedEvent extends BaseExecutionEvent {
+  type: "agent_finished";
+  agentRole: string;
+  result: AgentExecutionResult;
+}
+
+export interface RetryEvent extends BaseExecutionEvent {
+  type: "retry";
+  taskId: string;
+  attempt: number;
+  error: string;
+  delayMs: number;
+}
+
+export interface TaskFinishedEvent extends BaseExecutionEvent {
+  type: "task_finished";
+  taskId: string;
+  result: TaskResult;
+}
+
+export interface PlanCreatedEvent extends BaseExecutionEvent {
+  type: "plan_created";
+  agentRole: string;
+  round: number;
+  tasks: PlannedTask[];
+}
+
+export interface PlanReviewedEvent extends BaseExecutionEvent {
+  type: "plan_reviewed";
+  agentRole: string;
+  round: number;
+  approved: boolean;
+  feedback: string;
+}
+
+export interface ApprovalRequestedEvent extends BaseExecutionEvent {
+  type: "approval_requested";
+  agentRole: string;
+  request: ApprovalRequest;
+}
+
+export interface ApprovalResolvedEvent extends BaseExecutionEvent {
+  type: "approval_resolved";
+  agentRole: string;
+  requestId: string;
+  decision: ApprovalDecision;
+}
+
+/**
+ * Events emitted while agents and tasks execute
+ */
+export type ExecutionEvent =
+  | TaskStartedEvent
+  | AgentStartedEvent
+  | ToolSelectedEvent
+  | ToolResultEvent
+  | DelegationEvent
+  | LLMTokenEvent
+  | AgentFinishedEvent
+  | RetryEvent
+  | TaskFinishedEvent
+  | PlanCreatedEvent
+  | PlanReviewedEvent
+  | ApprovalRequestedEvent
+  | ApprovalResolvedEvent;
+
+export type ExecutionEventType = ExecutionEvent["type"];
+
+/**
+ * Receives execution events
+ */
+export type ExecutionEventListener = (event: ExecutionEvent) => void;
+
+/**
+ * Event contents without the timestamp, which is added when it is emitted
+ */
+export type ExecutionEventData = ExecutionEvent extends infer E
+  ? E extends ExecutionEvent
+    ? Omit<E, "timestamp">
+    : never
+  : never;
+
+/**
+ * Creates an event stamped with the current time
+ * @param data Event contents
+ * @returns The event
+ */
+export function createEvent(data: ExecutionEventData): ExecutionEvent {
+  return { ...data, timestamp: Date.now() } as ExecutionEvent;
+}
@@ -1,7 +1,6 @@
 import { ChatOpenAI } from "@langchain/openai";
 import { MemoryFactory } from "./agents/memory/MemoryFactory";
 import { Agent } from "./agents/Agent";
-import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import dotenv from "dotenv";
 import { Bat } from "./bat/Bat";
 
@@ -23,10 +22,7 @@ async function main() {
     backstory:
       "I am an AI research assistant specialized in finding and analyzing information from the web.",
     model: model,
-    memory: MemoryFactory.createMemory({
-      type: "buffer",
-      llm: model as BaseChatModel,
-    }),
+    memory: MemoryFactory.createMemory({ type: "buffer" }),
     capabilities: ["web_search"],
   });
 
@@ -36,10 +32,7 @@ async function main() {
     backstory:
       "I am a data analyst specialized in processing and interpreting complex data sets.",
     model: model,
-    memory: MemoryFactory.createMemory({
-      type: "buffer",
-      llm: model as BaseChatModel,
-    }),
+    memory: MemoryFactory.createMemory({ type: "buffer" }),
     capabilities: ["data_analysis"],
   });
 
@@ -49,57 +42,80 @@ async function main() {
     backstory:
       "I am a content writer specialized in creating clear and engaging content based on research and data.",
     model: model,
-    memory: MemoryFactory.createMemory({
-      type: "buffer",
-      llm: model as BaseChatModel,
-    }),
+    memory: MemoryFactory.createMemory({ type: "buffer" }),
     capabilities: ["content_creation"],
   });
 
-  // Example collaborative tasks
-  const tasks = [
-    {
-      description:
-        "Pesquise sobre as últimas tendências em inteligência artificial",
-      agent: researchAgent,
-      expectedOutput: "Dados de pesquisa sobre IA",
-    },
-    {
-      description:
-        "Analise os dados coletados sobre IA e identifique os principais insights",
-      agent: dataAnalystAgent,
-      expectedOutput: "Análise dos dados de IA",
-    },
-    {
-      description:
-        "Crie um artigo informativo baseado na análise das tendências de IA",
-      agent: contentWriterAgent,
-      expectedOutput: "Artigo sobre tendências de IA",
-    },
-  ];
+  // Example collaborative tasks: each task receives the results of the
+  // tasks it depends on as additional context
+  const pipeline = new Bat([
+    researchAgent,
+    dataAnalystAgent,
+    contentWriterAgent,
+  ]);
+
+  // Facts on the shared blackboard reach every agent whose task they are
+  // relevant to; completed task outputs are added to it automatically
+  pipeline.getBlackboard().write("editor", {
+    key: "público do artigo",
+    value:
+      "O artigo é para gestores sem formação técnica: evite jargões e cite exemplos práticos de IA",
+  });
 
-  // Execute tasks sequentially with collaboration
-  let previousResult = null;
-  for (const task of tasks) {
-    console.log(`\nExecutando tarefa com o agente: ${task.agent.role}`);
-    console.log("Descrição da tarefa:", task.description);
-
-    try {
-      // If there's a previous result, include it in the context
-      const taskInput = previousResult
-        ? `${task.description}\n\nContexto adicional: ${previousResult}`
-        : task.description;
-
-      const result = await task.agent.execute(taskInput);
-      console.log("\nResultado da tarefa:", result);
-      previousResult = result;
-
-      // Add a delay between tasks to respect rate limits
-      await new Promise((resolve) => setTimeout(resolve, 5000));
-    } catch (error) {
-      console.error("Erro ao executar tarefa:", error);
-    }
-  }
+  const researchTask = pipeline.addTask({
+    id: "research",
+    description:
+      "Pesquise sobre as últimas tendências em inteligência artificial",
+    agentRole: researchAgent.role,
+  });
+
+  const analysisTask = pipeline.addTask({
+    id: "analysis",
+    description:
+      "Analise os dados coletados sobre IA e identifique os principais insights",
+    agentRole: dataAnalystAgent.role,
+    dependsOn: [researchTask],
+  });
+
+  pipeline.addTask({
+    id: "article",
+    description:
+      "Crie um artigo informativo baseado na análise das tendências de IA",
+    agentRole: contentWriterAgent.role,
+    dependsOn: [analysisTask],
+  });
+
+  console.log("\nExecutando tarefas colaborativas...");
+  const pipelineResults = await pipeline.kickoff();
+  pipelineResults.forEach((result) => {
+    console.log(`\nResultado da tarefa ${result.taskId}:`, result.output);
+  });
+
+  // Example of hierarchical execution: a manager agent plans the subtasks,
+  // assigns them to the team and reviews the results
+  const managerAgent = new Agent({
+    role: "Project Manager",
+    goal: "Coordinate the team to deliver complete and accurate work",
+    backstory:
+      "I am a project manager who breaks objectives down and assigns work to the right specialists.",
+    model: model,
+    capabilities: ["planning", "review"],
+  });
+  const team = new Bat([researchAgent, dataAnalystAgent, contentWriterAgent], {
+    manager: managerAgent,
+    maxReplans: 1,
+  });
+
+  console.log("\nExecutando objetivo com gerente...");
+  const objectiveResult = await team.kickoffObjective(
+    "Produza um relatório sobre o uso de IA na saúde, com dados e conclusões"
+  );
+  console.log(
+    `\nObjetivo (${objectiveResult.status}, ${objectiveResult.rounds} rodadas):`,
+    objectiveResult.status === "completed"
+      ? objectiveResult.output
+      : objectiveResult.error
+  );
 
   // Example of parallel task execution
   console.log("\nExecutando tarefas em paralelo...");
@@ -126,11 +142,11 @@ async function main() {
           agent: task.agent.role,
           result,
         };
-      } catch (error: any) {
+      } catch (error: unknown) {
         console.error(`Erro na tarefa paralela do ${task.agent.role}:`, error);
         return {
           agent: task.agent.role,
-          error: error.message,
+          error: error instanceof Error ? error.message : String(error),
         };
       }
     })
@@ -146,8 +162,16 @@ async function main() {
     }
   });
 
-  // Create a Bat instance
-  const bat = new Bat([researchAgent, dataAnalystAgent]);
+  // Create a Bat instance that runs at most two tasks at a time,
+  // respects the provider rate limits and stops once the run costs over $1
+  const bat = new Bat([researchAgent, dataAnalystAgent], {
+    maxConcurrency: 2,
+    rateLimit: { requestsPerMinute: 60, tokensPerMinute: 90000 },
+    prices: {
+      "gpt-4-turbo": { promptPerMillion: 10, completionPerMillion: 30 },
+    },
+    budget: { maxCost: 1 },
+  });
 
   // Add tasks with different configurations
   bat.addTask({
@@ -162,8 +186,10 @@ async function main() {
     description: "Task with custom retry settings",
     agentRole: "Data Analyst",
     retryConfig: {
-      maxRetries: 5,
-      retryDelayMs: 2000, // 2 seconds between retries
+      maxAttempts: 5,
+      retryDelayMs: 2000, // 2 seconds before the first retry
+      backoff: "exponential",
+      maxDelayMs: 20000,
     },
   });
 
@@ -174,7 +200,7 @@ async function main() {
     timeoutMs: 60000, // 60 seconds
   });
 
-  // Task with default configuration (medium priority, 30s timeout, 3 retries)
+  // Task with default configuration (medium priority, 30s timeout, 3 attempts)
   bat.addTask({
     description: "Regular task with default settings",
     agentRole: "Research Assistant",
@@ -184,9 +210,14 @@ async function main() {
   const results = await bat.kickoff();
   console.log("\nResultados das tarefas do Bat:");
   results.forEach((result, index) => {
-    console.log(`\nTarefa ${index + 1}:`);
-    console.log(result);
+    console.log(`\nTarefa ${index + 1} (${result.status}):`);
+    console.log(result.status === "completed" ? result.output : result.error);
   });
+
+  const usage = bat.getUsage(bat.getLastRunId());
+  console.log(
+    `\nUso: ${usage.total.totalTokens} tokens, custo estimado $${usage.total.cost.toFixed(4)}`
+  );
 }
 
 // Run the main function
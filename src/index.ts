@@ -1,12 +1,234 @@
 // Core classes
 export { Agent } from "./agents/Agent";
 export { Bat } from "./bat/Bat";
+export { Manager } from "./agents/Manager";
 export { Task } from "./tasks/Task";
+export { ToolInputValidator } from "./tools/ToolInputValidator";
+export { EventChannel } from "./events/EventChannel";
+export { RateLimiter } from "./scheduling/RateLimiter";
+export { TokenBucket } from "./scheduling/TokenBucket";
+export { Logger } from "./utils/Logger";
+export { ConsoleTransport } from "./utils/ConsoleTransport";
+export { FileTransport } from "./utils/FileTransport";
+export { UsageTracker } from "./usage/UsageTracker";
+export { InMemoryRunStateStore } from "./state/InMemoryRunStateStore";
+export { JsonFileRunStateStore } from "./state/JsonFileRunStateStore";
+export { SqliteRunStateStore } from "./state/SqliteRunStateStore";
+export { ConsoleApprovalHandler } from "./approval/ConsoleApprovalHandler";
+export { ResponseCache } from "./cache/ResponseCache";
+export { InMemoryCacheStore } from "./cache/InMemoryCacheStore";
+export { FileCacheStore } from "./cache/FileCacheStore";
+export { RedisCacheStore } from "./cache/RedisCacheStore";
+export { FakeChatModel } from "./testing/FakeChatModel";
+export { RecordReplay } from "./testing/RecordReplay";
+export { WorkflowLoader } from "./workflow/WorkflowLoader";
+export { BatCli } from "./cli/BatCli";
+export { MemoryFactory } from "./agents/memory/MemoryFactory";
+export {
+  JsonFileChatMessageHistory,
+} from "./agents/memory/JsonFileChatMessageHistory";
+export {
+  SqliteChatMessageHistory,
+} from "./agents/memory/SqliteChatMessageHistory";
+export { HashEmbeddings } from "./agents/memory/HashEmbeddings";
+export {
+  DatabaseVectorStoreMemory,
+} from "./agents/memory/DatabaseVectorStoreMemory";
+export { Blackboard } from "./blackboard/Blackboard";
+export { ContextBudget } from "./prompts/ContextBudget";
+export {
+  ProgrammaticApprovalHandler,
+} from "./approval/ProgrammaticApprovalHandler";
+
+// Retry helpers
+export {
+  isRetryableError,
+  getRetryAfterMs,
+  getRetryDelay,
+  resolveRetryPolicy,
+} from "./tasks/RetryPolicy";
+
+// Schemas
+export { workflowSchema } from "./workflow/workflowSchema";
+
+// Testing helpers
+export {
+  toolSelectionResponse,
+  finalAnswerResponse,
+  delegationResponse,
+  toolCallResponse,
+} from "./testing/fakeResponses";
+
+// Errors
+export { ToolInputValidationError } from "./tools/ToolInputValidationError";
+export { AgentExecutionError } from "./agents/AgentExecutionError";
+export { NonRetryableError } from "./tasks/NonRetryableError";
+export { BudgetExceededError } from "./usage/BudgetExceededError";
+export { ApprovalRejectedError } from "./approval/ApprovalRejectedError";
+export { WorkflowValidationError } from "./workflow/WorkflowValidationError";
 
 // Interfaces
 export {
   LLMModel,
   AgentMemory,
+  SessionMemoryFactory,
   TaskDelegation,
+  DelegationResult,
   AgentConfig,
+  AgentStep,
+  AgentExecutionResult,
+  AgentExecuteOptions,
+  ExecutionContext,
 } from "./agents/Agent";
+export {
+  MemoryType,
+  MemoryConfig,
+  BaseMemoryConfig,
+  BufferMemoryConfig,
+  SummaryMemoryConfig,
+  BufferWindowMemoryConfig,
+  CombinedMemoryConfig,
+  TokenBufferMemoryConfig,
+  VectorStoreMemoryConfig,
+  MongoDBMemoryConfig,
+  RedisMemoryConfig,
+  MotorheadMemoryConfig,
+  JsonFileMemoryConfig,
+  SqliteMemoryConfig,
+} from "./agents/memory/MemoryFactory";
+export { MemoryConnection } from "./agents/memory/DatabaseVectorStoreMemory";
+export { HashEmbeddingsParams } from "./agents/memory/HashEmbeddings";
+export {
+  MemoryExport,
+  SessionMemoryExport,
+} from "./agents/memory/memoryContents";
+export {
+  BlackboardScope,
+  BlackboardEntryKind,
+  BlackboardEntry,
+  BlackboardWrite,
+  BlackboardQuery,
+  BlackboardSearchOptions,
+} from "./blackboard/Blackboard";
+export {
+  ContextBudgetOptions,
+  MemoryCompaction,
+} from "./prompts/ContextBudget";
+export { TaskParams, BatOptions, ObjectiveResult } from "./bat/Bat";
+export { PlannedTask, PlanReview } from "./agents/Manager";
+export { RateLimitConfig } from "./scheduling/RateLimiter";
+export {
+  TaskRetryConfig,
+  RetryPolicy,
+  RetryInfo,
+  BackoffStrategy,
+} from "./tasks/RetryPolicy";
+export {
+  TaskPriority,
+  TaskOptions,
+  TaskDependencyResult,
+  TaskResult,
+  TaskStatus,
+  TaskRunOptions,
+} from "./tasks/Task";
+export { TaskOutputSchema, ParseableSchema } from "./tasks/TaskOutputSchema";
+export { TokenUsage } from "./usage/TokenUsage";
+export {
+  ModelPrice,
+  PriceTable,
+  UsageScope,
+  UsageRecord,
+  UsageTotals,
+  UsageSummary,
+  UsageBudget,
+  UsageScopeOptions,
+  UsageTrackerOptions,
+} from "./usage/UsageTracker";
+export {
+  LogLevel,
+  LoggerLevel,
+  LogContext,
+  LogFields,
+  LogRecord,
+  LoggerOptions,
+} from "./utils/Logger";
+export { LogTransport } from "./utils/LogTransport";
+export {
+  RunStateStore,
+  RunStatus,
+  RunRecord,
+  RunState,
+  TaskCheckpoint,
+  TaskCheckpointStatus,
+} from "./state/RunStateStore";
+export { SqliteDatabase, SqliteStatement } from "./utils/sqlite";
+export {
+  ApprovalPolicy,
+  ApprovalRequest,
+  ToolApprovalRequest,
+  OutputApprovalRequest,
+  ApprovalDecision,
+  ApprovalHandler,
+} from "./approval/ApprovalHandler";
+export {
+  ConsoleApprovalHandlerOptions,
+} from "./approval/ConsoleApprovalHandler";
+export { ApprovalCallback } from "./approval/ProgrammaticApprovalHandler";
+export { CacheStore } from "./cache/CacheStore";
+export {
+  ResponseCacheOptions,
+  ToolCacheSetting,
+  CachedToolResult,
+} from "./cache/ResponseCache";
+export { RedisCacheClient } from "./cache/RedisCacheStore";
+export {
+  FakeChatModelOptions,
+  FakeChatModelCallOptions,
+  FakeModelResponse,
+  FakeResponse,
+  FakeResponseRule,
+  FakeToolCall,
+  FakeModelCall,
+  PromptMatcher,
+} from "./testing/FakeChatModel";
+export {
+  RecordReplayMode,
+  RecordReplayOptions,
+  RecordReplayFixture,
+  RecordedModel,
+  RecordedModelCall,
+  RecordedToolCall,
+} from "./testing/RecordReplay";
+export {
+  WorkflowDefinition,
+  ModelProvider,
+  ModelDefinition,
+  MemoryDefinition,
+  EmbeddingsProvider,
+  AgentDefinition,
+  RetryDefinition,
+  TaskDefinition,
+  WorkflowOptions,
+} from "./workflow/WorkflowDefinition";
+export { WorkflowLoaderOptions } from "./workflow/WorkflowLoader";
+export { BatCliOptions } from "./cli/BatCli";
+export { TraceContext } from "./utils/tracing";
+export { ToolDefinition, ToolParametersSchema } from "./tools/toolDefinition";
+export {
+  ExecutionEvent,
+  ExecutionEventType,
+  ExecutionEventListener,
+  TaskStartedEvent,
+  AgentStartedEvent,
+  ToolSelectedEvent,
+  ToolResultEvent,
+  DelegationEvent,
+  LLMTokenEvent,
+  AgentFinishedEvent,
+  RetryEvent,
+  TaskFinishedEvent,
+  PlanCreatedEvent,
+  PlanReviewedEvent,
+  ApprovalRequestedEvent,
+  ApprovalResolvedEvent,
+} from "./events/ExecutionEvent";
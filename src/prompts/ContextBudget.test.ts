@@ -0,0 +1,112 @@
+import { ContextBudget } from "./ContextBudget";
+import { Logger } from "../utils/Logger";
+
+const logger = new Logger({ transports: [] });
+
+/**
+ * Creates a budget counting one token per character
+ * @param options Budget options
+ */
+function createBudget(
+  options: ConstructorParameters<typeof ContextBudget>[1] = {}
+): ContextBudget {
+  return new ContextBudget(
+    "test-model",
+    { contextWindow: 1000, countTokens: (text) => text.length, ...options },
+    undefined,
+    logger
+  );
+}
+
+describe("ContextBudget", () => {
+  it("splits the prompt tokens between tools and memory", () => {
+    const budget = createBudget({ reservedOutputTokens: 200 });
+
+    expect(budget.promptTokens).toBe(800);
+    expect(budget.toolTokens).toBe(200);
+    expect(budget.memoryTokens).toBe(400);
+  });
+
+  it("reserves the maxTokens of the model for the response", () => {
+    const budget = new ContextBudget(
+      "test-model",
+      { contextWindow: 1000 },
+      300,
+      logger
+    );
+
+    expect(budget.promptTokens).toBe(700);
+  });
+
+  it("clamps an output reserve that leaves no room for prompts", () => {
+    const warnings = new Logger({ transports: [] });
+
+    const budget = new ContextBudget(
+      "test-model",
+      { contextWindow: 1000, reservedOutputTokens: 4096 },
+      undefined,
+      warnings
+    );
+
+    expect(budget.promptTokens).toBe(500);
+    expect(warnings.getRecords()).toEqual([
+      expect.objectContaining({
+        level: "warn",
+        message: expect.stringContaining(
+          "after reserving 4096 output tokens; reserving 500"
+        ),
+      }),
+    ]);
+  });
+
+  it("rejects shares outside of (0, 1]", () => {
+    expect(() => createBudget({ toolShare: 0 })).toThrow(
+      "toolShare must be greater than 0 and at most 1"
+    );
+    expect(() => createBudget({ memoryShare: 1.5 })).toThrow(
+      "memoryShare must be greater than 0 and at most 1"
+    );
+  });
+});
+
+describe("ContextBudget.truncate", () => {
+  const budget = createBudget();
+  const text = `${"a".repeat(150)}${"b".repeat(150)}`;
+
+  it("keeps texts that fit", () => {
+    expect(budget.truncate(text, 300)).toBe(text);
+  });
+
+  it("keeps the beginning and end of a text that does not fit", () => {
+    const truncated = budget.truncate(text, 100);
+
+    // The marker takes 31 of the 100 tokens, two thirds of the rest are
+    // kept from the beginning
+    expect(truncated).toBe(
+      `${"a".repeat(46)}\n[... 231 tokens left out ...]\n${"b".repeat(23)}`
+    );
+    expect(budget.count(truncated)).toBeLessThanOrEqual(100);
+  });
+
+  it("keeps a few tokens of the text however small the budget", () => {
+    const truncated = budget.truncate(text, 1);
+
+    expect(truncated).toBe(
+      `${"a".repeat(11)}\n[... 284 tokens left out ...]\n${"b".repeat(5)}`
+    );
+  });
+});
+
+describe("ContextBudget.splitNewest", () => {
+  it("keeps the newest items that fit", () => {
+    const budget = createBudget();
+
+    expect(
+      budget.splitNewest(["first", "second", "third"], 11, (item) => item)
+    ).toEqual({ older: ["first"], newest: ["second", "third"] });
+    expect(budget.splitNewest(["first"], 4, (item) => item)).toEqual({
+      older: ["first"],
+      newest: [],
+    });
+  });
+});
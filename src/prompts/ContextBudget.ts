@@ -0,0 +1,155 @@
+import { estimateTokens } from "../usage/TokenUsage";
+import { getContextWindow } from "../utils/getContextWindow";
+import { Logger } from "../utils/Logger";
+
+/**
+ * How memory that does not fit in a prompt is compacted: summarized by
+ * the model, or truncated to the newest messages
+ */
+export type MemoryCompaction = "summarize" | "truncate";
+
+/**
+ * Options for fitting prompts in the context window of a model
+ */
+export interface ContextBudgetOptions {
+  /** Tokens the model accepts (default: known size for the model, or 8192) */
+  contextWindow?: number;
+  /** Tokens kept free for the response (default: the model's maxTokens, or 1024) */
+  reservedOutputTokens?: number;
+  /**
+   * Counts the tokens of a text (default: an estimate of 4 characters per
+   * token); pass the model's tokenizer for exact counts
+   */
+  countTokens?: (text: string) => number;
+  /** Share of the prompt that tool descriptions may take before they are shortened (default: 0.25) */
+  toolShare?: number;
+  /** Share of the prompt that memory may take before it is compacted (default: 0.5) */
+  memoryShare?: number;
+  /** How memory over its share is compacted (default: "summarize") */
+  memoryCompaction?: MemoryCompaction;
+}
+
+/**
+ * Default number of tokens kept free for the response
+ */
+const DEFAULT_RESERVED_OUTPUT_TOKENS = 1024;
+
+/**
+ * Smallest number of tokens a shortened text keeps
+ */
+const MIN_TRUNCATED_TOKENS = 16;
+
+/**
+ * Splits the context window of a model between the parts of a prompt and
+ * the response, and shortens texts that do not fit
+ */
+export class ContextBudget {
+  /** Tokens available for a prompt */
+  public readonly promptTokens: number;
+  public readonly toolTokens: number;
+  public readonly memoryTokens: number;
+  public readonly memoryCompaction: MemoryCompaction;
+  private readonly countTokens: (text: string) => number;
+
+  /**
+   * @param modelName Name of the model, used to look up its context window
+   * @param options Budget options
+   * @param modelMaxTokens Maximum response tokens configured on the model
+   * @param logger Logger warning about a reserve that does not fit
+   */
+  constructor(
+    modelName: string,
+    options: ContextBudgetOptions = {},
+    modelMaxTokens?: number,
+    logger: Logger = Logger.getInstance()
+  ) {
+    const {
+      contextWindow = getContextWindow(modelName),
+      reservedOutputTokens: requestedOutputTokens = modelMaxTokens !== undefined && modelMaxTokens > 0
+        ? modelMaxTokens
+        : DEFAULT_RESERVED_OUTPUT_TOKENS,
+      countTokens = estimateTokens,
+      toolShare = 0.25,
+      memoryShare = 0.5,
+      memoryCompaction = "summarize",
+    } = options;
+    let reservedOutputTokens = requestedOutputTokens;
+    if (reservedOutputTokens >= contextWindow) {
+      // Usually a model missing from the known context windows that has a
+      // large maxTokens: its real window is likely larger than assumed
+      reservedOutputTokens = Math.floor(contextWindow / 2);
+      logger.warn(
+        `The context window of ${contextWindow} tokens of ${modelName} leaves no room for prompts after reserving ${requestedOutputTokens} output tokens; reserving ${reservedOutputTokens}. Set the contextWindow budget option to the model's context window.`
+      );
+    }
+    for (const [name, share] of Object.entries({ toolShare, memoryShare })) {
+      if (share <= 0 || share > 1) {
+        throw new Error(`${name} must be greater than 0 and at most 1`);
+      }
+    }
+
+    this.promptTokens = contextWindow - reservedOutputTokens;
+    this.toolTokens = Math.floor(this.promptTokens * toolShare);
+    this.memoryTokens = Math.floor(this.promptTokens * memoryShare);
+    this.memoryCompaction = memoryCompaction;
+    this.countTokens = countTokens;
+  }
+
+  /**
+   * Counts the tokens of a text
+   * @param text The text
+   */
+  public count(text: string): number {
+    return this.countTokens(text);
+  }
+
+  /**
+   * Shortens a text to a number of tokens, keeping its beginning and end
+   * @param text The text
+   * @param maxTokens Tokens the text may take
+   * @returns The text, with a marker where a part was left out
+   */
+  public truncate(text: string, maxTokens: number): string {
+    const tokens = this.count(text);
+    if (tokens <= maxTokens) {
+      return text;
+    }
+    const marker = (leftOut: number) => `\n[... ${leftOut} tokens left out ...]\n`;
+    // The marker takes part of the tokens the text may take
+    const keptTokens = Math.max(
+      maxTokens - this.count(marker(tokens)),
+      MIN_TRUNCATED_TOKENS
+    );
+    const keptChars = Math.floor((text.length * keptTokens) / tokens);
+    const head = Math.ceil((keptChars * 2) / 3);
+    return `${text.slice(0, head)}${marker(tokens - keptTokens)}${text.slice(
+      text.length - (keptChars - head)
+    )}`;
+  }
+
+  /**
+   * Splits items, e.g. chat messages, into the newest ones that fit in a
+   * number of tokens and the older ones that do not
+   * @param items Items, oldest first
+   * @param maxTokens Tokens the newest items may take
+   * @param format Formats an item as it appears in the prompt
+   * @returns The older and the newest items
+   */
+  public splitNewest<T>(
+    items: T[],
+    maxTokens: number,
+    format: (item: T) => string
+  ): { older: T[]; newest: T[] } {
+    let used = 0;
+    let start = items.length;
+    while (start > 0) {
+      const tokens = this.count(format(items[start - 1]));
+      if (used + tokens > maxTokens) {
+        break;
+      }
+      used += tokens;
+      start--;
+    }
+    return { older: items.slice(0, start), newest: items.slice(start) };
+  }
+}
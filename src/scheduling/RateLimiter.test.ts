@@ -0,0 +1,81 @@
+import { RateLimiter } from "./RateLimiter";
+
+/**
+ * Checks whether a limiter allows a request without waiting
+ * @param limiter The limiter
+ * @param estimatedTokens Estimated tokens of the request
+ */
+async function acquiresNow(
+  limiter: RateLimiter,
+  estimatedTokens: number
+): Promise<boolean> {
+  let acquired = false;
+  const controller = new AbortController();
+  const acquire = limiter.acquire(estimatedTokens, controller.signal).then(
+    () => {
+      acquired = true;
+    },
+    () => undefined
+  );
+  await jest.advanceTimersByTimeAsync(0);
+  controller.abort();
+  await acquire;
+  return acquired;
+}
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("limits requests per minute", async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 2 });
+
+    expect(await acquiresNow(limiter, 0)).toBe(true);
+    expect(await acquiresNow(limiter, 0)).toBe(true);
+    expect(await acquiresNow(limiter, 0)).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(await acquiresNow(limiter, 0)).toBe(true);
+  });
+
+  it("gives the request back when waiting for tokens is aborted", async () => {
+    const limiter = new RateLimiter({
+      requestsPerMinute: 1,
+      tokensPerMinute: 100,
+    });
+    await limiter.acquire(100);
+    // The request is refilled but the tokens are not
+    await jest.advanceTimersByTimeAsync(60000);
+    limiter.record(100, 200);
+
+    expect(await acquiresNow(limiter, 50)).toBe(false);
+    expect(await acquiresNow(limiter, 0)).toBe(true);
+  });
+
+  it("gives back a request that is released", async () => {
+    const limiter = new RateLimiter({
+      requestsPerMinute: 1,
+      tokensPerMinute: 100,
+    });
+    await limiter.acquire(100);
+
+    limiter.release(100);
+
+    expect(await acquiresNow(limiter, 100)).toBe(true);
+  });
+
+  it("corrects the token budget from the actual usage", async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 100 });
+    await limiter.acquire(50);
+
+    limiter.record(50, 20);
+
+    expect(await acquiresNow(limiter, 80)).toBe(true);
+    expect(await acquiresNow(limiter, 1)).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+import { TokenBucket } from "./TokenBucket";
+
+/**
+ * Rate limits applied to model requests
+ */
+export interface RateLimitConfig {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+/**
+ * Limits model requests per minute and tokens per minute using token buckets
+ */
+export class RateLimiter {
+  private readonly requests?: TokenBucket;
+  private readonly tokens?: TokenBucket;
+
+  constructor(config: RateLimitConfig) {
+    if (config.requestsPerMinute) {
+      this.requests = new TokenBucket(
+        config.requestsPerMinute,
+        config.requestsPerMinute
+      );
+    }
+    if (config.tokensPerMinute) {
+      this.tokens = new TokenBucket(
+        config.tokensPerMinute,
+        config.tokensPerMinute
+      );
+    }
+  }
+
+  /**
+   * Waits until a request using the estimated number of tokens may be sent
+   * @param estimatedTokens Estimated tokens the request will use
+   * @param signal Optional signal to stop waiting
+   */
+  public async acquire(
+    estimatedTokens: number,
+    signal?: AbortSignal
+  ): Promise<void> {
+    await this.requests?.take(1, signal);
+    try {
+      await this.tokens?.take(estimatedTokens, signal);
+    } catch (error) {
+      // The request is not sent, so it does not count toward the limit
+      this.requests?.consume(-1);
+      throw error;
+    }
+  }
+
+  /**
+   * Gives back what acquire() took for a request that is not sent
+   * @param estimatedTokens Estimated tokens the request was acquired with
+   */
+  public release(estimatedTokens: number): void {
+    this.requests?.consume(-1);
+    if (this.tokens) {
+      this.tokens.consume(-Math.min(estimatedTokens, this.tokens.capacity));
+    }
+  }
+
+  /**
+   * Corrects the token budget once the actual usage of a request is known
+   * @param estimatedTokens Estimated tokens the request was acquired with
+   * @param actualTokens Tokens the request actually used
+   */
+  public record(estimatedTokens: number, actualTokens: number): void {
+    if (this.tokens) {
+      // acquire() took at most the capacity of the bucket
+      const taken = Math.min(estimatedTokens, this.tokens.capacity);
+      this.tokens.consume(actualTokens - taken);
+    }
+  }
+}
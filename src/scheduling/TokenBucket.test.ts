@@ -0,0 +1,76 @@
+import { TokenBucket } from "./TokenBucket";
+
+describe("TokenBucket", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("waits until enough tokens were refilled", async () => {
+    // One token per second
+    const bucket = new TokenBucket(2, 60);
+    await bucket.take(2);
+
+    let taken = false;
+    const take = bucket.take(1).then(() => {
+      taken = true;
+    });
+    await jest.advanceTimersByTimeAsync(999);
+    expect(taken).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await take;
+    expect(taken).toBe(true);
+  });
+
+  it("caps a request at the bucket capacity", async () => {
+    const bucket = new TokenBucket(10, 60);
+
+    await expect(bucket.take(50)).resolves.toBeUndefined();
+  });
+
+  it("stops waiting without taking tokens when aborted", async () => {
+    const bucket = new TokenBucket(1, 60);
+    await bucket.take(1);
+    const controller = new AbortController();
+
+    const take = bucket.take(1, controller.signal);
+    controller.abort(new Error("Stopped"));
+    await expect(take).rejects.toThrow("Stopped");
+
+    // The refilled token is still there for the next request
+    await jest.advanceTimersByTimeAsync(1000);
+    let taken = false;
+    void bucket.take(1).then(() => {
+      taken = true;
+    });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(taken).toBe(true);
+  });
+
+  it("delays later requests after usage beyond the estimate", async () => {
+    const bucket = new TokenBucket(60, 60);
+    await bucket.take(10);
+    bucket.consume(60);
+
+    let taken = false;
+    const take = bucket.take(1).then(() => {
+      taken = true;
+    });
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(taken).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await take;
+    expect(taken).toBe(true);
+  });
+
+  it("rejects a capacity that is not positive", () => {
+    expect(() => new TokenBucket(0, 60)).toThrow(
+      "Token bucket capacity and refill rate must be positive"
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import { delay } from "../utils/abort";
+
+/**
+ * Token bucket that refills continuously up to its capacity
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number = Date.now();
+
+  /**
+   * @param capacity Maximum number of tokens the bucket holds
+   * @param refillPerMinute Tokens added to the bucket every minute
+   */
+  constructor(
+    public readonly capacity: number,
+    private readonly refillPerMinute: number
+  ) {
+    if (capacity <= 0 || refillPerMinute <= 0) {
+      throw new Error("Token bucket capacity and refill rate must be positive");
+    }
+    this.tokens = capacity;
+  }
+
+  /**
+   * Adds the tokens accumulated since the last refill
+   */
+  private refill(): void {
+    const now = Date.now();
+    const refilled = ((now - this.lastRefill) * this.refillPerMinute) / 60000;
+    this.tokens = Math.min(this.capacity, this.tokens + refilled);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Waits until the requested tokens are available and takes them
+   * @param amount Number of tokens to take (capped at the bucket capacity)
+   * @param signal Optional signal to stop waiting
+   */
+  public async take(amount: number, signal?: AbortSignal): Promise<void> {
+    const needed = Math.min(amount, this.capacity);
+
+    while (true) {
+      this.refill();
+      if (this.tokens >= needed) {
+        this.tokens -= needed;
+        return;
+      }
+      const waitMs = ((needed - this.tokens) * 60000) / this.refillPerMinute;
+      await delay(Math.ceil(waitMs), signal);
+    }
+  }
+
+  /**
+   * Removes tokens without waiting, e.g. to account for usage that exceeded
+   * an estimate. The bucket may go negative, delaying later requests.
+   * @param amount Number of tokens to remove (negative to give tokens back)
+   */
+  public consume(amount: number): void {
+    this.refill();
+    this.tokens = Math.min(this.capacity, this.tokens - amount);
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  RunRecord,
+  RunState,
+  RunStateStore,
+  TaskCheckpoint,
+} from "./RunStateStore";
+
+/**
+ * Keeps run checkpoints in memory. Runs survive a failed kickoff but not
+ * the end of the process.
+ */
+export class InMemoryRunStateStore implements RunStateStore {
+  private readonly runs = new Map<string, RunState>();
+
+  public async saveRun(run: RunRecord): Promise<void> {
+    const tasks = this.runs.get(run.runId)?.tasks ?? {};
+    this.runs.set(run.runId, { ...structuredClone(run), tasks });
+  }
+
+  public async saveTask(
+    runId: string,
+    checkpoint: TaskCheckpoint
+  ): Promise<void> {
+    const run = this.runs.get(runId);
+    if (!run) {
+      throw new Error(`No run found with id: ${runId}`);
+    }
+    run.tasks[checkpoint.taskId] = structuredClone(checkpoint);
+  }
+
+  public async loadRun(runId: string): Promise<RunState | undefined> {
+    const run = this.runs.get(runId);
+    return run ? structuredClone(run) : undefined;
+  }
+
+  public async listRuns(): Promise<RunRecord[]> {
+    return [...this.runs.values()]
+      .map(({ runId, status, startedAt, updatedAt, workflow }) => ({
+        runId,
+        status,
+        startedAt,
+        updatedAt,
+        workflow,
+      }))
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  public async deleteRun(runId: string): Promise<void> {
+    this.runs.delete(runId);
+  }
+}
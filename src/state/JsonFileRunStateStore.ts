@@ -0,0 +1,126 @@
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import {
+  RunRecord,
+  RunState,
+  RunStateStore,
+  TaskCheckpoint,
+} from "./RunStateStore";
+
+/**
+ * Keeps run checkpoints in a directory, one JSON file per run.
+ * Files are replaced atomically, so a crash never leaves a partial file.
+ */
+export class JsonFileRunStateStore implements RunStateStore {
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Gets the path of the file of a run
+   * @param runId Id of the run
+   */
+  private getFilePath(runId: string): string {
+    if (!/^[\w.-]+$/.test(runId)) {
+      throw new Error(`Invalid run id: ${runId}`);
+    }
+    return join(this.directory, `${runId}.json`);
+  }
+
+  /**
+   * Reads the file of a run
+   * @param runId Id of the run
+   * @returns The run, or undefined if it has no file
+   */
+  private async read(runId: string): Promise<RunState | undefined> {
+    try {
+      return JSON.parse(await readFile(this.getFilePath(runId), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Updates the file of a run. Updates run one at a time so concurrent
+   * checkpoints do not overwrite each other.
+   * @param runId Id of the run
+   * @param update Returns the new state from the current one
+   */
+  private update(
+    runId: string,
+    update: (run: RunState | undefined) => RunState
+  ): Promise<void> {
+    const write = this.writes.then(async () => {
+      const filePath = this.getFilePath(runId);
+      const run = update(await this.read(runId));
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(`${filePath}.tmp`, JSON.stringify(run, null, 2));
+      await rename(`${filePath}.tmp`, filePath);
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  public async saveRun(run: RunRecord): Promise<void> {
+    await this.update(run.runId, (current) => ({
+      ...run,
+      tasks: current?.tasks ?? {},
+    }));
+  }
+
+  public async saveTask(
+    runId: string,
+    checkpoint: TaskCheckpoint
+  ): Promise<void> {
+    await this.update(runId, (current) => {
+      if (!current) {
+        throw new Error(`No run found with id: ${runId}`);
+      }
+      return {
+        ...current,
+        tasks: { ...current.tasks, [checkpoint.taskId]: checkpoint },
+      };
+    });
+  }
+
+  public async loadRun(runId: string): Promise<RunState | undefined> {
+    await this.writes;
+    return this.read(runId);
+  }
+
+  public async listRuns(): Promise<RunRecord[]> {
+    await this.writes;
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const runs: RunRecord[] = [];
+    for (const file of files.filter((name) => name.endsWith(".json"))) {
+      const run = await this.read(file.slice(0, -".json".length));
+      if (run) {
+        runs.push({
+          runId: run.runId,
+          status: run.status,
+          startedAt: run.startedAt,
+          updatedAt: run.updatedAt,
+          workflow: run.workflow,
+        });
+      }
+    }
+    return runs.sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  public async deleteRun(runId: string): Promise<void> {
+    await this.writes;
+    await rm(this.getFilePath(runId), { force: true });
+  }
+}
@@ -0,0 +1,150 @@
+import { Task } from "../tasks/Task";
+import { ExecutionEvent } from "../events/ExecutionEvent";
+import { Logger } from "../utils/Logger";
+import {
+  RunState,
+  RunStateStore,
+  RunStatus,
+  TaskCheckpoint,
+} from "./RunStateStore";
+
+/**
+ * Saves the progress of a run to a store as its task events happen.
+ * Checkpoints are written in order; a failed write is logged and does not
+ * stop the run.
+ */
+export class RunCheckpointer {
+  private readonly checkpoints = new Map<string, TaskCheckpoint>();
+  private writes: Promise<void> = Promise.resolve();
+  private readonly startedAt: number;
+  private readonly workflow?: string;
+
+  /**
+   * @param store Store to save checkpoints to
+   * @param runId Id of the run
+   * @param logger Logger of the run
+   * @param resumed Saved state of the run, when it is being resumed
+   * @param workflow Workflow the run belongs to
+   */
+  constructor(
+    private readonly store: RunStateStore,
+    private readonly runId: string,
+    private readonly logger: Logger,
+    resumed?: RunState,
+    workflow?: string
+  ) {
+    this.startedAt = resumed?.startedAt ?? Date.now();
+    this.workflow = workflow ?? resumed?.workflow;
+    for (const checkpoint of Object.values(resumed?.tasks ?? {})) {
+      this.checkpoints.set(checkpoint.taskId, checkpoint);
+    }
+  }
+
+  /**
+   * Queues a write to the store
+   * @param description What is written, for the error log
+   * @param write The write
+   */
+  private enqueue(description: string, write: () => Promise<void>): void {
+    this.writes = this.writes.then(write).catch((error) => {
+      this.logger.error(`Failed to save ${description}: ${error?.message}`, {
+        payload: error,
+      });
+    });
+  }
+
+  /**
+   * Saves the status of the run
+   * @param status Run status
+   */
+  private saveRun(status: RunStatus): void {
+    this.enqueue("run state", () =>
+      this.store.saveRun({
+        runId: this.runId,
+        status,
+        startedAt: this.startedAt,
+        updatedAt: Date.now(),
+        workflow: this.workflow,
+      })
+    );
+  }
+
+  /**
+   * Updates and saves the checkpoint of a task
+   * @param taskId Id of the task
+   * @param update Fields to change
+   */
+  private saveTask(taskId: string, update: Partial<TaskCheckpoint>): void {
+    const current = this.checkpoints.get(taskId);
+    if (!current) {
+      return;
+    }
+    const checkpoint = { ...current, ...update, updatedAt: Date.now() };
+    this.checkpoints.set(taskId, checkpoint);
+    this.enqueue(`checkpoint of task ${taskId}`, () =>
+      this.store.saveTask(this.runId, checkpoint)
+    );
+  }
+
+  /**
+   * Marks the run as running and saves a pending checkpoint for every task
+   * still to run, replacing any earlier checkpoint of the same id
+   * @param tasks Tasks of the run that have not completed yet
+   * @param getDependencies Gets the ids of the tasks a task depends on
+   */
+  public start(
+    tasks: Task[],
+    getDependencies: (task: Task) => string[]
+  ): void {
+    this.saveRun("running");
+    for (const task of tasks) {
+      this.checkpoints.set(task.id, {
+        taskId: task.id,
+        description: task.description,
+        agentRole: task.getAgentRole(),
+        dependsOn: [...getDependencies(task)],
+        status: "pending",
+        attempts: 0,
+        output: "",
+        updatedAt: Date.now(),
+      });
+      this.saveTask(task.id, {});
+    }
+  }
+
+  /**
+   * Updates task checkpoints from an execution event
+   * @param event The event
+   */
+  public handle = (event: ExecutionEvent): void => {
+    switch (event.type) {
+      case "task_started":
+        this.saveTask(event.taskId, { status: "running", attempts: 1 });
+        break;
+      case "retry":
+        this.saveTask(event.taskId, {
+          attempts: event.attempt + 1,
+          error: event.error,
+        });
+        break;
+      case "task_finished":
+        this.saveTask(event.taskId, {
+          status: event.result.status,
+          attempts: event.result.attempts,
+          output: event.result.output,
+          error: event.result.error,
+          result: event.result,
+        });
+        break;
+    }
+  };
+
+  /**
+   * Saves the final status of the run and waits for every write
+   * @param status Run status
+   */
+  public async finish(status: RunStatus): Promise<void> {
+    this.saveRun(status);
+    await this.writes;
+  }
+}
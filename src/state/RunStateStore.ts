@@ -0,0 +1,88 @@
+import { TaskResult, TaskStatus } from "../tasks/Task";
+
+/**
+ * Status of a run; a run left "running" was interrupted and can be resumed
+ */
+export type RunStatus = "running" | "completed" | "failed" | "cancelled";
+
+/**
+ * Status of a task within a run
+ */
+export type TaskCheckpointStatus = "pending" | "running" | TaskStatus;
+
+/**
+ * Saved state of a task within a run
+ */
+export interface TaskCheckpoint {
+  taskId: string;
+  description: string;
+  agentRole: string;
+  /**
+   * Ids of the tasks it depends on; missing in checkpoints saved by
+   * earlier versions, which are then never reused
+   */
+  dependsOn?: string[];
+  status: TaskCheckpointStatus;
+  /** Attempts started so far */
+  attempts: number;
+  output: string;
+  error?: string;
+  /** Full result, once the task has finished */
+  result?: TaskResult;
+  updatedAt: number;
+}
+
+/**
+ * Saved state of a run, without its tasks
+ */
+export interface RunRecord {
+  runId: string;
+  status: RunStatus;
+  startedAt: number;
+  updatedAt: number;
+  /** Workflow the run belongs to, e.g. the path of its workflow file */
+  workflow?: string;
+}
+
+/**
+ * Saved state of a run and its tasks
+ */
+export interface RunState extends RunRecord {
+  tasks: Record<string, TaskCheckpoint>;
+}
+
+/**
+ * Storage for run checkpoints, e.g. memory, a JSON file or a database
+ */
+export interface RunStateStore {
+  /**
+   * Creates or updates a run, keeping its task checkpoints
+   * @param run The run
+   */
+  saveRun(run: RunRecord): Promise<void>;
+
+  /**
+   * Creates or replaces the checkpoint of a task. The run must exist.
+   * @param runId Id of the run
+   * @param checkpoint The checkpoint
+   */
+  saveTask(runId: string, checkpoint: TaskCheckpoint): Promise<void>;
+
+  /**
+   * Loads a run and its task checkpoints
+   * @param runId Id of the run
+   * @returns The run, or undefined if it does not exist
+   */
+  loadRun(runId: string): Promise<RunState | undefined>;
+
+  /**
+   * Lists the saved runs, most recently started first
+   */
+  listRuns(): Promise<RunRecord[]>;
+
+  /**
+   * Deletes a run and its task checkpoints
+   * @param runId Id of the run
+   */
+  deleteRun(runId: string): Promise<void>;
+}
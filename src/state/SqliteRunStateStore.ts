@@ -0,0 +1,211 @@
+import { SqliteDatabase } from "../utils/sqlite";
+import {
+  RunRecord,
+  RunState,
+  RunStateStore,
+  RunStatus,
+  TaskCheckpoint,
+  TaskCheckpointStatus,
+} from "./RunStateStore";
+
+interface RunRow {
+  run_id: string;
+  status: RunStatus;
+  started_at: number;
+  updated_at: number;
+  workflow: string | null;
+}
+
+interface TaskRow {
+  task_id: string;
+  description: string;
+  agent_role: string;
+  depends_on: string | null;
+  status: TaskCheckpointStatus;
+  attempts: number;
+  output: string;
+  error: string | null;
+  result: string | null;
+  updated_at: number;
+}
+
+/**
+ * Converts a run row to a run record
+ * @param row The row
+ */
+function toRunRecord(row: RunRow): RunRecord {
+  return {
+    runId: row.run_id,
+    status: row.status,
+    startedAt: row.started_at,
+    updatedAt: row.updated_at,
+    workflow: row.workflow ?? undefined,
+  };
+}
+
+/**
+ * Keeps run checkpoints in a SQLite database
+ */
+export class SqliteRunStateStore implements RunStateStore {
+  /**
+   * @param db Open database connection
+   * @param tablePrefix Prefix of the tables the store creates (default: "bat_")
+   */
+  constructor(
+    private readonly db: SqliteDatabase,
+    private readonly tablePrefix: string = "bat_"
+  ) {
+    if (!/^\w*$/.test(tablePrefix)) {
+      throw new Error(`Invalid table prefix: ${tablePrefix}`);
+    }
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.runsTable} (
+        run_id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        started_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        workflow TEXT
+      );
+      CREATE TABLE IF NOT EXISTS ${this.tasksTable} (
+        run_id TEXT NOT NULL,
+        task_id TEXT NOT NULL,
+        description TEXT NOT NULL,
+        agent_role TEXT NOT NULL,
+        depends_on TEXT,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        output TEXT NOT NULL,
+        error TEXT,
+        result TEXT,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (run_id, task_id)
+      );
+    `);
+
+    // Tables created before runs were saved with their workflow and
+    // checkpoints with the dependencies of their task
+    this.addMissingColumn(this.runsTable, "workflow");
+    this.addMissingColumn(this.tasksTable, "depends_on");
+  }
+
+  /**
+   * Adds a nullable text column to a table that does not have it yet
+   * @param table Name of the table
+   * @param column Name of the column
+   */
+  private addMissingColumn(table: string, column: string): void {
+    const columns = this.db
+      .prepare(`PRAGMA table_info(${table})`)
+      .all() as { name: string }[];
+    if (!columns.some((existing) => existing.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} TEXT`);
+    }
+  }
+
+  private get runsTable(): string {
+    return `${this.tablePrefix}runs`;
+  }
+
+  private get tasksTable(): string {
+    return `${this.tablePrefix}task_checkpoints`;
+  }
+
+  public async saveRun(run: RunRecord): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO ${this.runsTable}
+        (run_id, status, started_at, updated_at, workflow)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (run_id) DO UPDATE SET
+          status = excluded.status,
+          started_at = excluded.started_at,
+          updated_at = excluded.updated_at,
+          workflow = excluded.workflow`
+      )
+      .run(
+        run.runId,
+        run.status,
+        run.startedAt,
+        run.updatedAt,
+        run.workflow ?? null
+      );
+  }
+
+  public async saveTask(
+    runId: string,
+    checkpoint: TaskCheckpoint
+  ): Promise<void> {
+    const run = this.db
+      .prepare(`SELECT run_id FROM ${this.runsTable} WHERE run_id = ?`)
+      .get(runId);
+    if (!run) {
+      throw new Error(`No run found with id: ${runId}`);
+    }
+
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO ${this.tasksTable}
+        (run_id, task_id, description, agent_role, depends_on, status,
+          attempts, output, error, result, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        runId,
+        checkpoint.taskId,
+        checkpoint.description,
+        checkpoint.agentRole,
+        checkpoint.dependsOn ? JSON.stringify(checkpoint.dependsOn) : null,
+        checkpoint.status,
+        checkpoint.attempts,
+        checkpoint.output,
+        checkpoint.error ?? null,
+        checkpoint.result ? JSON.stringify(checkpoint.result) : null,
+        checkpoint.updatedAt
+      );
+  }
+
+  public async loadRun(runId: string): Promise<RunState | undefined> {
+    const row = this.db
+      .prepare(`SELECT * FROM ${this.runsTable} WHERE run_id = ?`)
+      .get(runId) as RunRow | undefined;
+    if (!row) {
+      return undefined;
+    }
+
+    const taskRows = this.db
+      .prepare(`SELECT * FROM ${this.tasksTable} WHERE run_id = ?`)
+      .all(runId) as TaskRow[];
+    const tasks: Record<string, TaskCheckpoint> = {};
+    for (const task of taskRows) {
+      tasks[task.task_id] = {
+        taskId: task.task_id,
+        description: task.description,
+        agentRole: task.agent_role,
+        dependsOn: task.depends_on ? JSON.parse(task.depends_on) : undefined,
+        status: task.status,
+        attempts: Number(task.attempts),
+        output: task.output,
+        error: task.error ?? undefined,
+        result: task.result ? JSON.parse(task.result) : undefined,
+        updatedAt: Number(task.updated_at),
+      };
+    }
+    return { ...toRunRecord(row), tasks };
+  }
+
+  public async listRuns(): Promise<RunRecord[]> {
+    const rows = this.db
+      .prepare(`SELECT * FROM ${this.runsTable} ORDER BY started_at DESC`)
+      .all() as RunRow[];
+    return rows.map(toRunRecord);
+  }
+
+  public async deleteRun(runId: string): Promise<void> {
+    this.db
+      .prepare(`DELETE FROM ${this.tasksTable} WHERE run_id = ?`)
+      .run(runId);
+    this.db
+      .prepare(`DELETE FROM ${this.runsTable} WHERE run_id = ?`)
+      .run(runId);
+  }
+}
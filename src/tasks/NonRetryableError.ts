@@ -0,0 +1,9 @@
+/**
+ * Error signalling a permanent failure that retrying cannot fix
+ */
+export class NonRetryableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NonRetryableError";
+  }
+}
@@ -0,0 +1,171 @@
+import { NonRetryableError } from "./NonRetryableError";
+import {
+  getRetryAfterMs,
+  getRetryDelay,
+  isRetryableError,
+  resolveRetryPolicy,
+} from "./RetryPolicy";
+
+/**
+ * Creates an error like the ones provider SDKs raise for HTTP responses
+ * @param status HTTP status
+ * @param headers Response headers
+ */
+function createHttpError(
+  status: number,
+  headers: Record<string, string> = {}
+): Error {
+  return Object.assign(new Error(`Request failed with status ${status}`), {
+    status,
+    headers,
+  });
+}
+
+describe("resolveRetryPolicy", () => {
+  it("applies defaults", () => {
+    expect(resolveRetryPolicy()).toEqual({
+      maxAttempts: 3,
+      retryDelayMs: 1000,
+      backoff: "fixed",
+      maxDelayMs: 30000,
+      jitter: false,
+      retryOn: isRetryableError,
+      onRetry: undefined,
+    });
+  });
+
+  it("enables jitter by default for exponential backoff", () => {
+    expect(resolveRetryPolicy({ backoff: "exponential" }).jitter).toBe(true);
+  });
+
+  it("reads the deprecated maxRetries as the number of attempts", () => {
+    expect(resolveRetryPolicy({ maxRetries: 5 }).maxAttempts).toBe(5);
+  });
+});
+
+describe("getRetryDelay", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("grows the delay with the backoff strategy", () => {
+    const delays = (backoff: "fixed" | "linear" | "exponential") =>
+      [1, 2, 3, 4].map((attempt) =>
+        getRetryDelay(
+          resolveRetryPolicy({ backoff, retryDelayMs: 100, jitter: false }),
+          attempt,
+          new Error("Failed")
+        )
+      );
+
+    expect(delays("fixed")).toEqual([100, 100, 100, 100]);
+    expect(delays("linear")).toEqual([100, 200, 300, 400]);
+    expect(delays("exponential")).toEqual([100, 200, 400, 800]);
+  });
+
+  it("caps the delay at maxDelayMs", () => {
+    const policy = resolveRetryPolicy({
+      backoff: "exponential",
+      retryDelayMs: 1000,
+      maxDelayMs: 5000,
+      jitter: false,
+    });
+
+    expect(getRetryDelay(policy, 10, new Error("Failed"))).toBe(5000);
+  });
+
+  it("randomizes the second half of the delay with jitter", () => {
+    const policy = resolveRetryPolicy({ retryDelayMs: 1000, jitter: true });
+    const random = jest.spyOn(Math, "random");
+
+    random.mockReturnValue(0);
+    expect(getRetryDelay(policy, 1, new Error("Failed"))).toBe(500);
+    random.mockReturnValue(0.999);
+    expect(getRetryDelay(policy, 1, new Error("Failed"))).toBe(1000);
+  });
+
+  it("waits at least as long as the provider asks", () => {
+    const policy = resolveRetryPolicy({ retryDelayMs: 1000 });
+
+    expect(
+      getRetryDelay(policy, 1, createHttpError(429, { "retry-after": "7" }))
+    ).toBe(7000);
+    expect(
+      getRetryDelay(policy, 1, createHttpError(429, { "retry-after": "0.1" }))
+    ).toBe(1000);
+  });
+});
+
+describe("getRetryAfterMs", () => {
+  it("reads Retry-After in seconds, milliseconds or as a date", () => {
+    jest.useFakeTimers({ now: Date.parse("2024-01-01T00:00:00Z") });
+    try {
+      expect(
+        getRetryAfterMs(createHttpError(429, { "retry-after": "2" }))
+      ).toBe(2000);
+      expect(
+        getRetryAfterMs(createHttpError(429, { "retry-after-ms": "250" }))
+      ).toBe(250);
+      expect(
+        getRetryAfterMs(
+          createHttpError(503, {
+            "retry-after": "Mon, 01 Jan 2024 00:00:30 GMT",
+          })
+        )
+      ).toBe(30000);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("reads headers of the response and of the cause", () => {
+    const error = Object.assign(new Error("Model call failed"), {
+      cause: {
+        response: {
+          status: 429,
+          headers: new Headers({ "Retry-After": "3" }),
+        },
+      },
+    });
+
+    expect(getRetryAfterMs(error)).toBe(3000);
+  });
+
+  it("returns undefined without a hint", () => {
+    expect(getRetryAfterMs(new Error("Failed"))).toBeUndefined();
+  });
+});
+
+describe("isRetryableError", () => {
+  it("retries rate limits, timeouts and server errors", () => {
+    expect(isRetryableError(createHttpError(429))).toBe(true);
+    expect(isRetryableError(createHttpError(408))).toBe(true);
+    expect(isRetryableError(createHttpError(503))).toBe(true);
+  });
+
+  it("does not retry other client errors", () => {
+    expect(isRetryableError(createHttpError(400))).toBe(false);
+    expect(isRetryableError(createHttpError(401))).toBe(false);
+  });
+
+  it("retries transient network errors", () => {
+    const cause = Object.assign(new Error("socket hang up"), {
+      code: "ECONNRESET",
+    });
+    const error = Object.assign(new Error("Request failed"), { cause });
+
+    expect(isRetryableError(error)).toBe(true);
+  });
+
+  it("does not retry a NonRetryableError anywhere in the cause chain", () => {
+    const error = Object.assign(new Error("Task failed"), {
+      cause: new NonRetryableError("Invalid output"),
+    });
+
+    expect(isRetryableError(error)).toBe(false);
+  });
+
+  it("retries unknown errors", () => {
+    expect(isRetryableError(new Error("Something happened"))).toBe(true);
+  });
+});
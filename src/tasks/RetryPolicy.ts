@@ -0,0 +1,241 @@
+import { NonRetryableError } from "./NonRetryableError";
+
+export type BackoffStrategy = "fixed" | "linear" | "exponential";
+
+/**
+ * Information about a retry that is about to happen
+ */
+export interface RetryInfo {
+  taskId: string;
+  attempt: number;
+  error: unknown;
+  delayMs: number;
+}
+
+/**
+ * Configuration for task retry behavior
+ */
+export interface TaskRetryConfig {
+  /** Total number of attempts, including the first one (default: 3) */
+  maxAttempts?: number;
+  /**
+   * @deprecated Use maxAttempts. Despite its name, this has always been the
+   * total number of attempts, not the number of retries.
+   */
+  maxRetries?: number;
+  /** Base delay between attempts in milliseconds (default: 1000) */
+  retryDelayMs?: number;
+  /** How the delay grows between attempts (default: "fixed") */
+  backoff?: BackoffStrategy;
+  /** Upper bound for the delay in milliseconds (default: 30000) */
+  maxDelayMs?: number;
+  /** Randomizes delays to avoid retry storms (default: true for exponential backoff) */
+  jitter?: boolean;
+  /** Decides whether an error should be retried (default: isRetryableError) */
+  retryOn?: (error: unknown, attempt: number) => boolean;
+  /** Called before waiting for each retry */
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/**
+ * Retry configuration with every default applied
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  retryDelayMs: number;
+  backoff: BackoffStrategy;
+  maxDelayMs: number;
+  jitter: boolean;
+  retryOn: (error: unknown, attempt: number) => boolean;
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/**
+ * HTTP status codes worth retrying
+ */
+const TRANSIENT_STATUS_CODES = [408, 409, 425, 429];
+
+/**
+ * Network error codes worth retrying
+ */
+const TRANSIENT_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+  "ENOTFOUND",
+];
+
+/**
+ * Fields provider SDKs and Node.js set on their errors
+ */
+interface ErrorDetails {
+  cause?: unknown;
+  code?: unknown;
+  status?: unknown;
+  statusCode?: unknown;
+  headers?: unknown;
+  response?: { status?: unknown; headers?: unknown };
+}
+
+/**
+ * Lists an error and the errors that caused it
+ * @param error The error
+ * @returns The error followed by its causes
+ */
+function getErrorChain(error: unknown): ErrorDetails[] {
+  const chain: ErrorDetails[] = [];
+  let current: unknown = error;
+  while (
+    current &&
+    typeof current === "object" &&
+    !chain.includes(current as ErrorDetails)
+  ) {
+    chain.push(current as ErrorDetails);
+    current = (current as ErrorDetails).cause;
+  }
+  return chain;
+}
+
+/**
+ * Gets the HTTP status of an error raised by a provider SDK, if any
+ * @param error The error
+ */
+function getStatus(error: ErrorDetails): number | undefined {
+  const status = error.status ?? error.statusCode ?? error.response?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * Reads a header from a fetch Headers object or a plain header record
+ * @param headers Headers of a provider error
+ * @param name Header name
+ * @returns The header value, if set
+ */
+function readHeader(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== "object") {
+    return undefined;
+  }
+  const value =
+    typeof (headers as { get?: unknown }).get === "function"
+      ? (headers as { get(name: string): unknown }).get(name)
+      : (headers as Record<string, unknown>)[name];
+  return typeof value === "string" || typeof value === "number"
+    ? String(value)
+    : undefined;
+}
+
+/**
+ * Classifies an error as transient (worth retrying) or permanent.
+ * Provider errors are classified by HTTP status and network errors by code;
+ * NonRetryableError is permanent and anything else is retried.
+ * @param error The error
+ * @returns Whether the error is worth retrying
+ */
+export function isRetryableError(error: unknown): boolean {
+  for (const item of getErrorChain(error)) {
+    if (item instanceof NonRetryableError) {
+      return false;
+    }
+    if (
+      typeof item.code === "string" &&
+      TRANSIENT_ERROR_CODES.includes(item.code)
+    ) {
+      return true;
+    }
+    const status = getStatus(item);
+    if (status !== undefined) {
+      return status >= 500 || TRANSIENT_STATUS_CODES.includes(status);
+    }
+  }
+  return true;
+}
+
+/**
+ * Reads the Retry-After hint of a provider error (e.g. a 429 response)
+ * @param error The error
+ * @returns Delay requested by the provider in milliseconds, if any
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  for (const item of getErrorChain(error)) {
+    const headers = item.headers ?? item.response?.headers;
+    const header = (name: string): string | undefined =>
+      readHeader(headers, name);
+
+    const retryAfterMs = Number(header("retry-after-ms"));
+    if (Number.isFinite(retryAfterMs) && retryAfterMs > 0) {
+      return retryAfterMs;
+    }
+
+    const retryAfter = header("retry-after");
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      if (Number.isFinite(seconds)) {
+        return seconds * 1000;
+      }
+      const date = Date.parse(retryAfter);
+      if (!Number.isNaN(date)) {
+        return Math.max(0, date - Date.now());
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Applies defaults to a retry configuration
+ * @param config Retry configuration
+ * @returns The complete retry policy
+ */
+export function resolveRetryPolicy(config: TaskRetryConfig = {}): RetryPolicy {
+  const backoff = config.backoff ?? "fixed";
+  return {
+    maxAttempts: config.maxAttempts ?? config.maxRetries ?? 3,
+    retryDelayMs: config.retryDelayMs ?? 1000,
+    backoff,
+    maxDelayMs: config.maxDelayMs ?? 30000,
+    jitter: config.jitter ?? backoff === "exponential",
+    retryOn: config.retryOn ?? isRetryableError,
+    onRetry: config.onRetry,
+  };
+}
+
+/**
+ * Computes how long to wait before the next attempt
+ * @param policy Retry policy
+ * @param attempt Number of the attempt that just failed (starting at 1)
+ * @param error Error of the failed attempt
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  error: unknown
+): number {
+  let delayMs: number;
+  switch (policy.backoff) {
+    case "linear":
+      delayMs = policy.retryDelayMs * attempt;
+      break;
+    case "exponential":
+      delayMs = policy.retryDelayMs * 2 ** (attempt - 1);
+      break;
+    default:
+      delayMs = policy.retryDelayMs;
+  }
+  delayMs = Math.min(delayMs, policy.maxDelayMs);
+
+  if (policy.jitter) {
+    // Equal jitter: keep half of the delay and randomize the other half
+    delayMs = delayMs / 2 + Math.random() * (delayMs / 2);
+  }
+
+  // Providers asking to wait longer always win
+  const retryAfterMs = getRetryAfterMs(error);
+  if (retryAfterMs !== undefined) {
+    delayMs = Math.max(delayMs, retryAfterMs);
+  }
+
+  return Math.round(delayMs);
+}
@@ -0,0 +1,202 @@
+import { BatTool } from "@bat-ai/tools";
+import { Task } from "./Task";
+import { Agent } from "../agents/Agent";
+import { ProgrammaticApprovalHandler } from "../approval/ProgrammaticApprovalHandler";
+import { ExecutionEvent } from "../events/ExecutionEvent";
+import { FakeChatModel } from "../testing/FakeChatModel";
+import {
+  finalAnswerResponse,
+  toolSelectionResponse,
+} from "../testing/fakeResponses";
+import { delay } from "../utils/abort";
+import { Logger } from "../utils/Logger";
+
+const logger = new Logger({ transports: [] });
+
+function createAgent(
+  model = new FakeChatModel({ defaultResponse: "An article" }),
+  tools: BatTool[] = []
+): Agent {
+  return new Agent({
+    role: "Writer",
+    goal: "Write articles",
+    backstory: "Experienced",
+    model,
+    tools,
+    logger,
+  });
+}
+
+/**
+ * Creates an error like the ones provider SDKs raise for HTTP responses
+ * @param status HTTP status
+ */
+function createHttpError(status: number): Error {
+  return Object.assign(new Error(`Request failed with status ${status}`), {
+    status,
+  });
+}
+
+describe("Task.run retries", () => {
+  it("retries transient failures after the backoff delay", async () => {
+    const agent = createAgent();
+    jest
+      .spyOn(agent, "executeWithDetails")
+      .mockRejectedValueOnce(createHttpError(503));
+    const onRetry = jest.fn();
+    const events: ExecutionEvent[] = [];
+    const task = new Task("Write an article", agent, "medium", 30000, {
+      retryDelayMs: 5,
+      onRetry,
+    });
+
+    const result = await task.run([], {
+      logger,
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(result.status).toBe("completed");
+    expect(result.output).toBe("An article");
+    expect(result.attempts).toBe(2);
+    expect(onRetry).toHaveBeenCalledWith(
+      expect.objectContaining({ taskId: task.id, attempt: 1, delayMs: 5 })
+    );
+    expect(events.filter((event) => event.type === "retry")).toHaveLength(1);
+  });
+
+  it("does not retry permanent failures", async () => {
+    const agent = createAgent();
+    const execute = jest
+      .spyOn(agent, "executeWithDetails")
+      .mockRejectedValue(createHttpError(400));
+    const task = new Task("Write an article", agent, "medium", 30000, {
+      retryDelayMs: 5,
+    });
+
+    const result = await task.run([], { logger });
+
+    expect(result.status).toBe("failed");
+    expect(result.attempts).toBe(1);
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops after maxAttempts", async () => {
+    const agent = createAgent();
+    const execute = jest
+      .spyOn(agent, "executeWithDetails")
+      .mockRejectedValue(createHttpError(429));
+    const task = new Task("Write an article", agent, "medium", 30000, {
+      maxAttempts: 3,
+      retryDelayMs: 1,
+    });
+
+    const result = await task.run([], { logger });
+
+    expect(result.status).toBe("failed");
+    expect(result.error).toBe(
+      "Task execution failed after 3 attempts: Request failed with status 429"
+    );
+    expect(execute).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("Task.run approvals", () => {
+  const publish: BatTool = {
+    schema: {
+      name: "publish",
+      description: "Publishes an article",
+      parameters: { title: { type: "string" } },
+    },
+    execute: async () => ({ success: true, result: "Published" }),
+  };
+
+  it("fails without retrying when the output is rejected", async () => {
+    const agent = createAgent();
+    const execute = jest.spyOn(agent, "executeWithDetails");
+    const task = new Task(
+      "Write an article",
+      agent,
+      "medium",
+      30000,
+      { retryDelayMs: 1 },
+      { outputApproval: "always" }
+    );
+
+    const result = await task.run([], {
+      logger,
+      approvalHandler: new ProgrammaticApprovalHandler(() => ({
+        action: "reject",
+        reason: "Too short",
+      })),
+    });
+
+    expect(result.status).toBe("failed");
+    expect(result.error).toContain("Task output was rejected: Too short");
+    expect(result.attempts).toBe(1);
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it("shows the agent that a tool call was denied", async () => {
+    const execute = jest.fn(publish.execute);
+    const model = new FakeChatModel({
+      responses: [
+        {
+          prompt: "was rejected: Not yet",
+          response: finalAnswerResponse("Kept as a draft"),
+        },
+        toolSelectionResponse("publish", { title: "Bats" }),
+      ],
+    });
+    const task = new Task(
+      "Publish an article",
+      createAgent(model, [{ ...publish, execute }]),
+      "medium",
+      30000,
+      {},
+      { toolApproval: { publish: "always" } }
+    );
+
+    const result = await task.run([], {
+      logger,
+      approvalHandler: new ProgrammaticApprovalHandler(() => ({
+        action: "reject",
+        reason: "Not yet",
+      })),
+    });
+
+    expect(result.status).toBe("completed");
+    expect(result.output).toBe("Kept as a draft");
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it("does not count time waiting for approval toward the timeout", async () => {
+    const model = new FakeChatModel({
+      responses: [
+        {
+          prompt: "Previous steps",
+          response: finalAnswerResponse("Published"),
+        },
+        toolSelectionResponse("publish", { title: "Bats" }),
+      ],
+    });
+    const task = new Task(
+      "Publish an article",
+      createAgent(model, [publish]),
+      "medium",
+      100,
+      { maxAttempts: 1 },
+      { toolApproval: { publish: "always" } }
+    );
+
+    const result = await task.run([], {
+      logger,
+      approvalHandler: new ProgrammaticApprovalHandler(async () => {
+        await delay(300);
+        return { action: "approve" };
+      }),
+    });
+
+    expect(result.status).toBe("completed");
+    expect(result.output).toBe("Published");
+  });
+});
@@ -1,23 +1,148 @@
-import { Agent } from "../agents/Agent";
+import { randomUUID } from "crypto";
+import { Agent, AgentExecutionResult, AgentStep } from "../agents/Agent";
 import { Logger } from "../utils/Logger";
+import { TokenUsage, emptyTokenUsage } from "../usage/TokenUsage";
+import {
+  TaskOutputSchema,
+  describeTaskOutput,
+  parseTaskOutput,
+} from "./TaskOutputSchema";
+import { streamEvents } from "../events/EventChannel";
+import { abortable, delay, linkAbortSignal } from "../utils/abort";
+import { RateLimiter } from "../scheduling/RateLimiter";
+import { UsageTotals, UsageTracker } from "../usage/UsageTracker";
+import {
+  TraceContext,
+  getTracer,
+  recordSpanError,
+  startSpan,
+  withSpan,
+} from "../utils/tracing";
+import {
+  RetryPolicy,
+  TaskRetryConfig,
+  getRetryDelay,
+  resolveRetryPolicy,
+} from "./RetryPolicy";
+import {
+  ApprovalHandler,
+  ApprovalPolicy,
+} from "../approval/ApprovalHandler";
+import { requestApproval, requiresApproval } from "../approval/requestApproval";
+import { ResponseCache } from "../cache/ResponseCache";
+import { Blackboard } from "../blackboard/Blackboard";
+import {
+  ExecutionEvent,
+  ExecutionEventData,
+  ExecutionEventListener,
+  createEvent,
+} from "../events/ExecutionEvent";
 
 export type TaskPriority = "high" | "medium" | "low";
 
+export type TaskStatus = "completed" | "failed" | "skipped" | "cancelled";
+
 /**
- * Configuration for task retry behavior
+ * Additional task options
  */
-export interface TaskRetryConfig {
-  maxRetries: number;
-  retryDelayMs: number;
+export interface TaskOptions {
+  id?: string;
+  outputSchema?: TaskOutputSchema;
+  /** When the draft output needs approval before the task completes (default: "never") */
+  outputApproval?: ApprovalPolicy;
+  /** Flags the task as destructive for the "destructive" output approval policy */
+  destructive?: boolean;
+  /** Approval policies per tool name for this task, overriding the agent's */
+  toolApproval?: Record<string, ApprovalPolicy>;
+  /** Id of the conversation session whose memory the agent uses */
+  sessionId?: string;
 }
 
 /**
- * Default retry configuration
+ * Result of a task execution
  */
-const DEFAULT_RETRY_CONFIG: TaskRetryConfig = {
-  maxRetries: 3,
-  retryDelayMs: 1000, // 1 second delay between retries
-};
+export interface TaskResult {
+  taskId: string;
+  description: string;
+  status: TaskStatus;
+  output: string;
+  data?: unknown;
+  error?: string;
+  attempts: number;
+  durationMs: number;
+  agentRole: string;
+  /** Tool calls of the successful attempt */
+  toolCalls: AgentStep[];
+  /** Tokens of every model call made, including failed attempts */
+  tokenUsage: TokenUsage;
+  /** Estimated cost of every model call made, including failed attempts */
+  cost: number;
+}
+
+/**
+ * Options for a single task run
+ */
+export interface TaskRunOptions {
+  onEvent?: ExecutionEventListener;
+  signal?: AbortSignal;
+  rateLimiters?: RateLimiter[];
+  /** Agents the task may be delegated to */
+  agents?: Agent[];
+  logger?: Logger;
+  /** Parent span and tracer of the operation running the task */
+  trace?: TraceContext;
+  /** Records the usage and cost of each model call */
+  usageTracker?: UsageTracker;
+  /** Decides on tool calls and outputs that need approval (default: the agent's handler) */
+  approvalHandler?: ApprovalHandler;
+  /** Cache of model responses and tool results (default: the agent's cache) */
+  cache?: ResponseCache;
+  /** Blackboard shared by the agents of the Bat running the task */
+  blackboard?: Blackboard;
+}
+
+/**
+ * State collected across the attempts of a task run
+ */
+interface TaskRunState {
+  toolCalls: AgentStep[];
+  emit: ExecutionEventListener;
+  signal?: AbortSignal;
+  rateLimiters: RateLimiter[];
+  agents: Agent[];
+  logger: Logger;
+  trace: TraceContext;
+  usageTracker: UsageTracker;
+  approvalHandler?: ApprovalHandler;
+  cache?: ResponseCache;
+  blackboard?: Blackboard;
+  /** Ids of the upstream tasks whose outputs are part of the input */
+  inputTaskIds: string[];
+}
+
+/**
+ * Output of an upstream task that a task depends on
+ */
+export interface TaskDependencyResult {
+  taskId: string;
+  description: string;
+  output: string;
+}
+
+export type { TaskRetryConfig } from "./RetryPolicy";
+
+/**
+ * Gets the tokens used since an earlier total
+ * @param total Current usage total
+ * @param before Earlier usage total
+ */
+function getUsageSince(total: UsageTotals, before: UsageTotals): TokenUsage {
+  return {
+    promptTokens: total.promptTokens - before.promptTokens,
+    completionTokens: total.completionTokens - before.completionTokens,
+    totalTokens: total.totalTokens - before.totalTokens,
+  };
+}
 
 /**
  * Represents a task to be executed by an agent
@@ -25,15 +150,30 @@ const DEFAULT_RETRY_CONFIG: TaskRetryConfig = {
 export class Task {
   private readonly logger: Logger;
   private retryCount: number = 0;
+  private readonly outputSchema?: TaskOutputSchema;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly outputApproval: ApprovalPolicy;
+  private readonly destructive: boolean;
+  private readonly toolApproval?: Record<string, ApprovalPolicy>;
+  private readonly sessionId?: string;
+  public readonly id: string;
 
   constructor(
     public readonly description: string,
     private readonly agent: Agent,
     private readonly priority: TaskPriority = "medium",
     private readonly timeoutMs: number = 30000, // Default 30 seconds
-    private readonly retryConfig: TaskRetryConfig = DEFAULT_RETRY_CONFIG
+    retryConfig: TaskRetryConfig = {},
+    options: TaskOptions = {}
   ) {
     this.logger = Logger.getInstance();
+    this.retryPolicy = resolveRetryPolicy(retryConfig);
+    this.id = options.id ?? randomUUID();
+    this.outputSchema = options.outputSchema;
+    this.outputApproval = options.outputApproval ?? "never";
+    this.destructive = options.destructive ?? false;
+    this.toolApproval = options.toolApproval;
+    this.sessionId = options.sessionId;
   }
 
   /**
@@ -44,79 +184,344 @@ export class Task {
   }
 
   /**
-   * Creates a promise that rejects after the specified timeout
-   * @param timeoutMs Timeout in milliseconds
-   * @returns Promise that rejects after timeout
+   * Gets the role of the agent assigned to the task
    */
-  private createTimeoutPromise(timeoutMs: number): Promise<never> {
-    return new Promise((_, reject) => {
-      setTimeout(() => {
-        reject(new Error(`Task timed out after ${timeoutMs}ms`));
-      }, timeoutMs);
-    });
+  public getAgentRole(): string {
+    return this.agent.role;
+  }
+
+  /**
+   * Gets the name of the model used by the agent assigned to the task
+   */
+  public getModelName(): string {
+    return this.agent.getModelName();
+  }
+
+  /**
+   * Builds the agent input, appending the outputs of upstream tasks
+   * @param dependencyResults Results of the tasks this task depends on
+   * @returns Task description enriched with upstream context
+   */
+  private buildInput(dependencyResults: TaskDependencyResult[]): string {
+    let input = this.description;
+
+    if (dependencyResults.length > 0) {
+      const context = dependencyResults
+        .map(
+          (dependency) =>
+            `[${dependency.taskId}] ${dependency.description}\n${dependency.output}`
+        )
+        .join("\n\n");
+
+      input += `
+
+Results from previous tasks:
+${context}`;
+    }
+
+    if (this.outputSchema) {
+      input += `
+
+${describeTaskOutput(this.outputSchema)}`;
+    }
+
+    return input;
   }
 
   /**
-   * Delays execution for the specified time
-   * @param ms Time to delay in milliseconds
-   * @returns Promise that resolves after the delay
+   * Emits an execution event for this task
+   * @param state State of the current run
+   * @param data Event contents
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private emitEvent(state: TaskRunState, data: ExecutionEventData): void {
+    state.emit(createEvent(data));
+  }
+
+  /**
+   * Asks for approval of the draft output when the output policy requires it
+   * @param output Draft output
+   * @param state State of the current run
+   * @returns Promise with the approved output, possibly edited
+   * @throws ApprovalRejectedError if the output is rejected
+   */
+  private async approveOutput(
+    output: string,
+    state: TaskRunState
+  ): Promise<string> {
+    if (!requiresApproval(this.outputApproval, this.destructive)) {
+      return output;
+    }
+
+    state.logger.info(`Waiting for approval of the output of ${this.id}`);
+    const approved = await requestApproval(
+      state.approvalHandler,
+      {
+        kind: "output",
+        id: randomUUID(),
+        agentRole: this.agent.role,
+        taskId: this.id,
+        destructive: this.destructive,
+        description: this.description,
+        output,
+      },
+      output,
+      state.emit,
+      state.signal
+    );
+    return String(approved);
   }
 
   /**
    * Attempts to execute the task with retry logic
-   * @returns Promise with the task result
+   * @param input Input passed to the agent
+   * @param state Tool calls and token usage collected across attempts
+   * @returns Promise with the agent output and its parsed data, if any
    */
-  private async attemptExecution(): Promise<string> {
+  private async attemptExecution(
+    input: string,
+    state: TaskRunState
+  ): Promise<{ output: string; data?: unknown }> {
     try {
-      // Race between the task execution and the timeout
-      const result = await Promise.race([
-        this.agent.execute(this.description),
-        this.createTimeoutPromise(this.timeoutMs),
-      ]);
-      return result;
+      const result = await this.executeAttempt(input, state);
+      state.toolCalls.push(...result.toolCalls);
+
+      const output = await this.approveOutput(result.output, state);
+      if (!this.outputSchema) {
+        return { output };
+      }
+      return {
+        output,
+        data: parseTaskOutput(this.outputSchema, output),
+      };
     } catch (error) {
       this.retryCount++;
+      const { maxAttempts, retryOn, onRetry } = this.retryPolicy;
 
-      // If we've reached max retries, throw the final error
-      if (this.retryCount >= this.retryConfig.maxRetries) {
+      // If the run was cancelled, we've used every attempt or the error is
+      // permanent, throw the final error
+      if (
+        state.signal?.aborted ||
+        this.retryCount >= maxAttempts ||
+        !retryOn(error, this.retryCount)
+      ) {
         throw error;
       }
 
       // Log the retry attempt
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
-      this.logger.logTaskExecution(
+      const delayMs = getRetryDelay(this.retryPolicy, this.retryCount, error);
+      state.logger.logTaskExecution(
         this.description,
         "retrying",
-        `Attempt ${this.retryCount}/${this.retryConfig.maxRetries}: ${errorMessage}`
+        `Attempt ${this.retryCount}/${maxAttempts}: ${errorMessage}`
       );
+      this.emitEvent(state, {
+        type: "retry",
+        taskId: this.id,
+        attempt: this.retryCount,
+        error: errorMessage,
+        delayMs,
+      });
+      state.trace.span?.addEvent("retry", {
+        "bat.task.attempt": this.retryCount,
+        "bat.retry.delay_ms": delayMs,
+        "exception.message": errorMessage,
+      });
+      onRetry?.({ taskId: this.id, attempt: this.retryCount, error, delayMs });
 
       // Wait before retrying
-      await this.delay(this.retryConfig.retryDelayMs);
+      await delay(delayMs, state.signal);
 
       // Try again
-      return this.attemptExecution();
+      return this.attemptExecution(input, state);
+    }
+  }
+
+  /**
+   * Runs a single attempt of the task with timeout control.
+   * The attempt is aborted on timeout or when the whole run is cancelled,
+   * so a timed-out attempt stops before the next one starts.
+   * Time spent waiting for approvals does not count toward the timeout.
+   * @param input Input passed to the agent
+   * @param state State of the current run
+   * @returns Promise with the agent execution result
+   */
+  private async executeAttempt(
+    input: string,
+    state: TaskRunState
+  ): Promise<AgentExecutionResult> {
+    const controller = new AbortController();
+    const unlink = linkAbortSignal(controller, state.signal);
+    const onTimeout = () => {
+      controller.abort(new Error(`Task timed out after ${this.timeoutMs}ms`));
+    };
+    let remainingMs = this.timeoutMs;
+    let startedAt = Date.now();
+    let timer = setTimeout(onTimeout, remainingMs);
+    let finished = false;
+
+    const handler = state.approvalHandler;
+    const approvalHandler: ApprovalHandler | undefined = handler && {
+      requestApproval: async (request, signal) => {
+        clearTimeout(timer);
+        remainingMs -= Date.now() - startedAt;
+        try {
+          return await handler.requestApproval(request, signal);
+        } finally {
+          if (!finished) {
+            startedAt = Date.now();
+            timer = setTimeout(onTimeout, remainingMs);
+          }
+        }
+      },
+    };
+
+    const attributes = {
+      "bat.task.id": this.id,
+      "bat.task.attempt": this.retryCount + 1,
+    };
+
+    try {
+      return await withSpan(
+        state.trace,
+        "bat.task.attempt",
+        attributes,
+        (span) =>
+          abortable(
+            this.agent.executeWithDetails(input, state.agents, {
+              onEvent: (event) => state.emit({ ...event, taskId: this.id }),
+              signal: controller.signal,
+              rateLimiters: state.rateLimiters,
+              logger: state.logger,
+              trace: { tracer: state.trace.tracer, span },
+              usageTracker: state.usageTracker,
+              taskId: this.id,
+              approvalHandler,
+              toolApproval: this.toolApproval,
+              sessionId: this.sessionId,
+              cache: state.cache,
+              blackboard: state.blackboard,
+              inputTaskIds: state.inputTaskIds,
+            }),
+            controller.signal
+          )
+      );
+    } finally {
+      finished = true;
+      clearTimeout(timer);
+      unlink();
     }
   }
 
   /**
    * Executes the task with retry logic and timeout control
-   * @returns Promise with the task result
+   * @param dependencyResults Outputs of upstream tasks to include as context
+   * @param options Run options
+   * @returns Promise with the task result, whose status tells whether it succeeded
    */
-  public async run(): Promise<string> {
+  public async run(
+    dependencyResults: TaskDependencyResult[] = [],
+    options: TaskRunOptions = {}
+  ): Promise<TaskResult> {
     this.retryCount = 0; // Reset retry count before execution
+    const startTime = Date.now();
+    const parentTrace = options.trace ?? { tracer: getTracer() };
+    const span = startSpan(parentTrace, "bat.task", {
+      "bat.task.id": this.id,
+      "bat.task.priority": this.priority,
+      "bat.agent.role": this.agent.role,
+    });
+    const state: TaskRunState = {
+      toolCalls: [],
+      emit: options.onEvent ?? (() => undefined),
+      signal: options.signal,
+      rateLimiters: options.rateLimiters ?? [],
+      agents: options.agents ?? [],
+      logger: (options.logger ?? this.logger).child({ taskId: this.id }),
+      trace: { tracer: parentTrace.tracer, span },
+      usageTracker: (options.usageTracker ?? new UsageTracker()).child({
+        taskId: this.id,
+      }),
+      approvalHandler:
+        options.approvalHandler ?? this.agent.getApprovalHandler(),
+      cache: options.cache,
+      blackboard: options.blackboard,
+      inputTaskIds: dependencyResults.map((dependency) => dependency.taskId),
+    };
+    const baseResult = {
+      taskId: this.id,
+      description: this.description,
+      agentRole: this.agent.role,
+      toolCalls: state.toolCalls,
+      tokenUsage: emptyTokenUsage(),
+      cost: 0,
+    };
+    // Usage of earlier runs of the task with the same tracker is left out
+    const usageBefore = state.usageTracker.getSummary().total;
+
+    this.emitEvent(state, {
+      type: "task_started",
+      taskId: this.id,
+      description: this.description,
+      agentRole: this.agent.role,
+    });
+
+    let result: TaskResult;
     try {
-      const result = await this.attemptExecution();
-      return result;
+      const { output, data } = await this.attemptExecution(
+        this.buildInput(dependencyResults),
+        state
+      );
+      result = {
+        ...baseResult,
+        status: "completed",
+        output,
+        data,
+        attempts: this.retryCount + 1,
+        durationMs: Date.now() - startTime,
+      };
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
-      throw new Error(
-        `Task execution failed after ${this.retryCount} attempts: ${errorMessage}`
-      );
+      result = {
+        ...baseResult,
+        status: options.signal?.aborted ? "cancelled" : "failed",
+        output: "",
+        error: `Task execution failed after ${this.retryCount} attempts: ${errorMessage}`,
+        attempts: this.retryCount,
+        durationMs: Date.now() - startTime,
+      };
+      recordSpanError(span, error);
     }
+    const usage = state.usageTracker.getSummary().total;
+    result.tokenUsage = getUsageSince(usage, usageBefore);
+    result.cost = usage.cost - usageBefore.cost;
+
+    span.setAttributes({
+      "bat.task.status": result.status,
+      "bat.task.attempts": result.attempts,
+      "gen_ai.usage.input_tokens": result.tokenUsage.promptTokens,
+      "gen_ai.usage.output_tokens": result.tokenUsage.completionTokens,
+      "bat.task.cost": result.cost,
+    });
+    span.end();
+    this.emitEvent(state, { type: "task_finished", taskId: this.id, result });
+    return result;
+  }
+
+  /**
+   * Executes the task, yielding execution events as they happen
+   * @param dependencyResults Outputs of upstream tasks to include as context
+   * @param signal Optional signal to cancel the task
+   * @returns Async generator of events that returns the task result
+   */
+  public stream(
+    dependencyResults: TaskDependencyResult[] = [],
+    signal?: AbortSignal
+  ): AsyncGenerator<ExecutionEvent, TaskResult> {
+    return streamEvents((emit) =>
+      this.run(dependencyResults, { onEvent: emit, signal })
+    );
   }
 }
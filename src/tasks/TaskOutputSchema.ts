@@ -0,0 +1,79 @@
+import { JsonSchema, JsonSchemaValidator } from "../utils/JsonSchemaValidator";
+
+/**
+ * Schema with a zod-compatible `safeParse` method
+ */
+export interface ParseableSchema<T = unknown> {
+  safeParse(
+    value: unknown
+  ): { success: true; data: T } | { success: false; error: { message: string } };
+}
+
+/**
+ * Schema a task's final answer is parsed and validated against:
+ * either a zod-compatible schema or a JSON Schema object
+ */
+export type TaskOutputSchema = ParseableSchema | JsonSchema;
+
+/**
+ * Checks whether a schema exposes a zod-compatible `safeParse` method
+ * @param schema Output schema
+ */
+function isParseableSchema(schema: TaskOutputSchema): schema is ParseableSchema {
+  return typeof schema.safeParse === "function";
+}
+
+/**
+ * Builds the instructions asking the agent to answer in the expected format
+ * @param schema Output schema
+ * @returns Instructions to append to the task description
+ */
+export function describeTaskOutput(schema: TaskOutputSchema): string {
+  if (isParseableSchema(schema)) {
+    return "Respond with only a valid JSON object (no markdown, no code blocks).";
+  }
+  return `Respond with only a valid JSON object (no markdown, no code blocks) matching this JSON Schema:
+${JSON.stringify(schema)}`;
+}
+
+/**
+ * Parses an agent's final answer and validates it against a schema
+ * @param schema Output schema
+ * @param output Final answer of the agent
+ * @returns The parsed and validated data
+ * @throws Error if the answer is not valid JSON or does not match the schema
+ */
+export function parseTaskOutput(
+  schema: TaskOutputSchema,
+  output: string
+): unknown {
+  let value: unknown;
+  try {
+    // Remove any markdown code block indicators if present
+    value = JSON.parse(output.replace(/```json\n?|\n?```/g, "").trim());
+  } catch {
+    throw new Error("Task output is not valid JSON");
+  }
+
+  if (isParseableSchema(schema)) {
+    const result = schema.safeParse(value);
+    if (!result.success) {
+      throw new Error(
+        `Task output does not match the schema: ${result.error.message}`
+      );
+    }
+    return result.data;
+  }
+
+  const { value: data, issues } = JsonSchemaValidator.validate(
+    schema,
+    value,
+    "output"
+  );
+  if (issues.length > 0) {
+    throw new Error(
+      `Task output does not match the schema: ${issues.join("; ")}`
+    );
+  }
+  return data;
+}
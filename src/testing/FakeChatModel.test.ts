@@ -0,0 +1,105 @@
+import { AIMessageChunk } from "@langchain/core/messages";
+import { NonRetryableError } from "../tasks/NonRetryableError";
+import { FakeChatModel } from "./FakeChatModel";
+import { toolCallResponse } from "./fakeResponses";
+
+/**
+ * Streams a response and joins its chunks
+ * @param model The model
+ * @param prompt Prompt to send
+ * @returns The chunks and the joined response
+ */
+async function streamResponse(
+  model: FakeChatModel,
+  prompt: string
+): Promise<{ chunks: AIMessageChunk[]; response: AIMessageChunk }> {
+  const chunks: AIMessageChunk[] = [];
+  for await (const chunk of await model.stream(prompt)) {
+    chunks.push(chunk);
+  }
+  return {
+    chunks,
+    response: chunks.reduce((joined, chunk) => joined.concat(chunk)),
+  };
+}
+
+describe("FakeChatModel", () => {
+  it("gives the first matching response that is not used up", async () => {
+    const model = new FakeChatModel({
+      responses: [{ prompt: /bats/, response: "Bats", times: 2 }, "Anything"],
+      defaultResponse: "Default",
+    });
+
+    const answers = [];
+    for (const prompt of ["About bats", "About owls", "More bats", "Bats?"]) {
+      answers.push((await model.invoke(prompt)).content);
+    }
+
+    expect(answers).toEqual(["Bats", "Anything", "Bats", "Default"]);
+    expect(model.getCalls().map((call) => call.prompt)).toEqual([
+      "About bats",
+      "About owls",
+      "More bats",
+      "Bats?",
+    ]);
+  });
+
+  it("throws without a matching response", async () => {
+    const model = new FakeChatModel({ responses: ["Once"] });
+    await model.invoke("First");
+
+    await expect(model.invoke("Second")).rejects.toThrow(NonRetryableError);
+    expect(model.getPendingResponseCount()).toBe(0);
+  });
+
+  it("streams text word by word, with the usage on the last chunk", async () => {
+    const model = new FakeChatModel({
+      responses: [
+        {
+          content: "Bats use echolocation",
+          usage: { promptTokens: 3, completionTokens: 4 },
+        },
+      ],
+    });
+
+    const { chunks, response } = await streamResponse(model, "How?");
+
+    expect(chunks.map((chunk) => chunk.content)).toEqual([
+      "Bats ",
+      "use ",
+      "echolocation",
+    ]);
+    expect(chunks[0].response_metadata.tokenUsage).toBeUndefined();
+    expect(response.content).toBe("Bats use echolocation");
+    expect(response.response_metadata.tokenUsage).toEqual({
+      promptTokens: 3,
+      completionTokens: 4,
+      totalTokens: 7,
+    });
+  });
+
+  it("streams scripted tool calls with the last chunk", async () => {
+    const model = new FakeChatModel({
+      toolCalling: true,
+      responses: [
+        {
+          content: "Let me calculate",
+          toolCalls: [{ name: "calculator", args: { a: 6, b: 7 }, id: "c1" }],
+        },
+        toolCallResponse("search", { query: "bats" }),
+      ],
+    });
+
+    const first = await streamResponse(model, "What is 6 times 7?");
+    const second = await streamResponse(model, "Search for bats");
+
+    expect(first.chunks[0].tool_call_chunks).toEqual([]);
+    expect(first.response.content).toBe("Let me calculate");
+    expect(first.response.tool_calls).toEqual([
+      { name: "calculator", args: { a: 6, b: 7 }, id: "c1" },
+    ]);
+    expect(second.response.tool_calls).toEqual([
+      { name: "search", args: { query: "bats" }, id: "call_1_0" },
+    ]);
+  });
+});
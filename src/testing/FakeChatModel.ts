@@ -0,0 +1,298 @@
+import {
+  BaseChatModel,
+  BaseChatModelCallOptions,
+  BaseChatModelParams,
+} from "@langchain/core/language_models/chat_models";
+import {
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+} from "@langchain/core/messages";
+import { ChatGenerationChunk, ChatResult } from "@langchain/core/outputs";
+import { NonRetryableError } from "../tasks/NonRetryableError";
+import { ToolDefinition } from "../tools/toolDefinition";
+import { estimateTokens } from "../usage/TokenUsage";
+
+/**
+ * Tool call returned by the fake model when native tool calling is enabled
+ */
+export interface FakeToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  id?: string;
+}
+
+/**
+ * Response of the fake model
+ */
+export interface FakeModelResponse {
+  /** Text of the response */
+  content?: string;
+  /** Native tool calls of the response */
+  toolCalls?: FakeToolCall[];
+  /** Token usage to report (default: estimated from the prompt and content) */
+  usage?: { promptTokens: number; completionTokens: number };
+}
+
+/**
+ * Response of the fake model, or just its text
+ */
+export type FakeResponse = string | FakeModelResponse;
+
+/**
+ * Selects prompts: a text the prompt contains, a pattern it matches or a
+ * predicate
+ */
+export type PromptMatcher = string | RegExp | ((prompt: string) => boolean);
+
+/**
+ * Scripted response of the fake model
+ */
+export interface FakeResponseRule {
+  /** Prompts the response is given to (default: any prompt) */
+  prompt?: PromptMatcher;
+  response: FakeResponse;
+  /** Number of times the response is given (default: 1; Infinity for always) */
+  times?: number;
+}
+
+/**
+ * Call made to the fake model
+ */
+export interface FakeModelCall {
+  prompt: string;
+  /** Names of the tools bound to the model */
+  tools: string[];
+  response: FakeModelResponse;
+}
+
+/**
+ * Call options of the fake model
+ */
+export interface FakeChatModelCallOptions extends BaseChatModelCallOptions {
+  tools?: ToolDefinition[];
+}
+
+/**
+ * Options for the fake model
+ */
+export interface FakeChatModelOptions extends BaseChatModelParams {
+  /**
+   * Scripted responses. Every call gets the first response whose prompt
+   * matches and that has not been used up yet.
+   */
+  responses?: (FakeResponse | FakeResponseRule)[];
+  /** Response given when no scripted response matches */
+  defaultResponse?: FakeResponse;
+  /** Whether the model supports native tool calling (default: false) */
+  toolCalling?: boolean;
+  /** Name reported for usage and price lookups (default: "fake") */
+  modelName?: string;
+}
+
+interface ScriptedResponse {
+  matches: (prompt: string) => boolean;
+  response: FakeResponse;
+  remaining: number;
+}
+
+/**
+ * Chat model that answers with scripted responses instead of calling a
+ * provider, so agents can run deterministically and offline
+ */
+export class FakeChatModel extends BaseChatModel<FakeChatModelCallOptions> {
+  public readonly modelName: string;
+  private readonly scripted: ScriptedResponse[] = [];
+  private readonly defaultResponse?: FakeResponse;
+  private readonly calls: FakeModelCall[] = [];
+
+  constructor(options: FakeChatModelOptions = {}) {
+    super(options);
+    this.modelName = options.modelName ?? "fake";
+    this.defaultResponse = options.defaultResponse;
+    for (const item of options.responses ?? []) {
+      if (typeof item === "object" && "response" in item) {
+        this.addResponse(item.response, item.prompt, item.times);
+      } else {
+        this.addResponse(item);
+      }
+    }
+
+    if (options.toolCalling) {
+      this.bindTools = (tools) =>
+        this.bind({ tools } as Partial<FakeChatModelCallOptions>);
+    }
+  }
+
+  public _llmType(): string {
+    return "fake";
+  }
+
+  /**
+   * Scripts a response
+   * @param response The response
+   * @param prompt Prompts the response is given to (default: any prompt)
+   * @param times Number of times the response is given (default: 1)
+   * @returns The model, for chaining
+   */
+  public addResponse(
+    response: FakeResponse,
+    prompt?: PromptMatcher,
+    times: number = 1
+  ): this {
+    this.scripted.push({
+      matches: toPredicate(prompt),
+      response,
+      remaining: times,
+    });
+    return this;
+  }
+
+  /**
+   * Gets the calls made to the model so far
+   */
+  public getCalls(): FakeModelCall[] {
+    return [...this.calls];
+  }
+
+  /**
+   * Gets the number of scripted responses that have not been used up,
+   * not counting responses given any number of times
+   */
+  public getPendingResponseCount(): number {
+    return this.scripted.filter(
+      (item) => item.remaining > 0 && Number.isFinite(item.remaining)
+    ).length;
+  }
+
+  /**
+   * Picks the response to a prompt
+   * @param prompt The prompt
+   * @returns The response
+   * @throws NonRetryableError if no scripted response matches
+   */
+  private nextResponse(prompt: string): FakeModelResponse {
+    const scripted = this.scripted.find(
+      (item) => item.remaining > 0 && item.matches(prompt)
+    );
+    if (scripted) {
+      scripted.remaining--;
+    }
+
+    const response = scripted?.response ?? this.defaultResponse;
+    if (response === undefined) {
+      throw new NonRetryableError(
+        `FakeChatModel has no scripted response for prompt:\n${prompt}`
+      );
+    }
+    return typeof response === "string" ? { content: response } : response;
+  }
+
+  /**
+   * Creates the message of a response
+   * @param prompt The prompt
+   * @param response The response
+   */
+  private toMessage(prompt: string, response: FakeModelResponse): AIMessage {
+    const content = response.content ?? "";
+    const promptTokens = response.usage?.promptTokens ?? estimateTokens(prompt);
+    const completionTokens =
+      response.usage?.completionTokens ?? estimateTokens(content);
+    return new AIMessage({
+      content,
+      tool_calls: (response.toolCalls ?? []).map((call, index) => ({
+        name: call.name,
+        args: call.args,
+        id: call.id ?? `call_${this.calls.length}_${index}`,
+      })),
+      response_metadata: {
+        tokenUsage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+      },
+    });
+  }
+
+  public async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"]
+  ): Promise<ChatResult> {
+    const prompt = getPromptText(messages);
+    const response = this.nextResponse(prompt);
+    const message = this.toMessage(prompt, response);
+    this.calls.push({
+      prompt,
+      tools: (options.tools ?? []).map((tool) => tool.function.name),
+      response,
+    });
+    return {
+      generations: [{ text: message.content.toString(), message }],
+    };
+  }
+
+  /**
+   * Streams the response word by word. Tool calls are streamed whole, with
+   * the last chunk.
+   */
+  public async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"]
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const { generations } = await this._generate(messages, options);
+    const message = generations[0].message as AIMessage;
+    const words = message.content.toString().split(/(?<=\s)/);
+    for (const [index, word] of words.entries()) {
+      const last = index === words.length - 1;
+      yield new ChatGenerationChunk({
+        text: word,
+        message: new AIMessageChunk({
+          content: word,
+          tool_call_chunks: last
+            ? (message.tool_calls ?? []).map((call, callIndex) => ({
+                name: call.name,
+                args: JSON.stringify(call.args),
+                id: call.id,
+                index: callIndex,
+              }))
+            : [],
+          // Usage is reported once, with the last chunk
+          response_metadata: last ? message.response_metadata : {},
+        }),
+      });
+    }
+  }
+}
+
+/**
+ * Joins the contents of the messages sent to a model
+ * @param messages The messages
+ * @returns The prompt text
+ */
+export function getPromptText(messages: BaseMessage[]): string {
+  return messages
+    .map((message) =>
+      typeof message.content === "string"
+        ? message.content
+        : JSON.stringify(message.content)
+    )
+    .join("\n");
+}
+
+/**
+ * Converts a prompt matcher into a predicate
+ * @param matcher The matcher
+ */
+function toPredicate(matcher?: PromptMatcher): (prompt: string) => boolean {
+  if (matcher === undefined) {
+    return () => true;
+  }
+  if (typeof matcher === "string") {
+    return (prompt) => prompt.includes(matcher);
+  }
+  if (matcher instanceof RegExp) {
+    return (prompt) => matcher.test(prompt);
+  }
+  return matcher;
+}
@@ -0,0 +1,116 @@
+import { BatTool } from "@bat-ai/tools";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { RecordReplay } from "./RecordReplay";
+import { FakeChatModel } from "./FakeChatModel";
+import { finalAnswerResponse, toolSelectionResponse } from "./fakeResponses";
+import { Agent } from "../agents/Agent";
+import { Logger } from "../utils/Logger";
+
+const logger = new Logger({ transports: [] });
+
+/**
+ * Creates a search tool counting how often it is really called
+ */
+function createSearchTool(): BatTool & { calls: number } {
+  const tool = {
+    calls: 0,
+    schema: {
+      name: "search",
+      description: "Searches the web",
+      parameters: { query: { type: "string" } },
+    },
+    execute: async (input: { query: string }) => {
+      tool.calls++;
+      return { success: true, result: `Results for ${input.query}` };
+    },
+  };
+  return tool;
+}
+
+/**
+ * Runs a research task with the models and tools of a fixture
+ * @param fixture The fixture
+ * @param model Real model, when recording
+ * @param tool Real tool
+ */
+function research(
+  fixture: RecordReplay,
+  model: FakeChatModel | undefined,
+  tool: BatTool
+): Promise<string> {
+  const agent = new Agent({
+    role: "Researcher",
+    goal: "Find facts",
+    backstory: "Curious",
+    model: fixture.model("researcher", model),
+    tools: [fixture.tool(tool)],
+    logger,
+  });
+  return agent.execute("Find facts about bats");
+}
+
+describe("RecordReplay", () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "bat-record-replay-"));
+    filePath = join(directory, "fixture.json");
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("replays recorded model and tool calls", async () => {
+    const recording = await RecordReplay.open(filePath);
+    expect(recording.isRecording()).toBe(true);
+    const recordedTool = createSearchTool();
+    const output = await research(
+      recording,
+      new FakeChatModel({
+        responses: [
+          {
+            prompt: "Previous steps",
+            response: finalAnswerResponse("Bats use echolocation"),
+          },
+          toolSelectionResponse("search", { query: "bats" }),
+        ],
+      }),
+      recordedTool
+    );
+    await recording.save();
+    expect(output).toBe("Bats use echolocation");
+    expect(recordedTool.calls).toBe(1);
+
+    const replay = await RecordReplay.open(filePath);
+    expect(replay.isRecording()).toBe(false);
+    const replayedTool = createSearchTool();
+
+    await expect(research(replay, undefined, replayedTool)).resolves.toBe(
+      "Bats use echolocation"
+    );
+    expect(replayedTool.calls).toBe(0);
+  });
+
+  it("fails to replay without a fixture file", async () => {
+    await expect(
+      RecordReplay.open(filePath, { mode: "replay" })
+    ).rejects.toThrow(`Fixture file ${filePath} not found`);
+  });
+
+  it("fails to replay a tool call that was not recorded", async () => {
+    const recording = await RecordReplay.open(filePath, { mode: "record" });
+    await recording.tool(createSearchTool()).execute({ query: "bats" });
+    await recording.save();
+
+    const replay = await RecordReplay.open(filePath, { mode: "replay" });
+    await expect(
+      replay.tool(createSearchTool()).execute({ query: "owls" })
+    ).rejects.toThrow(
+      'No recorded call of tool search with input {"query":"owls"}'
+    );
+  });
+});
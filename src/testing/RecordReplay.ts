@@ -0,0 +1,225 @@
+import { BatTool } from "@bat-ai/tools";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { stableStringify } from "../cache/cacheKey";
+import { NonRetryableError } from "../tasks/NonRetryableError";
+import { getModelName } from "../utils/getModelName";
+import { FakeChatModel, FakeModelResponse } from "./FakeChatModel";
+import { RecordingChatModel } from "./RecordingChatModel";
+
+/** Input a tool is called with */
+type ToolInput = Parameters<BatTool["execute"]>[0];
+
+/**
+ * Whether interactions are recorded from real models and tools, replayed
+ * from the fixture file, or replayed only if the file exists
+ */
+export type RecordReplayMode = "record" | "replay" | "auto";
+
+/**
+ * Recorded call to a model
+ */
+export interface RecordedModelCall {
+  prompt: string;
+  response: FakeModelResponse;
+}
+
+/**
+ * Recorded calls to a model
+ */
+export interface RecordedModel {
+  modelName: string;
+  /** Whether the model supported native tool calling */
+  toolCalling: boolean;
+  calls: RecordedModelCall[];
+}
+
+/**
+ * Recorded call to a tool
+ */
+export interface RecordedToolCall {
+  input: unknown;
+  /** The tool result, if the tool did not throw */
+  result?: unknown;
+  /** Message of the error the tool threw */
+  error?: string;
+}
+
+/**
+ * Contents of a fixture file
+ */
+export interface RecordReplayFixture {
+  /** Recorded models, by the name given when wrapping them */
+  models: Record<string, RecordedModel>;
+  /** Recorded tool calls, by tool name */
+  tools: Record<string, RecordedToolCall[]>;
+}
+
+/**
+ * Options for record/replay
+ */
+export interface RecordReplayOptions {
+  /** Mode (default: "auto") */
+  mode?: RecordReplayMode;
+}
+
+/**
+ * Records the calls agents make to models and tools into a fixture file, and
+ * replays them offline in later runs
+ */
+export class RecordReplay {
+  private readonly replayedToolCalls = new Set<RecordedToolCall>();
+
+  private constructor(
+    private readonly filePath: string,
+    private readonly mode: "record" | "replay",
+    private readonly fixture: RecordReplayFixture
+  ) {}
+
+  /**
+   * Opens a fixture file
+   * @param filePath Path of the fixture file
+   * @param options Record/replay options
+   * @returns Promise with the harness, replaying the file's interactions or
+   * recording new ones
+   * @throws Error if replaying and the file does not exist
+   */
+  public static async open(
+    filePath: string,
+    options: RecordReplayOptions = {}
+  ): Promise<RecordReplay> {
+    const mode = options.mode ?? "auto";
+    if (mode === "record") {
+      return new RecordReplay(filePath, "record", { models: {}, tools: {} });
+    }
+
+    let contents: string;
+    try {
+      contents = await readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        if (mode === "replay") {
+          throw new Error(`Fixture file ${filePath} not found`);
+        }
+        return new RecordReplay(filePath, "record", { models: {}, tools: {} });
+      }
+      throw error;
+    }
+    return new RecordReplay(filePath, "replay", JSON.parse(contents));
+  }
+
+  /**
+   * Checks whether interactions are being recorded rather than replayed
+   */
+  public isRecording(): boolean {
+    return this.mode === "record";
+  }
+
+  /**
+   * Wraps a model. When recording, calls go to the model and are recorded;
+   * when replaying, a fake model answers with the recorded responses, in
+   * order, to the same prompts.
+   * @param name Name of the model in the fixture, e.g. the agent role
+   * @param model The real model, only needed when recording
+   * @returns The model to give to the agent
+   * @throws Error if the model is missing when recording, or has no
+   * recording when replaying
+   */
+  public model(name: string, model?: BaseChatModel): BaseChatModel {
+    if (this.mode === "replay") {
+      const recorded = this.fixture.models[name];
+      if (!recorded) {
+        throw new Error(`No recorded model named ${name}`);
+      }
+      return new FakeChatModel({
+        modelName: recorded.modelName,
+        toolCalling: recorded.toolCalling,
+        responses: recorded.calls.map((call) => ({
+          prompt: (prompt: string) => prompt === call.prompt,
+          response: call.response,
+        })),
+      });
+    }
+
+    if (!model) {
+      throw new Error(`Model ${name} is required when recording`);
+    }
+    const recorded = (this.fixture.models[name] ??= {
+      modelName: getModelName(model),
+      toolCalling: typeof model.bindTools === "function",
+      calls: [],
+    });
+    return new RecordingChatModel(model, (prompt, response) =>
+      recorded.calls.push({ prompt, response })
+    );
+  }
+
+  /**
+   * Wraps a tool. When recording, calls go to the tool and are recorded;
+   * when replaying, the recorded results are returned for the same inputs.
+   * @param tool The tool
+   * @returns The tool to give to the agent
+   */
+  public tool<T extends BatTool>(tool: T): T {
+    const name = tool.schema.name;
+    const calls = (this.fixture.tools[name] ??= []);
+    const wrapped = Object.create(tool) as T;
+
+    const execute = tool.execute.bind(tool) as (
+      input: ToolInput,
+      signal?: AbortSignal
+    ) => ReturnType<BatTool["execute"]>;
+
+    wrapped.execute = async (input: ToolInput, signal?: AbortSignal) => {
+      if (this.mode === "replay") {
+        const recorded = calls.find(
+          (call) =>
+            !this.replayedToolCalls.has(call) &&
+            stableStringify(call.input) === stableStringify(input)
+        );
+        if (!recorded) {
+          throw new NonRetryableError(
+            `No recorded call of tool ${name} with input ${stableStringify(
+              input
+            )}`
+          );
+        }
+        this.replayedToolCalls.add(recorded);
+        if (recorded.error !== undefined) {
+          throw new Error(recorded.error);
+        }
+        return recorded.result as Awaited<ReturnType<BatTool["execute"]>>;
+      }
+
+      try {
+        const result = await execute(input, signal);
+        calls.push({ input, result });
+        return result;
+      } catch (error) {
+        calls.push({
+          input,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    };
+    return wrapped;
+  }
+
+  /**
+   * Writes the recorded interactions to the fixture file. Does nothing when
+   * replaying.
+   */
+  public async save(): Promise<void> {
+    if (this.mode === "replay") {
+      return;
+    }
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(
+      `${this.filePath}.tmp`,
+      JSON.stringify(this.fixture, null, 2)
+    );
+    await rename(`${this.filePath}.tmp`, this.filePath);
+  }
+}
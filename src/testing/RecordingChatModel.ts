@@ -0,0 +1,74 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { BaseMessage, isAIMessage } from "@langchain/core/messages";
+import { ChatResult } from "@langchain/core/outputs";
+import { getTokenUsage } from "../usage/TokenUsage";
+import { getModelName } from "../utils/getModelName";
+import {
+  FakeChatModelCallOptions,
+  FakeModelResponse,
+  getPromptText,
+} from "./FakeChatModel";
+
+/**
+ * Listener receiving every prompt sent to a recorded model and its response
+ */
+export type ModelCallListener = (
+  prompt: string,
+  response: FakeModelResponse
+) => void;
+
+/**
+ * Chat model that forwards calls to another model and reports each prompt
+ * and response, so they can be replayed by a fake model
+ */
+export class RecordingChatModel extends BaseChatModel<FakeChatModelCallOptions> {
+  public readonly modelName: string;
+
+  /**
+   * @param model The model to record
+   * @param onCall Listener receiving every call
+   */
+  constructor(
+    private readonly model: BaseChatModel,
+    private readonly onCall: ModelCallListener
+  ) {
+    super({});
+    this.modelName = getModelName(model);
+    if (typeof model.bindTools === "function") {
+      this.bindTools = (tools) =>
+        this.bind({ tools } as Partial<FakeChatModelCallOptions>);
+    }
+  }
+
+  public _llmType(): string {
+    return "recording";
+  }
+
+  public async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"]
+  ): Promise<ChatResult> {
+    const runnable = options.tools
+      ? this.model.bindTools!(options.tools)
+      : this.model;
+    const message: BaseMessage = await runnable.invoke(messages, {
+      signal: options.signal,
+    });
+
+    const usage = getTokenUsage(message);
+    const toolCalls = isAIMessage(message) ? message.tool_calls ?? [] : [];
+    this.onCall(getPromptText(messages), {
+      content: message.content.toString(),
+      toolCalls: toolCalls.length
+        ? toolCalls.map(({ name, args, id }) => ({ name, args, id }))
+        : undefined,
+      usage: {
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+      },
+    });
+    return {
+      generations: [{ text: message.content.toString(), message }],
+    };
+  }
+}
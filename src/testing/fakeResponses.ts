@@ -0,0 +1,57 @@
+import { FakeModelResponse } from "./FakeChatModel";
+
+/**
+ * Creates the JSON response an agent without native tool calling expects
+ * when the model selects a tool
+ * @param tool Name of the tool
+ * @param input Tool input
+ * @returns The response text
+ */
+export function toolSelectionResponse(
+  tool: string,
+  input: Record<string, unknown> = {}
+): string {
+  return JSON.stringify({ tool, input });
+}
+
+/**
+ * Creates the JSON response an agent without native tool calling expects
+ * when the model gives its final answer
+ * @param answer The final answer
+ * @returns The response text
+ */
+export function finalAnswerResponse(answer: string): string {
+  return JSON.stringify({ finalAnswer: answer });
+}
+
+/**
+ * Creates the JSON response to a delegation question for an agent without
+ * native tool calling
+ * @param targetAgentRole Role of the agent to delegate to, or undefined not
+ * to delegate
+ * @param reason Reason for the delegation
+ * @returns The response text
+ */
+export function delegationResponse(
+  targetAgentRole?: string,
+  reason: string = ""
+): string {
+  return JSON.stringify(
+    targetAgentRole
+      ? { shouldDelegate: true, reason, targetAgentRole }
+      : { shouldDelegate: false }
+  );
+}
+
+/**
+ * Creates a response with a native tool call
+ * @param name Name of the tool
+ * @param args Tool input
+ * @returns The response
+ */
+export function toolCallResponse(
+  name: string,
+  args: Record<string, unknown> = {}
+): FakeModelResponse {
+  return { toolCalls: [{ name, args }] };
+}
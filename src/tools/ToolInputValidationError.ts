@@ -0,0 +1,12 @@
+/**
+ * Error thrown when a tool input does not match the tool's parameter schema
+ */
+export class ToolInputValidationError extends Error {
+  constructor(
+    public readonly toolName: string,
+    public readonly issues: string[]
+  ) {
+    super(`Invalid input for tool ${toolName}: ${issues.join("; ")}`);
+    this.name = "ToolInputValidationError";
+  }
+}
@@ -0,0 +1,91 @@
+import { BatTool } from "@bat-ai/tools";
+import { ToolInputValidator } from "./ToolInputValidator";
+import { ToolInputValidationError } from "./ToolInputValidationError";
+
+function createTool(parameters: BatTool["schema"]["parameters"]): BatTool {
+  return {
+    schema: { name: "search", description: "Searches the web", parameters },
+    execute: async () => ({ success: true, result: [] }),
+  };
+}
+
+/**
+ * Gets the error thrown when validating an input
+ * @param tool The tool
+ * @param input Input to validate
+ */
+function getValidationError(
+  tool: BatTool,
+  input: unknown
+): ToolInputValidationError {
+  try {
+    ToolInputValidator.validate(tool, input);
+  } catch (error) {
+    if (error instanceof ToolInputValidationError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error("Expected the input to be invalid");
+}
+
+describe("ToolInputValidator.validate", () => {
+  const search = createTool({
+    type: "object",
+    properties: {
+      query: { type: "string" },
+      limit: { type: "integer", minimum: 1, default: 10 },
+      region: { type: "string", enum: ["us", "eu"] },
+    },
+    required: ["query"],
+  });
+
+  it("applies defaults to a valid input", () => {
+    expect(ToolInputValidator.validate(search, { query: "bats" })).toEqual({
+      query: "bats",
+      limit: 10,
+    });
+  });
+
+  it("accepts tools declaring only their properties", () => {
+    const tool = createTool({ query: { type: "string" } });
+
+    expect(ToolInputValidator.validate(tool, { query: "bats" })).toEqual({
+      query: "bats",
+    });
+    expect(getValidationError(tool, { query: 1 }).issues).toEqual([
+      "input.query must be of type string, got number",
+    ]);
+  });
+
+  it("reports every issue of an invalid input", () => {
+    const error = getValidationError(search, {
+      limit: 0,
+      region: "asia",
+    });
+
+    expect(error.toolName).toBe("search");
+    expect(error.issues).toEqual([
+      "input.query is required",
+      "input.limit must be at least 1",
+      'input.region must be one of "us", "eu"',
+    ]);
+    expect(error.message).toBe(
+      `Invalid input for tool search: ${error.issues.join("; ")}`
+    );
+  });
+
+  it("rejects properties the tool does not declare", () => {
+    expect(
+      getValidationError(search, { query: "bats", sort: "date" }).issues
+    ).toEqual([
+      "input.sort is not a known property. Known properties: query, limit, region",
+    ]);
+  });
+
+  it("rejects inputs that are not objects", () => {
+    expect(getValidationError(search, ["bats"]).issues).toEqual([
+      "input must be of type object, got array",
+    ]);
+  });
+});
@@ -0,0 +1,33 @@
+import { BatTool } from "@bat-ai/tools";
+import { getToolParametersSchema } from "./toolDefinition";
+import { ToolInputValidationError } from "./ToolInputValidationError";
+import { JsonSchemaValidator } from "../utils/JsonSchemaValidator";
+
+/**
+ * Validates tool inputs against the JSON Schema declared in the tool's
+ * parameters
+ */
+export class ToolInputValidator {
+  /**
+   * Validates an input for a tool and applies schema defaults
+   * @param tool The tool that will receive the input
+   * @param input Input produced by the model
+   * @returns The input with defaults applied
+   * @throws ToolInputValidationError if the input does not match the schema
+   */
+  static validate(tool: BatTool, input: unknown): Record<string, unknown> {
+    // Unknown parameters are rejected: they are usually hallucinated names
+    const { value, issues } = JsonSchemaValidator.validate(
+      getToolParametersSchema(tool),
+      input ?? {},
+      "input",
+      { strict: true }
+    );
+
+    if (issues.length > 0) {
+      throw new ToolInputValidationError(tool.schema.name, issues);
+    }
+    // The parameters schema is an object schema the input matched
+    return value as Record<string, unknown>;
+  }
+}
@@ -0,0 +1,54 @@
+import { BatTool } from "@bat-ai/tools";
+import { JsonSchema } from "../utils/JsonSchemaValidator";
+
+/**
+ * JSON Schema describing the parameters of a tool
+ */
+export interface ToolParametersSchema extends JsonSchema {
+  type: "object";
+  properties: Record<string, JsonSchema>;
+  required?: string[];
+}
+
+/**
+ * Tool definition in the OpenAI function-calling format accepted by
+ * BaseChatModel.bindTools
+ */
+export type ToolDefinition = {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: ToolParametersSchema;
+  };
+};
+
+/**
+ * Gets the parameters of a tool as a JSON Schema object.
+ * Tools may declare either a full object schema or just its properties.
+ * @param tool The tool
+ * @returns JSON Schema for the tool input
+ */
+export function getToolParametersSchema(tool: BatTool): ToolParametersSchema {
+  const parameters = tool.schema.parameters ?? {};
+  if (parameters.type === "object") {
+    return { properties: {}, ...parameters };
+  }
+  return { type: "object", properties: parameters };
+}
+
+/**
+ * Converts a tool into a function-calling tool definition
+ * @param tool The tool to convert
+ * @returns Tool definition for the model
+ */
+export function toToolDefinition(tool: BatTool): ToolDefinition {
+  return {
+    type: "function",
+    function: {
+      name: tool.schema.name,
+      description: tool.schema.description,
+      parameters: getToolParametersSchema(tool),
+    },
+  };
+}
@@ -0,0 +1,16 @@
+import { UsageBudget, UsageTotals } from "./UsageTracker";
+
+/**
+ * Error aborting a run whose usage exceeded its budget
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly budget: UsageBudget,
+    public readonly usage: UsageTotals
+  ) {
+    super(
+      `Usage budget exceeded: ${usage.totalTokens} tokens, cost ${usage.cost.toFixed(4)}`
+    );
+    this.name = "BudgetExceededError";
+  }
+}
@@ -0,0 +1,87 @@
+import { BaseMessage } from "@langchain/core/messages";
+
+/**
+ * Token counts reported by a model
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Token counts some providers report in `usage_metadata`
+ */
+interface UsageMetadata {
+  input_tokens?: number;
+  output_tokens?: number;
+  total_tokens?: number;
+}
+
+/**
+ * Creates an empty token usage record
+ */
+export function emptyTokenUsage(): TokenUsage {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+}
+
+/**
+ * Adds token usage to a running total
+ * @param total Usage to add to (modified in place)
+ * @param usage Usage to add
+ * @returns The updated total
+ */
+export function addTokenUsage(total: TokenUsage, usage: TokenUsage): TokenUsage {
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+  total.totalTokens += usage.totalTokens;
+  return total;
+}
+
+/**
+ * Reads the token usage reported in a model response.
+ * Supports both `usage_metadata` and the `tokenUsage` response metadata
+ * returned by OpenAI-compatible providers.
+ * @param message Model response
+ * @returns Token usage, zero if the provider did not report any
+ */
+export function getTokenUsage(message: BaseMessage): TokenUsage {
+  const usageMetadata =
+    "usage_metadata" in message
+      ? (message.usage_metadata as UsageMetadata | undefined)
+      : undefined;
+  if (usageMetadata) {
+    const promptTokens = usageMetadata.input_tokens ?? 0;
+    const completionTokens = usageMetadata.output_tokens ?? 0;
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens:
+        usageMetadata.total_tokens ?? promptTokens + completionTokens,
+    };
+  }
+
+  const tokenUsage =
+    message.response_metadata?.tokenUsage ??
+    message.response_metadata?.estimatedTokenUsage;
+  if (tokenUsage) {
+    const promptTokens = tokenUsage.promptTokens ?? 0;
+    const completionTokens = tokenUsage.completionTokens ?? 0;
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: tokenUsage.totalTokens ?? promptTokens + completionTokens,
+    };
+  }
+
+  return emptyTokenUsage();
+}
+
+/**
+ * Roughly estimates the number of tokens in a text (about 4 characters per token)
+ * @param text Text to estimate
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
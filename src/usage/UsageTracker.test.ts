@@ -0,0 +1,109 @@
+import { UsageSummary, UsageTracker } from "./UsageTracker";
+
+const usage = (promptTokens: number, completionTokens: number) => ({
+  promptTokens,
+  completionTokens,
+  totalTokens: promptTokens + completionTokens,
+});
+
+describe("UsageTracker", () => {
+  const prices = {
+    "gpt-4o": { promptPerMillion: 2.5, completionPerMillion: 10 },
+    "gpt-4o-mini": { promptPerMillion: 0.15, completionPerMillion: 0.6 },
+  };
+
+  it("estimates costs with the longest matching price", () => {
+    const tracker = new UsageTracker(prices);
+
+    expect(tracker.getCost("gpt-4o-2024-08-06", usage(1000, 100))).toBeCloseTo(
+      0.0035
+    );
+    expect(tracker.getCost("gpt-4o-mini-2024", usage(1000, 100))).toBeCloseTo(
+      0.00021
+    );
+    expect(tracker.getCost("llama3", usage(1000, 100))).toBe(0);
+  });
+
+  it("summarizes usage overall and per agent, task and model", () => {
+    const tracker = new UsageTracker(prices);
+    const run = tracker.child({ runId: "run-1" });
+    run
+      .child({ taskId: "research" })
+      .record("gpt-4o", "Researcher", usage(1000, 100));
+    run
+      .child({ taskId: "write" })
+      .record("gpt-4o-mini", "Writer", usage(2000, 500));
+    tracker.child({ runId: "run-2" }).record("gpt-4o", "Writer", usage(10, 10));
+
+    const summary = run.getSummary();
+
+    expect(summary.total).toEqual({
+      promptTokens: 3000,
+      completionTokens: 600,
+      totalTokens: 3600,
+      calls: 2,
+      cost: expect.closeTo(0.0035 + 0.0006, 10),
+    });
+    expect(Object.keys(summary.byAgent)).toEqual(["Researcher", "Writer"]);
+    expect(summary.byTask.write.totalTokens).toBe(2500);
+    expect(summary.byModel["gpt-4o"].calls).toBe(1);
+    expect(tracker.getSummary().total.calls).toBe(3);
+    expect(tracker.getSummary({ taskId: "write" }).total.calls).toBe(1);
+    expect(tracker.getSummary({ runId: "run-3" }).total.calls).toBe(0);
+  });
+
+  it("keeps summaries complete when old records are dropped", () => {
+    const tracker = new UsageTracker({}, { maxRecords: 2 });
+
+    for (let call = 0; call < 5; call++) {
+      tracker.record("fake", "Writer", usage(10, 5));
+    }
+
+    expect(tracker.getRecords()).toHaveLength(2);
+    expect(tracker.getSummary().total).toMatchObject({
+      calls: 5,
+      totalTokens: 75,
+    });
+  });
+
+  it("returns summaries that cannot change the recorded usage", () => {
+    const tracker = new UsageTracker();
+    tracker.record("fake", "Writer", usage(10, 5));
+
+    tracker.getSummary().total.totalTokens = 0;
+
+    expect(tracker.getSummary().total.totalTokens).toBe(15);
+  });
+
+  it("reports an exceeded budget once, counting child scopes", () => {
+    const onBudgetExceeded = jest.fn();
+    const tracker = new UsageTracker(prices);
+    const run = tracker.child(
+      { runId: "run-1" },
+      { budget: { maxTokens: 1000 }, onBudgetExceeded }
+    );
+    const task = run.child({ taskId: "research" });
+
+    task.record("gpt-4o", "Researcher", usage(500, 100));
+    expect(onBudgetExceeded).not.toHaveBeenCalled();
+
+    task.record("gpt-4o", "Researcher", usage(500, 100));
+    task.record("gpt-4o", "Researcher", usage(500, 100));
+    expect(onBudgetExceeded).toHaveBeenCalledTimes(1);
+    const summary: UsageSummary = onBudgetExceeded.mock.calls[0][0];
+    expect(summary.total.totalTokens).toBe(1200);
+  });
+
+  it("checks cost budgets", () => {
+    const onBudgetExceeded = jest.fn();
+    const run = new UsageTracker(prices).child(
+      { runId: "run-1" },
+      { budget: { maxCost: 0.01 }, onBudgetExceeded }
+    );
+
+    run.record("gpt-4o", "Researcher", usage(1000, 500));
+    expect(onBudgetExceeded).not.toHaveBeenCalled();
+    run.record("gpt-4o", "Researcher", usage(1000, 500));
+    expect(onBudgetExceeded).toHaveBeenCalledTimes(1);
+  });
+});
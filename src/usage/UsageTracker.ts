@@ -0,0 +1,359 @@
+import { TokenUsage, addTokenUsage, emptyTokenUsage } from "./TokenUsage";
+
+/**
+ * Price of a model in currency units per million tokens
+ */
+export interface ModelPrice {
+  promptPerMillion: number;
+  completionPerMillion: number;
+}
+
+/**
+ * Prices by model name. A name also matches models it is a prefix of,
+ * e.g. "gpt-4o" matches "gpt-4o-2024-08-06".
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * Ids a usage record is attributed to
+ */
+export interface UsageScope {
+  runId?: string;
+  taskId?: string;
+}
+
+/**
+ * Token usage and estimated cost of a single LLM call
+ */
+export interface UsageRecord extends TokenUsage, UsageScope {
+  timestamp: number;
+  model: string;
+  agentRole: string;
+  cost: number;
+}
+
+/**
+ * Aggregated usage of a group of LLM calls
+ */
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+  cost: number;
+}
+
+/**
+ * Usage aggregated overall and per agent, task and model
+ */
+export interface UsageSummary {
+  total: UsageTotals;
+  byAgent: Record<string, UsageTotals>;
+  byTask: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+}
+
+/**
+ * Limits on the usage of a run
+ */
+export interface UsageBudget {
+  maxCost?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Options for a scoped usage tracker
+ */
+export interface UsageScopeOptions {
+  /** Limits on the usage recorded in the scope */
+  budget?: UsageBudget;
+  /** Called once when the usage recorded in the scope exceeds the budget */
+  onBudgetExceeded?: (summary: UsageSummary) => void;
+}
+
+/**
+ * Options for a usage tracker
+ */
+export interface UsageTrackerOptions {
+  /** Maximum number of records kept for getRecords (default: 1000) */
+  maxRecords?: number;
+}
+
+/**
+ * Records, summaries and prices shared by a tracker and its scoped trackers
+ */
+interface UsageState {
+  prices: PriceTable;
+  records: UsageRecord[];
+  maxRecords: number;
+  /** Running summaries by scope key, so summaries do not scan records */
+  summaries: Map<string, UsageSummary>;
+}
+
+/**
+ * Default number of records kept in memory
+ */
+const DEFAULT_MAX_RECORDS = 1000;
+
+/**
+ * Creates empty usage totals
+ */
+function emptyTotals(): UsageTotals {
+  return { ...emptyTokenUsage(), calls: 0, cost: 0 };
+}
+
+/**
+ * Adds a usage record to totals
+ * @param totals Totals to add to (modified in place)
+ * @param record Record to add
+ */
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+  addTokenUsage(totals, record);
+  totals.calls++;
+  totals.cost += record.cost;
+}
+
+/**
+ * Adds a usage record to the totals of a group
+ * @param groups Totals by group key (modified in place)
+ * @param key Key of the group
+ * @param record Record to add
+ */
+function addGroupRecord(
+  groups: Record<string, UsageTotals>,
+  key: string,
+  record: UsageRecord
+): void {
+  if (!groups[key]) {
+    groups[key] = emptyTotals();
+  }
+  addRecord(groups[key], record);
+}
+
+/**
+ * Creates an empty usage summary
+ */
+function emptySummary(): UsageSummary {
+  return { total: emptyTotals(), byAgent: {}, byTask: {}, byModel: {} };
+}
+
+/**
+ * Copies a usage summary, so callers cannot change the running summaries
+ * @param summary The summary
+ */
+function copySummary(summary: UsageSummary): UsageSummary {
+  const copyGroups = (groups: Record<string, UsageTotals>) =>
+    Object.fromEntries(
+      Object.entries(groups).map(([key, totals]) => [key, { ...totals }])
+    );
+  return {
+    total: { ...summary.total },
+    byAgent: copyGroups(summary.byAgent),
+    byTask: copyGroups(summary.byTask),
+    byModel: copyGroups(summary.byModel),
+  };
+}
+
+/**
+ * Gets the key of the running summary of a scope
+ * @param scope The scope; missing ids match any id
+ */
+function getScopeKey(scope: UsageScope): string {
+  return JSON.stringify([scope.runId ?? null, scope.taskId ?? null]);
+}
+
+/**
+ * Records the token usage of LLM calls and estimates their cost.
+ * Scoped trackers created with child() share the records of their parent,
+ * attribute new records to a run or task and summarize only those records.
+ * Summaries are kept up to date as records are added, while only the
+ * latest records themselves are kept.
+ */
+export class UsageTracker {
+  private state: UsageState;
+  private parent?: UsageTracker;
+  private scope: UsageScope = {};
+  private options: UsageScopeOptions = {};
+  private budgetExceeded = false;
+
+  constructor(prices: PriceTable = {}, options: UsageTrackerOptions = {}) {
+    this.state = {
+      prices,
+      records: [],
+      maxRecords: options.maxRecords ?? DEFAULT_MAX_RECORDS,
+      summaries: new Map(),
+    };
+  }
+
+  /**
+   * Creates a tracker attributing records to a run or task
+   * @param scope Ids to attribute records to
+   * @param options Budget of the scope
+   * @returns Scoped tracker sharing prices and records
+   */
+  public child(
+    scope: UsageScope,
+    options: UsageScopeOptions = {}
+  ): UsageTracker {
+    const child = new UsageTracker();
+    child.state = this.state;
+    child.parent = this;
+    child.scope = { ...this.scope, ...scope };
+    child.options = options;
+    return child;
+  }
+
+  /**
+   * Gets the price of a model
+   * @param model Model name
+   * @returns The price, or undefined if the model is not in the price table
+   */
+  public getPrice(model: string): ModelPrice | undefined {
+    if (this.state.prices[model]) {
+      return this.state.prices[model];
+    }
+    const prefix = Object.keys(this.state.prices)
+      .filter((name) => model.startsWith(name))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? this.state.prices[prefix] : undefined;
+  }
+
+  /**
+   * Estimates the cost of token usage
+   * @param model Model name
+   * @param usage Token usage
+   * @returns Estimated cost, 0 if the model has no price
+   */
+  public getCost(model: string, usage: TokenUsage): number {
+    const price = this.getPrice(model);
+    if (!price) {
+      return 0;
+    }
+    return (
+      (usage.promptTokens * price.promptPerMillion +
+        usage.completionTokens * price.completionPerMillion) /
+      1_000_000
+    );
+  }
+
+  /**
+   * Records the usage of an LLM call
+   * @param model Name of the model called
+   * @param agentRole Role of the agent that made the call
+   * @param usage Tokens used
+   * @returns The usage record
+   */
+  public record(
+    model: string,
+    agentRole: string,
+    usage: TokenUsage
+  ): UsageRecord {
+    const record: UsageRecord = {
+      timestamp: Date.now(),
+      model,
+      agentRole,
+      ...this.scope,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      cost: this.getCost(model, usage),
+    };
+    this.state.records.push(record);
+    if (this.state.records.length > this.state.maxRecords) {
+      this.state.records.shift();
+    }
+    this.addToSummaries(record);
+    this.checkBudget();
+    return record;
+  }
+
+  /**
+   * Adds a record to the running summaries of every scope it belongs to
+   * @param record The record
+   */
+  private addToSummaries(record: UsageRecord): void {
+    const runIds = [undefined, record.runId];
+    const taskIds = [undefined, record.taskId];
+    const keys = new Set(
+      runIds.flatMap((runId) =>
+        taskIds.map((taskId) => getScopeKey({ runId, taskId }))
+      )
+    );
+
+    for (const key of keys) {
+      let summary = this.state.summaries.get(key);
+      if (!summary) {
+        summary = emptySummary();
+        this.state.summaries.set(key, summary);
+      }
+      addRecord(summary.total, record);
+      addGroupRecord(summary.byAgent, record.agentRole, record);
+      addGroupRecord(summary.byModel, record.model, record);
+      if (record.taskId !== undefined) {
+        addGroupRecord(summary.byTask, record.taskId, record);
+      }
+    }
+  }
+
+  /**
+   * Notifies the budget listener the first time the usage recorded in this
+   * scope, including the usage of its scoped trackers, exceeds the budget
+   */
+  private checkBudget(): void {
+    this.parent?.checkBudget();
+    const { budget, onBudgetExceeded } = this.options;
+    if (!budget || this.budgetExceeded) {
+      return;
+    }
+
+    const total = this.getTotals();
+    const { maxCost, maxTokens } = budget;
+    if (
+      (maxCost !== undefined && total.cost > maxCost) ||
+      (maxTokens !== undefined && total.totalTokens > maxTokens)
+    ) {
+      this.budgetExceeded = true;
+      onBudgetExceeded?.(this.getSummary());
+    }
+  }
+
+  /**
+   * Gets the running totals of this tracker's scope without copying them
+   */
+  private getTotals(): UsageTotals {
+    return (
+      this.state.summaries.get(getScopeKey(this.scope))?.total ?? emptyTotals()
+    );
+  }
+
+  /**
+   * Gets the latest records of this tracker's scope, at most maxRecords
+   * records of all scopes being kept
+   * @param scope Optional ids to narrow the records down to
+   */
+  public getRecords(scope: UsageScope = {}): UsageRecord[] {
+    const filter = { ...this.scope, ...scope };
+    return this.state.records.filter(
+      (record) =>
+        (filter.runId === undefined || record.runId === filter.runId) &&
+        (filter.taskId === undefined || record.taskId === filter.taskId)
+    );
+  }
+
+  /**
+   * Summarizes the usage recorded in this tracker's scope
+   * @param scope Optional ids to narrow the summary down to
+   * @returns Usage overall and per agent, task and model
+   */
+  public getSummary(scope: UsageScope = {}): UsageSummary {
+    const summary = this.state.summaries.get(
+      getScopeKey({ ...this.scope, ...scope })
+    );
+    return summary ? copySummary(summary) : emptySummary();
+  }
+
+  /**
+   * Clears all records and summaries
+   */
+  public reset(): void {
+    this.state.records = [];
+    this.state.summaries.clear();
+  }
+}
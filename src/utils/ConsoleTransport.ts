@@ -0,0 +1,23 @@
+import { LogTransport } from "./LogTransport";
+import { LogRecord, formatLogRecord } from "./Logger";
+
+/**
+ * Writes log records to the console, as readable lines or JSON
+ */
+export class ConsoleTransport implements LogTransport {
+  constructor(private readonly format: "text" | "json" = "text") {}
+
+  /**
+   * Writes a record, sending warnings and errors to stderr
+   * @param record The record
+   */
+  public write(record: LogRecord): void {
+    const line =
+      this.format === "json" ? JSON.stringify(record) : formatLogRecord(record);
+    if (record.level === "warn" || record.level === "error") {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { appendFileSync } from "fs";
+import { LogTransport } from "./LogTransport";
+import { LogRecord } from "./Logger";
+
+/**
+ * Appends log records to a file as JSON lines
+ */
+export class FileTransport implements LogTransport {
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Appends a record to the file
+   * @param record The record
+   */
+  public write(record: LogRecord): void {
+    appendFileSync(this.filePath, `${JSON.stringify(record)}\n`);
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * JSON Schema, or the part of it the validator enforces
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  enum?: unknown[];
+  minimum?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  default?: unknown;
+  [keyword: string]: unknown;
+}
+
+/**
+ * Options of a validation
+ */
+export interface JsonSchemaValidationOptions {
+  /**
+   * Reject object properties the schema does not declare when it does not
+   * say whether additional properties are allowed (default: false, which
+   * allows them as JSON Schema does)
+   */
+  strict?: boolean;
+}
+
+/**
+ * Validates values against a JSON Schema subset: the type, enum, minimum,
+ * default, properties, required, additionalProperties and items keywords.
+ * Other keywords, such as pattern, minLength, maximum, format or oneOf, are
+ * not enforced. Undeclared object properties are allowed unless
+ * additionalProperties is false, or in strict mode is not given; when
+ * additionalProperties is a schema, they are validated against it.
+ */
+export class JsonSchemaValidator {
+  /**
+   * Validates a value and applies schema defaults
+   * @param schema JSON Schema for the value
+   * @param value Value to validate
+   * @param path Name of the value, used in issue messages
+   * @param options Validation options
+   * @returns The value with defaults applied and the validation issues found
+   */
+  static validate(
+    schema: JsonSchema,
+    value: unknown,
+    path: string = "value",
+    options: JsonSchemaValidationOptions = {}
+  ): { value: unknown; issues: string[] } {
+    const issues: string[] = [];
+    const result = JsonSchemaValidator.validateValue(
+      schema,
+      value,
+      path,
+      issues,
+      options
+    );
+    return { value: result, issues };
+  }
+
+  /**
+   * Validates a value against a schema, collecting issues
+   * @param schema JSON Schema for the value
+   * @param value Value to validate
+   * @param path Path of the value, used in issue messages
+   * @param issues Collected validation issues
+   * @param options Validation options
+   * @returns The value with defaults applied
+   */
+  private static validateValue(
+    schema: JsonSchema,
+    value: unknown,
+    path: string,
+    issues: string[],
+    options: JsonSchemaValidationOptions
+  ): unknown {
+    if (schema.enum && !schema.enum.includes(value)) {
+      issues.push(
+        `${path} must be one of ${schema.enum
+          .map((option) => JSON.stringify(option))
+          .join(", ")}`
+      );
+      return value;
+    }
+
+    const types: string[] = Array.isArray(schema.type)
+      ? schema.type
+      : schema.type
+      ? [schema.type]
+      : [];
+    if (
+      types.length > 0 &&
+      !types.some((type) => JsonSchemaValidator.matchesType(type, value))
+    ) {
+      issues.push(
+        `${path} must be of type ${types.join(" or ")}, got ${JsonSchemaValidator.describeType(
+          value
+        )}`
+      );
+      return value;
+    }
+
+    if (
+      typeof schema.minimum === "number" &&
+      typeof value === "number" &&
+      value < schema.minimum
+    ) {
+      issues.push(`${path} must be at least ${schema.minimum}`);
+      return value;
+    }
+
+    if (
+      JsonSchemaValidator.isObject(value) &&
+      (schema.properties ||
+        typeof schema.additionalProperties === "object" ||
+        schema.additionalProperties === false)
+    ) {
+      return JsonSchemaValidator.validateObject(
+        schema,
+        value,
+        path,
+        issues,
+        options
+      );
+    }
+
+    if (Array.isArray(value) && schema.items) {
+      const items = schema.items;
+      return value.map((item, index) =>
+        JsonSchemaValidator.validateValue(
+          items,
+          item,
+          `${path}[${index}]`,
+          issues,
+          options
+        )
+      );
+    }
+
+    return value;
+  }
+
+  /**
+   * Validates the properties of an object value
+   * @param schema JSON Schema for the object
+   * @param value Object to validate
+   * @param path Path of the object, used in issue messages
+   * @param issues Collected validation issues
+   * @param options Validation options
+   * @returns A copy of the object with defaults applied
+   */
+  private static validateObject(
+    schema: JsonSchema,
+    value: Record<string, unknown>,
+    path: string,
+    issues: string[],
+    options: JsonSchemaValidationOptions
+  ): Record<string, unknown> {
+    const properties = schema.properties ?? {};
+    const required = schema.required ?? [];
+    const result: Record<string, unknown> = { ...value };
+
+    for (const [name, propertySchema] of Object.entries(properties)) {
+      if (result[name] === undefined && propertySchema.default !== undefined) {
+        result[name] = propertySchema.default;
+      }
+      if (result[name] === undefined) {
+        if (required.includes(name)) {
+          issues.push(`${path}.${name} is required`);
+        }
+        continue;
+      }
+      result[name] = JsonSchemaValidator.validateValue(
+        propertySchema,
+        result[name],
+        `${path}.${name}`,
+        issues,
+        options
+      );
+    }
+
+    const { additionalProperties } = schema;
+    if (typeof additionalProperties === "object") {
+      for (const name of Object.keys(value)) {
+        if (!(name in properties)) {
+          result[name] = JsonSchemaValidator.validateValue(
+            additionalProperties,
+            value[name],
+            `${path}.${name}`,
+            issues,
+            options
+          );
+        }
+      }
+    } else if (
+      additionalProperties === false ||
+      (additionalProperties === undefined && options.strict)
+    ) {
+      for (const name of Object.keys(value)) {
+        if (!(name in properties)) {
+          issues.push(
+            `${path}.${name} is not a known property. Known properties: ${Object.keys(
+              properties
+            ).join(", ")}`
+          );
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Checks whether a value is a JSON object
+   * @param value Value to check
+   */
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Checks whether a value matches a JSON Schema type
+   * @param type JSON Schema type name
+   * @param value Value to check
+   */
+  private static matchesType(type: string, value: unknown): boolean {
+    switch (type) {
+      case "string":
+        return typeof value === "string";
+      case "number":
+        return typeof value === "number" && Number.isFinite(value);
+      case "integer":
+        return Number.isInteger(value);
+      case "boolean":
+        return typeof value === "boolean";
+      case "array":
+        return Array.isArray(value);
+      case "object":
+        return JsonSchemaValidator.isObject(value);
+      case "null":
+        return value === null;
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Describes the JSON type of a value for issue messages
+   * @param value Value to describe
+   */
+  private static describeType(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    return typeof value;
+  }
+}
@@ -0,0 +1,9 @@
+import { LogRecord } from "./Logger";
+
+/**
+ * Destination for log records, e.g. the console, a file or a log service.
+ * Errors thrown by write are caught by the logger and reported once.
+ */
+export interface LogTransport {
+  write(record: LogRecord): void;
+}
@@ -0,0 +1,140 @@
+import { LogTransport } from "./LogTransport";
+import { LogRecord, Logger } from "./Logger";
+
+/**
+ * Transport keeping the records it is given
+ */
+class MemoryTransport implements LogTransport {
+  public readonly records: LogRecord[] = [];
+
+  public write(record: LogRecord): void {
+    this.records.push(record);
+  }
+}
+
+describe("Logger", () => {
+  it("writes records at or above its level", () => {
+    const transport = new MemoryTransport();
+    const logger = new Logger({ level: "warn", transports: [transport] });
+
+    logger.debug("Debugging");
+    logger.info("Starting");
+    logger.warn("Slow response");
+    logger.error("Failed");
+
+    expect(transport.records.map((record) => record.level)).toEqual([
+      "warn",
+      "error",
+    ]);
+    expect(logger.isLevelEnabled("info")).toBe(false);
+
+    logger.setLevel("silent");
+    logger.error("Failed again");
+    expect(transport.records).toHaveLength(2);
+  });
+
+  it("reads the level from BAT_LOG_LEVEL, falling back to info", () => {
+    const transport = new MemoryTransport();
+    const previous = process.env.BAT_LOG_LEVEL;
+    try {
+      process.env.BAT_LOG_LEVEL = "DEBUG";
+      expect(
+        new Logger({ transports: [transport] }).isLevelEnabled("debug")
+      ).toBe(true);
+
+      process.env.BAT_LOG_LEVEL = "loud";
+      const logger = new Logger({ transports: [transport] });
+      expect(logger.isLevelEnabled("debug")).toBe(false);
+      expect(logger.isLevelEnabled("info")).toBe(true);
+      expect(transport.records.map((record) => record.message)).toEqual([
+        'Unknown BAT_LOG_LEVEL "loud", using "info". Levels: debug, info, ' +
+          "warn, error, silent",
+      ]);
+    } finally {
+      if (previous === undefined) {
+        delete process.env.BAT_LOG_LEVEL;
+      } else {
+        process.env.BAT_LOG_LEVEL = previous;
+      }
+    }
+  });
+
+  it("rejects an unknown level", () => {
+    expect(() => new Logger({ level: "verbose" as "debug" })).toThrow(
+      "Unknown log level: verbose"
+    );
+  });
+
+  it("adds the context of child loggers to their records", () => {
+    const transport = new MemoryTransport();
+    const logger = new Logger({
+      transports: [transport],
+      context: { runId: "run-1" },
+    });
+
+    const child = logger.child({ taskId: "research" });
+    child.child({ agentRole: "Researcher" }).info("Searching", {
+      event: "search",
+    });
+    child.info("Done", { taskId: "override" });
+
+    expect(transport.records).toEqual([
+      expect.objectContaining({
+        message: "Searching",
+        runId: "run-1",
+        taskId: "research",
+        agentRole: "Researcher",
+        event: "search",
+      }),
+      expect.objectContaining({
+        message: "Done",
+        runId: "run-1",
+        taskId: "override",
+      }),
+    ]);
+    // Children share the records of their parent
+    expect(logger.getRecords()).toHaveLength(2);
+  });
+
+  it("keeps at most maxRecords records", () => {
+    const logger = new Logger({ transports: [], maxRecords: 2 });
+
+    logger.info("First");
+    logger.info("Second");
+    logger.info("Third");
+
+    expect(logger.getRecords().map((record) => record.message)).toEqual([
+      "Second",
+      "Third",
+    ]);
+    logger.clearLogs();
+    expect(logger.getLogs()).toEqual([]);
+  });
+
+  it("keeps logging when a transport throws", () => {
+    const consoleError = jest
+      .spyOn(console, "error")
+      .mockImplementation(() => undefined);
+    const failing: LogTransport = {
+      write: () => {
+        throw new Error("Disk full");
+      },
+    };
+    const transport = new MemoryTransport();
+    const logger = new Logger({ transports: [failing, transport] });
+
+    try {
+      expect(() => logger.info("First")).not.toThrow();
+      expect(() => logger.info("Second")).not.toThrow();
+
+      expect(transport.records.map((record) => record.message)).toEqual([
+        "First",
+        "Second",
+      ]);
+      expect(consoleError).toHaveBeenCalledTimes(1);
+      expect(consoleError.mock.calls[0][0]).toContain("Disk full");
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+});
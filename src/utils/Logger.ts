@@ -1,14 +1,159 @@
+import { LogTransport } from "./LogTransport";
+import { ConsoleTransport } from "./ConsoleTransport";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Minimum level a logger writes; "silent" disables all output
+ */
+export type LoggerLevel = LogLevel | "silent";
+
+/**
+ * Correlation fields attached to log records
+ */
+export interface LogContext {
+  runId?: string;
+  taskId?: string;
+  agentRole?: string;
+}
+
+/**
+ * Fields that can be added to a single log record
+ */
+export interface LogFields extends LogContext {
+  event?: string;
+  payload?: unknown;
+}
+
+/**
+ * Structured log record
+ */
+export interface LogRecord extends LogFields {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+}
+
+/**
+ * Options for creating a logger
+ */
+export interface LoggerOptions {
+  /** Minimum level to write (default: BAT_LOG_LEVEL or "info") */
+  level?: LoggerLevel;
+  /** Where records are written (default: the console) */
+  transports?: LogTransport[];
+  /** Maximum number of records kept for getLogs (default: 1000) */
+  maxRecords?: number;
+  /** Correlation fields added to every record */
+  context?: LogContext;
+}
+
+const LEVEL_WEIGHTS: Record<LoggerLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+/**
+ * Default number of records kept in memory
+ */
+const DEFAULT_MAX_RECORDS = 1000;
+
+/**
+ * Invalid BAT_LOG_LEVEL value already warned about, so it is reported once
+ */
+let reportedEnvLevel: string | undefined;
+
+/**
+ * Parses a log level name, ignoring case
+ * @param name Level name, e.g. "DEBUG"
+ * @returns The level, or undefined if the name is not a level
+ */
+function parseLogLevel(name: string): LoggerLevel | undefined {
+  const level = name.trim().toLowerCase();
+  return Object.prototype.hasOwnProperty.call(LEVEL_WEIGHTS, level)
+    ? (level as LoggerLevel)
+    : undefined;
+}
+
+/**
+ * Formats a log record as a single readable line
+ * @param record The record
+ * @returns Formatted record
+ */
+export function formatLogRecord(record: LogRecord): string {
+  let scope = record.level.toUpperCase();
+  if (record.agentRole) {
+    scope = `AGENT [${record.agentRole}]`;
+  } else if (record.taskId) {
+    scope = `TASK [${record.taskId}]`;
+  }
+  return `[${record.timestamp}] ${scope}: ${record.message}`;
+}
+
+/**
+ * Settings and records shared by a logger and its children
+ */
+interface LoggerState {
+  level: LoggerLevel;
+  transports: LogTransport[];
+  records: LogRecord[];
+  maxRecords: number;
+  /** Transports whose failure was reported, so it is reported once */
+  failedTransports: Set<LogTransport>;
+}
+
 /**
- * Simple logging utility for agent and task executions
+ * Structured logger for agent and task executions.
+ * Each Bat owns its own logger; child loggers share their parent's
+ * transports and records and add correlation fields such as the run id.
  */
 export class Logger {
   private static instance: Logger;
-  private logs: string[] = [];
+  private state: LoggerState;
+  private readonly context: LogContext;
 
-  private constructor() {}
+  constructor(options: LoggerOptions = {}) {
+    let level: LoggerLevel = "info";
+    let invalidEnvLevel: string | undefined;
+    if (options.level !== undefined) {
+      const parsed = parseLogLevel(options.level);
+      if (!parsed) {
+        throw new Error(`Unknown log level: ${options.level}`);
+      }
+      level = parsed;
+    } else if (process.env.BAT_LOG_LEVEL) {
+      // A bad environment value must not break every agent and task
+      const parsed = parseLogLevel(process.env.BAT_LOG_LEVEL);
+      if (parsed) {
+        level = parsed;
+      } else {
+        invalidEnvLevel = process.env.BAT_LOG_LEVEL;
+      }
+    }
+    this.state = {
+      level,
+      transports: options.transports ?? [new ConsoleTransport()],
+      records: [],
+      maxRecords: options.maxRecords ?? DEFAULT_MAX_RECORDS,
+      failedTransports: new Set(),
+    };
+    this.context = options.context ?? {};
+
+    if (invalidEnvLevel !== undefined && invalidEnvLevel !== reportedEnvLevel) {
+      reportedEnvLevel = invalidEnvLevel;
+      this.warn(
+        `Unknown BAT_LOG_LEVEL "${invalidEnvLevel}", using "info". Levels: ${Object.keys(
+          LEVEL_WEIGHTS
+        ).join(", ")}`
+      );
+    }
+  }
 
   /**
-   * Get the singleton instance of Logger
+   * Get the process-wide logger, used by agents and tasks running outside a Bat
    */
   public static getInstance(): Logger {
     if (!Logger.instance) {
@@ -17,16 +162,112 @@ export class Logger {
     return Logger.instance;
   }
 
+  /**
+   * Creates a logger that adds correlation fields to every record
+   * @param context Fields to add
+   * @returns Child logger sharing transports, level and records
+   */
+  public child(context: LogContext): Logger {
+    const child = new Logger({
+      level: this.state.level,
+      transports: [],
+      context: { ...this.context, ...context },
+    });
+    child.state = this.state;
+    return child;
+  }
+
+  /**
+   * Sets the minimum level to write
+   * @param level Log level, or "silent" to disable output
+   */
+  public setLevel(level: LoggerLevel): void {
+    this.state.level = level;
+  }
+
+  /**
+   * Checks whether records of a level are written
+   * @param level Log level
+   */
+  public isLevelEnabled(level: LogLevel): boolean {
+    return LEVEL_WEIGHTS[level] >= LEVEL_WEIGHTS[this.state.level];
+  }
+
+  /**
+   * Writes a log record
+   * @param level Level of the record
+   * @param message Message
+   * @param fields Additional fields
+   */
+  public log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const record: LogRecord = {
+      timestamp: new Date().toISOString(),
+      level,
+      message,
+      ...this.context,
+      ...fields,
+    };
+    this.state.records.push(record);
+    if (this.state.records.length > this.state.maxRecords) {
+      this.state.records.shift();
+    }
+    for (const transport of this.state.transports) {
+      try {
+        transport.write(record);
+      } catch (error) {
+        // Logging must never fail the task or tool that logs, nor keep the
+        // other transports from writing
+        this.reportTransportError(transport, error);
+      }
+    }
+  }
+
+  /**
+   * Reports the first failure of a transport on stderr, since the failing
+   * transport may be the only one
+   * @param transport The transport that failed
+   * @param error Error it threw
+   */
+  private reportTransportError(transport: LogTransport, error: unknown): void {
+    if (this.state.failedTransports.has(transport)) {
+      return;
+    }
+    this.state.failedTransports.add(transport);
+    const name = transport.constructor?.name ?? "LogTransport";
+    console.error(
+      `Log transport ${name} failed, further failures are not reported: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  public debug(message: string, fields?: LogFields): void {
+    this.log("debug", message, fields);
+  }
+
+  public info(message: string, fields?: LogFields): void {
+    this.log("info", message, fields);
+  }
+
+  public warn(message: string, fields?: LogFields): void {
+    this.log("warn", message, fields);
+  }
+
+  public error(message: string, fields?: LogFields): void {
+    this.log("error", message, fields);
+  }
+
   /**
    * Log an agent action
    * @param agentRole Role of the agent
    * @param action Description of the action
    */
   public logAgentAction(agentRole: string, action: string): void {
-    const timestamp = new Date().toISOString();
-    const log = `[${timestamp}] AGENT [${agentRole}]: ${action}`;
-    this.logs.push(log);
-    console.log(log);
+    this.info(action, { agentRole });
   }
 
   /**
@@ -40,25 +281,35 @@ export class Logger {
     status: "started" | "completed" | "failed" | "retrying",
     result?: string
   ): void {
-    const timestamp = new Date().toISOString();
-    const log = `[${timestamp}] TASK [${status.toUpperCase()}]: ${taskDescription}${
-      result ? `\nResult: ${result}` : ""
-    }`;
-    this.logs.push(log);
-    console.log(log);
+    const level: LogLevel =
+      status === "failed" ? "error" : status === "retrying" ? "warn" : "info";
+    this.log(
+      level,
+      `${status.toUpperCase()}: ${taskDescription}${
+        result ? `\nResult: ${result}` : ""
+      }`,
+      { event: `task_${status}`, payload: result }
+    );
+  }
+
+  /**
+   * Get the records written so far
+   */
+  public getRecords(): LogRecord[] {
+    return [...this.state.records];
   }
 
   /**
-   * Get all logs
+   * Get all logs as formatted lines
    */
   public getLogs(): string[] {
-    return [...this.logs];
+    return this.state.records.map(formatLogRecord);
   }
 
   /**
    * Clear all logs
    */
   public clearLogs(): void {
-    this.logs = [];
+    this.state.records = [];
   }
 }
@@ -0,0 +1,89 @@
+/**
+ * Gets the error describing why a signal was aborted
+ * @param signal The aborted signal
+ */
+export function getAbortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new Error("The operation was aborted");
+}
+
+/**
+ * Throws if the signal has been aborted
+ * @param signal Optional abort signal
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw getAbortError(signal);
+  }
+}
+
+/**
+ * Rejects as soon as the signal is aborted, even if the promise is still pending
+ * @param promise Promise to wait for
+ * @param signal Optional abort signal
+ * @returns Promise settling like the original one unless aborted first
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  throwIfAborted(signal);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(getAbortError(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Delays execution for the specified time, stopping early if aborted
+ * @param ms Time to delay in milliseconds
+ * @param signal Optional abort signal
+ * @returns Promise that resolves after the delay
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  return abortable(
+    new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, ms);
+    }),
+    signal
+  ).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Aborts a controller whenever a parent signal is aborted
+ * @param controller Controller to abort
+ * @param parent Optional parent signal
+ * @returns Function removing the link
+ */
+export function linkAbortSignal(
+  controller: AbortController,
+  parent?: AbortSignal
+): () => void {
+  if (!parent) {
+    return () => undefined;
+  }
+  if (parent.aborted) {
+    controller.abort(parent.reason);
+    return () => undefined;
+  }
+
+  const onAbort = () => controller.abort(parent.reason);
+  parent.addEventListener("abort", onAbort, { once: true });
+  return () => parent.removeEventListener("abort", onAbort);
+}
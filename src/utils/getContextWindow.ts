@@ -0,0 +1,36 @@
+/**
+ * Context window sizes, in tokens, by model name prefix. More specific
+ * prefixes come first.
+ */
+const CONTEXT_WINDOWS: [prefix: string, tokens: number][] = [
+  ["gpt-4o", 128000],
+  ["gpt-4-turbo", 128000],
+  ["gpt-4-1106", 128000],
+  ["gpt-4-0125", 128000],
+  ["gpt-4-32k", 32768],
+  ["gpt-4", 8192],
+  ["gpt-3.5-turbo-instruct", 4096],
+  ["gpt-3.5-turbo", 16385],
+  ["llama-3.1", 131072],
+  ["llama3", 8192],
+  ["mixtral-8x7b", 32768],
+  ["gemma", 8192],
+  ["claude", 200000],
+];
+
+/**
+ * Context window assumed for models not in the table
+ */
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/**
+ * Gets the size of the context window of a model
+ * @param modelName Name of the model, e.g. "gpt-4-turbo-preview"
+ * @returns The number of tokens the model accepts, prompt and response
+ * included
+ */
+export function getContextWindow(modelName: string): number {
+  const name = modelName.toLowerCase();
+  const match = CONTEXT_WINDOWS.find(([prefix]) => name.startsWith(prefix));
+  return match?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+}
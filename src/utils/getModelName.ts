@@ -0,0 +1,12 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+
+/**
+ * Gets a name identifying a chat model, e.g. "gpt-4-turbo-preview".
+ * Falls back to the provider type when the model does not expose its name.
+ * @param model The chat model
+ * @returns The model name
+ */
+export function getModelName(model: BaseChatModel): string {
+  const named = model as BaseChatModel & { modelName?: string; model?: string };
+  return named.modelName ?? named.model ?? model._llmType();
+}
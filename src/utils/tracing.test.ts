@@ -0,0 +1,109 @@
+import { BatTool } from "@bat-ai/tools";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { Agent } from "../agents/Agent";
+import { Bat } from "../bat/Bat";
+import { FakeChatModel } from "../testing/FakeChatModel";
+import { toolCallResponse } from "../testing/fakeResponses";
+import { Logger } from "./Logger";
+
+const search: BatTool = {
+  schema: {
+    name: "search",
+    description: "Searches the web",
+    parameters: { query: { type: "string" } },
+  },
+  execute: async () => ({ success: true, result: "Bats use echolocation" }),
+};
+
+/**
+ * Finds the only finished span with a name
+ * @param spans Finished spans
+ * @param name Span name
+ */
+function findSpan(spans: ReadableSpan[], name: string): ReadableSpan {
+  const matching = spans.filter((span) => span.name === name);
+  expect(matching).toHaveLength(1);
+  return matching[0];
+}
+
+describe("tracing", () => {
+  it("traces runs, tasks, agent steps, model and tool calls", async () => {
+    const exporter = new InMemorySpanExporter();
+    const provider = new BasicTracerProvider();
+    provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+    const agent = new Agent({
+      role: "Researcher",
+      goal: "Find facts",
+      backstory: "Curious",
+      model: new FakeChatModel({
+        toolCalling: true,
+        modelName: "fake-model",
+        responses: [
+          toolCallResponse("search", { query: "bats" }),
+          "Bats use echolocation",
+        ],
+      }),
+      tools: [search],
+      logger: new Logger({ transports: [] }),
+    });
+    const bat = new Bat([agent], {
+      logger: new Logger({ transports: [] }),
+      tracer: provider.getTracer("test"),
+    });
+    bat.addTask({
+      id: "research",
+      description: "Research bats",
+      agentRole: "Researcher",
+    });
+
+    await bat.kickoff();
+
+    const spans = exporter.getFinishedSpans();
+    const run = findSpan(spans, "bat.kickoff");
+    const task = findSpan(spans, "bat.task");
+    const attempt = findSpan(spans, "bat.task.attempt");
+    const execution = findSpan(spans, "bat.agent.execute");
+    const steps = spans.filter((span) => span.name === "bat.agent.step");
+    const llmCalls = spans.filter((span) => span.name === "bat.llm.call");
+    const toolCall = findSpan(spans, "bat.tool.call");
+    const parentOf = (span: ReadableSpan) => span.parentSpanId;
+    const idOf = (span: ReadableSpan) => span.spanContext().spanId;
+
+    expect(run.attributes["bat.run.id"]).toBe(bat.getLastRunId());
+    expect(parentOf(run)).toBeUndefined();
+    expect(parentOf(task)).toBe(idOf(run));
+    expect(task.attributes).toMatchObject({
+      "bat.task.id": "research",
+      "bat.task.status": "completed",
+      "bat.task.attempts": 1,
+    });
+    expect(parentOf(attempt)).toBe(idOf(task));
+    expect(parentOf(execution)).toBe(idOf(attempt));
+    expect(execution.attributes).toMatchObject({
+      "bat.agent.role": "Researcher",
+      "bat.agent.tool_calls": 1,
+    });
+
+    expect(steps.map((step) => step.attributes["bat.agent.step"])).toEqual([
+      1, 2,
+    ]);
+    steps.forEach((step) => expect(parentOf(step)).toBe(idOf(execution)));
+    expect(parentOf(toolCall)).toBe(idOf(steps[0]));
+    expect(toolCall.attributes["bat.tool.name"]).toBe("search");
+
+    expect(llmCalls.map(parentOf)).toEqual(steps.map(idOf));
+    llmCalls.forEach((call) =>
+      expect(call.attributes).toMatchObject({
+        "gen_ai.request.model": "fake-model",
+        "bat.llm.tools": ["search"],
+      })
+    );
+    const inputTokens = llmCalls[0].attributes["gen_ai.usage.input_tokens"];
+    expect(inputTokens).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  Attributes,
+  Span,
+  SpanStatusCode,
+  Tracer,
+  context,
+  trace,
+} from "@opentelemetry/api";
+
+/**
+ * Name of the tracer used when none is configured
+ */
+export const TRACER_NAME = "@bat-ai/core";
+
+/**
+ * Tracing state passed from a parent operation to its children
+ */
+export interface TraceContext {
+  tracer: Tracer;
+  span?: Span;
+}
+
+/**
+ * Gets the tracer to use, falling back to the globally registered provider.
+ * Without a registered provider spans are no-ops.
+ * @param tracer Configured tracer, if any
+ * @returns The tracer
+ */
+export function getTracer(tracer?: Tracer): Tracer {
+  return tracer ?? trace.getTracer(TRACER_NAME);
+}
+
+/**
+ * Starts a span as a child of the given parent
+ * @param traceContext Tracer and parent span
+ * @param name Span name
+ * @param attributes Initial span attributes
+ * @returns The started span, which the caller must end
+ */
+export function startSpan(
+  traceContext: TraceContext,
+  name: string,
+  attributes: Attributes
+): Span {
+  const parentContext = traceContext.span
+    ? trace.setSpan(context.active(), traceContext.span)
+    : context.active();
+  return traceContext.tracer.startSpan(name, { attributes }, parentContext);
+}
+
+/**
+ * Runs an operation inside a span that is a child of the given parent.
+ * The span records the error and ends when the operation settles.
+ * @param traceContext Tracer and parent span
+ * @param name Span name
+ * @param attributes Initial span attributes
+ * @param run The operation, receiving the new span
+ * @returns Promise with the result of the operation
+ */
+export async function withSpan<T>(
+  traceContext: TraceContext,
+  name: string,
+  attributes: Attributes,
+  run: (span: Span) => Promise<T>
+): Promise<T> {
+  const span = startSpan(traceContext, name, attributes);
+
+  try {
+    return await context.with(trace.setSpan(context.active(), span), () =>
+      run(span)
+    );
+  } catch (error) {
+    recordSpanError(span, error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Marks a span as failed
+ * @param span The span
+ * @param error The error
+ */
+export function recordSpanError(span: Span, error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  span.recordException(error instanceof Error ? error : message);
+  span.setStatus({ code: SpanStatusCode.ERROR, message });
+}
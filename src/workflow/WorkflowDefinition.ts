@@ -0,0 +1,136 @@
+import { MemoryType } from "../agents/memory/MemoryFactory";
+import { ApprovalPolicy } from "../approval/ApprovalHandler";
+import { RateLimitConfig } from "../scheduling/RateLimiter";
+import { BackoffStrategy } from "../tasks/RetryPolicy";
+import { TaskPriority } from "../tasks/Task";
+import { PriceTable, UsageBudget } from "../usage/UsageTracker";
+
+/**
+ * Providers of the chat models a workflow can define
+ */
+export type ModelProvider = "openai" | "groq";
+
+/**
+ * Chat model defined in a workflow
+ */
+export interface ModelDefinition {
+  provider: ModelProvider;
+  /** Model name, e.g. "gpt-4-turbo-preview" */
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Embeddings a memory defined in a workflow can use: OpenAI's, or local
+ * hash embeddings that need no API
+ */
+export type EmbeddingsProvider = "openai" | "hash";
+
+/**
+ * Memory of an agent defined in a workflow, mirroring the MemoryFactory
+ * configuration
+ */
+export interface MemoryDefinition {
+  /** Vector-store memory needs a vector store object, which files cannot hold */
+  type: Exclude<MemoryType, "vector-store">;
+  /** Name of the model used by summarizing memories (default: the agent's) */
+  model?: string;
+  memoryKey?: string;
+  inputKey?: string;
+  outputKey?: string;
+  returnMessages?: boolean;
+  k?: number;
+  maxTokenLimit?: number;
+  sessionId?: string;
+  mongoUrl?: string;
+  mongoCollectionName?: string;
+  mongoIndexName?: string;
+  redisUrl?: string;
+  redisPassword?: string;
+  redisIndexName?: string;
+  motorheadUrl?: string;
+  motorheadApiKey?: string;
+  motorheadClientId?: string;
+  /** Directory of the json-file memory sessions */
+  directory?: string;
+  /** Prefix of the tables of sqlite memory */
+  tablePrefix?: string;
+  /** Embeddings of the mongodb and redis memories (default: "openai") */
+  embeddings?: EmbeddingsProvider;
+}
+
+/**
+ * Agent defined in a workflow
+ */
+export interface AgentDefinition {
+  role: string;
+  goal: string;
+  backstory: string;
+  /** Name of the agent's model */
+  model: string;
+  memory?: MemoryDefinition;
+  /** Names of the tools the agent can use */
+  tools?: string[];
+  capabilities?: string[];
+  maxSteps?: number;
+  maxDelegationDepth?: number;
+  toolApproval?: Record<string, ApprovalPolicy>;
+  destructiveTools?: string[];
+  /** Gives the agent tools to read and write the shared blackboard */
+  blackboardTools?: boolean;
+}
+
+/**
+ * Retry settings of a task defined in a workflow
+ */
+export interface RetryDefinition {
+  maxAttempts?: number;
+  retryDelayMs?: number;
+  backoff?: BackoffStrategy;
+  maxDelayMs?: number;
+  jitter?: boolean;
+}
+
+/**
+ * Task defined in a workflow
+ */
+export interface TaskDefinition {
+  id?: string;
+  description: string;
+  /** Role of the agent doing the task */
+  agentRole: string;
+  priority?: TaskPriority;
+  timeoutMs?: number;
+  retryConfig?: RetryDefinition;
+  /** Ids of the tasks this task depends on */
+  dependsOn?: string[];
+  outputApproval?: ApprovalPolicy;
+  destructive?: boolean;
+  /** Id of the conversation session whose memory the agent uses */
+  sessionId?: string;
+}
+
+/**
+ * Scheduling and usage options of a workflow
+ */
+export interface WorkflowOptions {
+  maxConcurrency?: number;
+  maxConcurrencyPerAgent?: Record<string, number>;
+  rateLimit?: RateLimitConfig;
+  prices?: PriceTable;
+  budget?: UsageBudget;
+}
+
+/**
+ * Workflow of agents and tasks, as described in a workflow file
+ */
+export interface WorkflowDefinition {
+  /** Location of the workflow schema, for editors */
+  $schema?: string;
+  /** Models by name */
+  models?: Record<string, ModelDefinition>;
+  agents: AgentDefinition[];
+  tasks?: TaskDefinition[];
+  options?: WorkflowOptions;
+}
@@ -0,0 +1,168 @@
+import { FakeChatModel } from "../testing/FakeChatModel";
+import { Logger } from "../utils/Logger";
+import { WorkflowLoader } from "./WorkflowLoader";
+import { WorkflowValidationError } from "./WorkflowValidationError";
+
+const workflow = `
+agents:
+  - role: Researcher
+    goal: Research topics
+    backstory: Curious
+    model: default
+  - role: Writer
+    goal: Write articles
+    backstory: Experienced
+    model: default
+tasks:
+  - id: research
+    description: Research bats
+    agentRole: Researcher
+  - id: write
+    description: Write an article
+    agentRole: Writer
+    dependsOn: [research]
+`;
+
+/**
+ * Gets the issues of an invalid workflow
+ * @param loader The loader
+ * @param text Text of the workflow
+ * @param source Name of the workflow
+ */
+function getIssues(
+  loader: WorkflowLoader,
+  text: string,
+  source?: string
+): string[] {
+  try {
+    loader.parse(text, source);
+  } catch (error) {
+    if (error instanceof WorkflowValidationError) {
+      return error.issues;
+    }
+    throw error;
+  }
+  throw new Error("Expected the workflow to be invalid");
+}
+
+describe("WorkflowLoader", () => {
+  const options = {
+    models: { default: new FakeChatModel({ defaultResponse: "Done" }) },
+    batOptions: { logger: new Logger({ transports: [] }) },
+  };
+  const loader = new WorkflowLoader({ ...options, tools: [] });
+
+  it("builds a Bat that runs the tasks of a workflow", async () => {
+    const bat = loader.build(loader.parse(workflow));
+
+    const results = await bat.kickoff();
+
+    expect(results.map((result) => [result.taskId, result.status])).toEqual([
+      ["research", "completed"],
+      ["write", "completed"],
+    ]);
+  });
+
+  it("reports every schema error of a workflow", () => {
+    const issues = getIssues(
+      loader,
+      `
+agents:
+  - role: Writer
+    goal: Write articles
+    model: default
+    temprature: 1
+tasks:
+  - description: Write an article
+    agentRole: Writer
+    priority: urgent
+`
+    );
+
+    expect(issues).toEqual([
+      "workflow.agents[0].backstory is required",
+      "workflow.agents[0].temprature is not a known property. Known " +
+        "properties: role, goal, backstory, model, memory, tools, " +
+        "capabilities, maxSteps, maxDelegationDepth, toolApproval, " +
+        "destructiveTools, blackboardTools",
+      'workflow.tasks[0].priority must be one of "high", "medium", "low"',
+    ]);
+  });
+
+  it("reports files that cannot be parsed", () => {
+    expect(() => loader.parse("agents: [", "research.yaml")).toThrow(
+      "Invalid workflow research.yaml:\n- Flow sequence"
+    );
+    expect(getIssues(loader, "{", "research.json")).toHaveLength(1);
+  });
+
+  it("reports references to unknown models, tools, agents and tasks", () => {
+    const issues = getIssues(
+      loader,
+      workflow
+        .replace(
+          "model: default\n  - role: Writer",
+          "model: fast\n  - role: Writer"
+        )
+        .replace(
+          "backstory: Curious",
+          "backstory: Curious\n    tools: [search]"
+        )
+        .replace("agentRole: Writer", "agentRole: Editor")
+        .replace("dependsOn: [research]", "dependsOn: [outline]")
+    );
+
+    expect(issues).toEqual([
+      'workflow.agents[0].model refers to unknown model "fast". Known ' +
+        "models: default",
+      'workflow.agents[0].tools[0] refers to unknown tool "search". Known ' +
+        "tools: none",
+      'workflow.tasks[1].agentRole refers to unknown agent "Editor". Known ' +
+        "agents: Researcher, Writer",
+      'workflow.tasks[1].dependsOn[0] refers to unknown task "outline". ' +
+        "Known tasks: research, write",
+    ]);
+  });
+
+  it("reports circular dependencies and duplicate names", () => {
+    const issues = getIssues(
+      loader,
+      workflow
+        .replace("role: Writer", "role: Researcher")
+        .replace("agentRole: Writer", "agentRole: Researcher")
+        .replace(
+          "agentRole: Researcher\n  - id: write",
+          "agentRole: Researcher\n    dependsOn: [write]\n  - id: write"
+        )
+    );
+
+    expect(issues).toEqual([
+      'workflow.agents[1].role "Researcher" is used by another agent',
+      "Circular task dependency: research -> write -> research",
+    ]);
+  });
+
+  it("needs tools and a database only to build agents using them", () => {
+    const inspector = new WorkflowLoader(options);
+    const withTools = inspector.parse(
+      workflow.replace(
+        "backstory: Curious",
+        "backstory: Curious\n    tools: [search]"
+      )
+    );
+    const withSqlite = inspector.parse(
+      workflow.replace(
+        "backstory: Curious",
+        "backstory: Curious\n    memory: { type: sqlite }"
+      )
+    );
+
+    expect(() => inspector.build(withTools)).toThrow(
+      "Agent Researcher uses tools, which need the tools loader option"
+    );
+    expect(() => inspector.build(withSqlite)).toThrow(
+      "Agent Researcher uses sqlite memory, which needs the sqliteDatabase " +
+        "loader option"
+    );
+  });
+});
@@ -0,0 +1,398 @@
+import { BatTool } from "@bat-ai/tools";
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { ChatGroq } from "@langchain/groq";
+import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
+import { readFile } from "fs/promises";
+import { extname } from "path";
+import { parse as parseYaml } from "yaml";
+import { Agent } from "../agents/Agent";
+import { HashEmbeddings } from "../agents/memory/HashEmbeddings";
+import {
+  MemoryConfig,
+  MemoryFactory,
+} from "../agents/memory/MemoryFactory";
+import { Bat, BatOptions } from "../bat/Bat";
+import { SqliteDatabase } from "../utils/sqlite";
+import { JsonSchemaValidator } from "../utils/JsonSchemaValidator";
+import {
+  AgentDefinition,
+  MemoryDefinition,
+  ModelDefinition,
+  WorkflowDefinition,
+} from "./WorkflowDefinition";
+import { WorkflowValidationError } from "./WorkflowValidationError";
+import { workflowSchema } from "./workflowSchema";
+
+/**
+ * Options for loading workflows
+ */
+export interface WorkflowLoaderOptions {
+  /**
+   * Tools agents can use, referenced by name in workflows. Without them,
+   * tool references are not checked, e.g. to inspect a workflow, and
+   * building an agent that uses tools fails.
+   */
+  tools?: BatTool[];
+  /** Models by name, taking precedence over the models workflows define */
+  models?: Record<string, BaseChatModel>;
+  /** Options of the created Bat, taking precedence over workflow options */
+  batOptions?: BatOptions;
+  /** Database of the agents with sqlite memory */
+  sqliteDatabase?: SqliteDatabase;
+}
+
+/**
+ * Builds a Bat with its agents and tasks from a declarative YAML or JSON
+ * workflow, validated against the workflow schema
+ */
+export class WorkflowLoader {
+  constructor(private readonly options: WorkflowLoaderOptions = {}) {}
+
+  /**
+   * Loads a workflow file and builds its Bat
+   * @param filePath Path of the workflow; files ending in .json are parsed
+   * as JSON, others as YAML
+   * @returns Promise with the Bat, with the workflow's tasks added
+   * @throws WorkflowValidationError if the workflow is invalid
+   */
+  public async loadFile(filePath: string): Promise<Bat> {
+    return this.build(await this.parseFile(filePath));
+  }
+
+  /**
+   * Reads and validates a workflow file
+   * @param filePath Path of the workflow
+   * @returns Promise with the workflow definition
+   * @throws WorkflowValidationError if the workflow is invalid
+   */
+  public async parseFile(filePath: string): Promise<WorkflowDefinition> {
+    return this.parse(await readFile(filePath, "utf8"), filePath);
+  }
+
+  /**
+   * Parses and validates a workflow
+   * @param text YAML or JSON text of the workflow
+   * @param source Name of the workflow in error messages, usually its file
+   * path; names ending in .json are parsed as JSON, others as YAML
+   * @returns The workflow definition
+   * @throws WorkflowValidationError if the workflow is invalid
+   */
+  public parse(
+    text: string,
+    source: string = "workflow.yaml"
+  ): WorkflowDefinition {
+    let value: unknown;
+    try {
+      value =
+        extname(source).toLowerCase() === ".json"
+          ? JSON.parse(text)
+          : parseYaml(text);
+    } catch (error) {
+      throw new WorkflowValidationError(source, [
+        error instanceof Error ? error.message : String(error),
+      ]);
+    }
+    return this.validate(value, source);
+  }
+
+  /**
+   * Validates a workflow against the workflow schema, and checks that the
+   * models, tools, agents and tasks it refers to exist
+   * @param value The parsed workflow
+   * @param source Name of the workflow in error messages
+   * @returns The workflow definition, with schema defaults applied
+   * @throws WorkflowValidationError if the workflow is invalid
+   */
+  public validate(
+    value: unknown,
+    source: string = "workflow"
+  ): WorkflowDefinition {
+    // Unknown keys are rejected, so typos do not go unnoticed
+    const { value: validated, issues } = JsonSchemaValidator.validate(
+      workflowSchema,
+      value,
+      "workflow",
+      { strict: true }
+    );
+    const definition = validated as WorkflowDefinition;
+    if (issues.length === 0) {
+      issues.push(...this.checkReferences(definition));
+    }
+    if (issues.length > 0) {
+      throw new WorkflowValidationError(source, issues);
+    }
+    return definition;
+  }
+
+  /**
+   * Checks the references between the parts of a workflow
+   * @param definition Workflow matching the schema
+   * @returns The issues found
+   */
+  private checkReferences(definition: WorkflowDefinition): string[] {
+    const issues: string[] = [];
+    const models = [
+      ...new Set([
+        ...Object.keys(definition.models ?? {}),
+        ...Object.keys(this.options.models ?? {}),
+      ]),
+    ];
+    const tools = this.options.tools?.map((tool) => tool.schema.name);
+    const roles = definition.agents.map((agent) => agent.role);
+
+    definition.agents.forEach((agent, index) => {
+      const path = `workflow.agents[${index}]`;
+      if (roles.indexOf(agent.role) !== index) {
+        issues.push(`${path}.role "${agent.role}" is used by another agent`);
+      }
+      checkReference(issues, `${path}.model`, agent.model, "model", models);
+      if (agent.memory?.type === "mongodb" && !agent.memory.mongoUrl) {
+        issues.push(`${path}.memory uses mongodb memory, which needs mongoUrl`);
+      }
+      if (agent.memory?.type === "redis" && !agent.memory.redisUrl) {
+        issues.push(`${path}.memory uses redis memory, which needs redisUrl`);
+      }
+      if (agent.memory?.model !== undefined) {
+        checkReference(
+          issues,
+          `${path}.memory.model`,
+          agent.memory.model,
+          "model",
+          models
+        );
+      }
+      if (tools) {
+        agent.tools?.forEach((tool, toolIndex) =>
+          checkReference(
+            issues,
+            `${path}.tools[${toolIndex}]`,
+            tool,
+            "tool",
+            tools
+          )
+        );
+      }
+    });
+
+    const tasks = definition.tasks ?? [];
+    const taskIds = tasks.flatMap((task) => (task.id ? [task.id] : []));
+    tasks.forEach((task, index) => {
+      const path = `workflow.tasks[${index}]`;
+      if (
+        task.id &&
+        taskIds.indexOf(task.id) !== taskIds.lastIndexOf(task.id)
+      ) {
+        issues.push(`${path}.id "${task.id}" is used by another task`);
+      }
+      checkReference(
+        issues,
+        `${path}.agentRole`,
+        task.agentRole,
+        "agent",
+        roles
+      );
+      task.dependsOn?.forEach((id, dependencyIndex) =>
+        checkReference(
+          issues,
+          `${path}.dependsOn[${dependencyIndex}]`,
+          id,
+          "task",
+          taskIds
+        )
+      );
+    });
+
+    const cycle = findDependencyCycle(definition);
+    if (cycle) {
+      issues.push(`Circular task dependency: ${cycle.join(" -> ")}`);
+    }
+    return issues;
+  }
+
+  /**
+   * Builds the Bat of a workflow
+   * @param definition Validated workflow
+   * @returns The Bat, with the workflow's tasks added
+   * @throws Error if an agent needs tools or a database the loader was not
+   * given
+   */
+  public build(definition: WorkflowDefinition): Bat {
+    const models = new Map<string, BaseChatModel>();
+    const getModel = (name: string): BaseChatModel => {
+      let model = this.options.models?.[name] ?? models.get(name);
+      if (!model) {
+        model = createModel(definition.models![name]);
+        models.set(name, model);
+      }
+      return model;
+    };
+
+    const agents = definition.agents.map((agent) =>
+      this.createAgent(agent, getModel)
+    );
+    const bat = new Bat(agents, {
+      ...definition.options,
+      ...this.options.batOptions,
+    });
+    for (const task of definition.tasks ?? []) {
+      bat.addTask(task);
+    }
+    return bat;
+  }
+
+  /**
+   * Creates an agent of a workflow
+   * @param definition The agent definition
+   * @param getModel Gets a model by name
+   * @returns The agent
+   */
+  private createAgent(
+    definition: AgentDefinition,
+    getModel: (name: string) => BaseChatModel
+  ): Agent {
+    if (definition.memory?.type === "sqlite" && !this.options.sqliteDatabase) {
+      throw new Error(
+        `Agent ${definition.role} uses sqlite memory, which needs the sqliteDatabase loader option`
+      );
+    }
+    if (definition.tools?.length && !this.options.tools) {
+      throw new Error(
+        `Agent ${definition.role} uses tools, which need the tools loader option`
+      );
+    }
+    const model = getModel(definition.model);
+    // Validation made sure each memory type has the options it needs
+    // and each tool exists
+    const memory =
+      definition.memory &&
+      ({
+        ...definition.memory,
+        llm: definition.memory.model
+          ? getModel(definition.memory.model)
+          : model,
+        embeddings: createEmbeddings(definition.memory),
+        sqliteDatabase: this.options.sqliteDatabase,
+      } as MemoryConfig);
+    return new Agent({
+      role: definition.role,
+      goal: definition.goal,
+      backstory: definition.backstory,
+      model,
+      memory: memory && MemoryFactory.createMemory(memory),
+      sessionMemory: memory && MemoryFactory.forSessions(memory),
+      tools: definition.tools?.map(
+        (name) =>
+          this.options.tools!.find((tool) => tool.schema.name === name)!
+      ),
+      capabilities: definition.capabilities,
+      maxSteps: definition.maxSteps,
+      maxDelegationDepth: definition.maxDelegationDepth,
+      toolApproval: definition.toolApproval,
+      destructiveTools: definition.destructiveTools,
+      blackboardTools: definition.blackboardTools,
+    });
+  }
+}
+
+/**
+ * Records an issue if a name is not among the known ones
+ * @param issues Collected issues
+ * @param path Path of the reference, used in the issue message
+ * @param name The referenced name
+ * @param kind What the name refers to, e.g. "model"
+ * @param known The known names
+ */
+function checkReference(
+  issues: string[],
+  path: string,
+  name: string,
+  kind: string,
+  known: string[]
+): void {
+  if (!known.includes(name)) {
+    issues.push(
+      `${path} refers to unknown ${kind} "${name}". Known ${kind}s: ${
+        [...new Set(known)].join(", ") || "none"
+      }`
+    );
+  }
+}
+
+/**
+ * Looks for a cycle in the dependencies between the tasks of a workflow
+ * @param definition The workflow
+ * @returns The ids forming the cycle, or null if there is none
+ */
+function findDependencyCycle(definition: WorkflowDefinition): string[] | null {
+  const dependencies = new Map(
+    (definition.tasks ?? []).flatMap((task) =>
+      task.id ? [[task.id, task.dependsOn ?? []]] : []
+    )
+  );
+  const done = new Set<string>();
+  const visit = (id: string, path: string[]): string[] | null => {
+    if (path.includes(id)) {
+      return [...path.slice(path.indexOf(id)), id];
+    }
+    if (done.has(id)) {
+      return null;
+    }
+    for (const dependency of dependencies.get(id) ?? []) {
+      const cycle = visit(dependency, [...path, id]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    done.add(id);
+    return null;
+  };
+
+  for (const id of dependencies.keys()) {
+    const cycle = visit(id, []);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return null;
+}
+
+/**
+ * Creates a chat model of a workflow
+ * @param definition The model definition
+ * @returns The model
+ */
+function createModel(definition: ModelDefinition): BaseChatModel {
+  switch (definition.provider) {
+    case "openai":
+      return new ChatOpenAI({
+        modelName: definition.model,
+        temperature: definition.temperature,
+        maxTokens: definition.maxTokens,
+      });
+    case "groq":
+      return new ChatGroq({
+        model: definition.model,
+        temperature: definition.temperature,
+        maxTokens: definition.maxTokens,
+      });
+  }
+}
+
+/**
+ * Creates the embeddings of a memory of a workflow
+ * @param definition The memory definition
+ * @returns The embeddings, or undefined for the memory's default
+ */
+function createEmbeddings(
+  definition: MemoryDefinition
+): EmbeddingsInterface | undefined {
+  switch (definition.embeddings) {
+    case "hash":
+      return new HashEmbeddings();
+    case "openai":
+      return new OpenAIEmbeddings();
+    default:
+      return undefined;
+  }
+}
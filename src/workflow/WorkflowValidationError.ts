@@ -0,0 +1,17 @@
+/**
+ * Error thrown when a workflow file cannot be parsed or does not match the
+ * workflow schema
+ */
+export class WorkflowValidationError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly issues: string[]
+  ) {
+    super(
+      `Invalid workflow ${source}:\n${issues
+        .map((issue) => `- ${issue}`)
+        .join("\n")}`
+    );
+    this.name = "WorkflowValidationError";
+  }
+}
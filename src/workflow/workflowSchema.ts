@@ -0,0 +1,227 @@
+/**
+ * Schema of the approval policies
+ */
+const approvalPolicySchema = {
+  enum: ["always", "never", "destructive"],
+};
+
+/**
+ * Schema of the rate limits of model requests
+ */
+const rateLimitSchema = {
+  type: "object",
+  properties: {
+    requestsPerMinute: { type: "number", minimum: 1 },
+    tokensPerMinute: { type: "number", minimum: 1 },
+  },
+};
+
+/**
+ * Schema of a chat model
+ */
+const modelSchema = {
+  type: "object",
+  description: "Chat model that agents refer to by name",
+  required: ["provider", "model"],
+  properties: {
+    provider: { enum: ["openai", "groq"] },
+    model: {
+      type: "string",
+      description: 'Model name, e.g. "gpt-4-turbo-preview"',
+    },
+    temperature: { type: "number", minimum: 0 },
+    maxTokens: { type: "integer", minimum: 1 },
+  },
+};
+
+/**
+ * Schema of the memory of an agent
+ */
+const memorySchema = {
+  type: "object",
+  description: "Conversation memory of the agent",
+  required: ["type"],
+  properties: {
+    type: {
+      enum: [
+        "buffer",
+        "summary",
+        "buffer-window",
+        "combined",
+        "token-buffer",
+        "mongodb",
+        "redis",
+        "motorhead",
+        "json-file",
+        "sqlite",
+      ],
+    },
+    model: {
+      type: "string",
+      description:
+        "Name of the model used by summarizing memories (default: the agent's model)",
+    },
+    memoryKey: { type: "string" },
+    inputKey: { type: "string" },
+    outputKey: { type: "string" },
+    returnMessages: { type: "boolean" },
+    k: { type: "integer", minimum: 1 },
+    maxTokenLimit: { type: "integer", minimum: 1 },
+    sessionId: { type: "string" },
+    mongoUrl: { type: "string" },
+    mongoCollectionName: { type: "string" },
+    mongoIndexName: {
+      type: "string",
+      description: 'Atlas Search index of the mongodb memory (default: "default")',
+    },
+    redisUrl: { type: "string" },
+    redisPassword: { type: "string" },
+    redisIndexName: { type: "string" },
+    motorheadUrl: { type: "string" },
+    motorheadApiKey: { type: "string" },
+    motorheadClientId: { type: "string" },
+    directory: {
+      type: "string",
+      description: 'Directory of the json-file memory sessions (default: ".bat/memory")',
+    },
+    tablePrefix: {
+      type: "string",
+      description: 'Prefix of the tables of sqlite memory (default: "bat_")',
+    },
+    embeddings: {
+      enum: ["openai", "hash"],
+      description:
+        "Embeddings of the mongodb and redis memories; hash embeddings are computed locally (default: openai)",
+    },
+  },
+};
+
+/**
+ * Schema of an agent
+ */
+const agentSchema = {
+  type: "object",
+  required: ["role", "goal", "backstory", "model"],
+  properties: {
+    role: { type: "string", description: "Unique role of the agent" },
+    goal: { type: "string" },
+    backstory: { type: "string" },
+    model: { type: "string", description: "Name of the agent's model" },
+    memory: memorySchema,
+    tools: {
+      type: "array",
+      description: "Names of the tools the agent can use",
+      items: { type: "string" },
+    },
+    capabilities: { type: "array", items: { type: "string" } },
+    maxSteps: { type: "integer", minimum: 1 },
+    maxDelegationDepth: { type: "integer", minimum: 0 },
+    toolApproval: {
+      type: "object",
+      description: "Approval policies by tool name",
+      additionalProperties: approvalPolicySchema,
+    },
+    destructiveTools: { type: "array", items: { type: "string" } },
+    blackboardTools: {
+      type: "boolean",
+      description:
+        "Gives the agent tools to read and write the blackboard shared by the agents",
+    },
+  },
+};
+
+/**
+ * Schema of a task
+ */
+const taskSchema = {
+  type: "object",
+  required: ["description", "agentRole"],
+  properties: {
+    id: {
+      type: "string",
+      description: "Id other tasks use to depend on this task",
+    },
+    description: { type: "string" },
+    agentRole: {
+      type: "string",
+      description: "Role of the agent doing the task",
+    },
+    priority: { enum: ["high", "medium", "low"] },
+    timeoutMs: { type: "number", minimum: 1 },
+    retryConfig: {
+      type: "object",
+      properties: {
+        maxAttempts: { type: "integer", minimum: 1 },
+        retryDelayMs: { type: "number", minimum: 0 },
+        backoff: { enum: ["fixed", "linear", "exponential"] },
+        maxDelayMs: { type: "number", minimum: 0 },
+        jitter: { type: "boolean" },
+      },
+    },
+    dependsOn: {
+      type: "array",
+      description: "Ids of the tasks this task depends on",
+      items: { type: "string" },
+    },
+    outputApproval: approvalPolicySchema,
+    destructive: { type: "boolean" },
+    sessionId: {
+      type: "string",
+      description: "Id of the conversation session whose memory the agent uses",
+    },
+  },
+};
+
+/**
+ * JSON Schema of workflow files. It can also be given to editors to
+ * validate and complete YAML and JSON workflows while they are written.
+ */
+export const workflowSchema = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  title: "Bat workflow",
+  type: "object",
+  required: ["agents"],
+  properties: {
+    $schema: {
+      type: "string",
+      description: "Location of this schema, for editors",
+    },
+    models: {
+      type: "object",
+      description: "Chat models by name",
+      additionalProperties: modelSchema,
+    },
+    agents: { type: "array", items: agentSchema },
+    tasks: { type: "array", items: taskSchema },
+    options: {
+      type: "object",
+      properties: {
+        maxConcurrency: { type: "integer", minimum: 1 },
+        maxConcurrencyPerAgent: {
+          type: "object",
+          additionalProperties: { type: "integer", minimum: 1 },
+        },
+        rateLimit: rateLimitSchema,
+        prices: {
+          type: "object",
+          description: "Prices per million tokens by model name",
+          additionalProperties: {
+            type: "object",
+            required: ["promptPerMillion", "completionPerMillion"],
+            properties: {
+              promptPerMillion: { type: "number", minimum: 0 },
+              completionPerMillion: { type: "number", minimum: 0 },
+            },
+          },
+        },
+        budget: {
+          type: "object",
+          properties: {
+            maxCost: { type: "number", minimum: 0 },
+            maxTokens: { type: "integer", minimum: 1 },
+          },
+        },
+      },
+    },
+  },
+};